@@ -0,0 +1,119 @@
+import React from 'react';
+import { Pencil, Play, Trash } from 'lucide-react';
+import { CommandLogEntry, CommandOutcome, commandStats } from '../utils/commandLog';
+import { LocalePack, getLocale } from '../locales';
+
+interface CommandLogProps {
+    // Oldest first, as stored; shown newest first
+    entries: CommandLogEntry[];
+    // The current language; only entries said in it can run again
+    pack: LocalePack;
+    // Runs the entry again with what was heard back then
+    onReplay: (entry: CommandLogEntry) => void;
+    // Puts the entry's text into the command field to be corrected
+    onFix: (entry: CommandLogEntry) => void;
+    onClear: () => void;
+}
+
+const OUTCOME_CLASSES: Record<CommandOutcome, string> = {
+    done: 'text-green-700',
+    asked: 'text-yellow-700',
+    failed: 'text-red-600',
+    unrecognized: 'text-red-600'
+};
+
+const percent = (part: number, total: number): string => `${Math.round((part / total) * 100)}%`;
+
+// Past commands with what was heard and how they went, and recognition stats over all of them
+const CommandLog: React.FC<CommandLogProps> = ({ entries, pack, onReplay, onFix, onClear }) => {
+    const t = pack.messages;
+    if (entries.length === 0) {
+        return <p className="text-sm text-gray-500">{t.commandLogEmpty}</p>;
+    }
+
+    const stats = commandStats(entries);
+
+    return (
+        <div className="text-sm">
+            <h3 className="font-semibold mb-1">{t.commandStatsTitle}</h3>
+            <dl className="grid grid-cols-2 gap-x-2 mb-2">
+                <dt className="text-gray-600">{t.commandStats.total}</dt>
+                <dd>{stats.total}</dd>
+                <dt className="text-gray-600">{t.commandStats.recognized}</dt>
+                <dd>{percent(stats.recognized, stats.total)}</dd>
+                <dt className="text-gray-600">{t.commandStats.succeeded}</dt>
+                <dd>{percent(stats.succeeded, stats.total)}</dd>
+            </dl>
+            {stats.failing.length > 0 && (
+                <>
+                    <p className="text-gray-600">{t.failingMostOften}</p>
+                    <ol className="list-decimal list-inside mb-2">
+                        {stats.failing.map(({ phrase, count }) => (
+                            <li key={phrase}>"{phrase}" ({count}×)</li>
+                        ))}
+                    </ol>
+                </>
+            )}
+
+            <div className="flex items-center justify-between mb-1">
+                <h3 className="font-semibold">{t.pastCommandsTitle}</h3>
+                <button onClick={onClear} className="flex items-center text-xs text-gray-500 hover:text-red-600">
+                    <Trash size={12} className="mr-1" />
+                    {t.clearLog}
+                </button>
+            </div>
+            <ol className="space-y-1 max-h-64 overflow-y-auto" aria-label={t.pastCommandsLabel}>
+                {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+                    <li key={`${entry.time}-${index}`} className="bg-white p-1 rounded border border-gray-200">
+                        <div className="flex items-start justify-between">
+                            <div className="min-w-0">
+                                <p className="font-medium break-words">"{entry.transcript}"</p>
+                                <p className="text-xs text-gray-500">
+                                    <time dateTime={new Date(entry.time).toISOString()}>{new Date(entry.time).toLocaleString()}</time>
+                                    {' · '}{t.commandSources[entry.source]}
+                                    {entry.confidence !== null && ` · ${t.heardConfidence(percent(entry.confidence, 1))}`}
+                                    {entry.intents.length > 0 && ` · ${entry.intents.join(', ')}`}
+                                    {' · '}<span className={OUTCOME_CLASSES[entry.outcome]}>{t.commandOutcomes[entry.outcome]}</span>
+                                </p>
+                            </div>
+                            <div className="flex shrink-0">
+                                <button
+                                    onClick={() => onReplay(entry)}
+                                    disabled={entry.locale !== pack.id}
+                                    className="p-1 text-gray-500 hover:text-blue-600 disabled:text-gray-300"
+                                    title={entry.locale === pack.id ? t.runAgain : t.runAgainOtherLanguage(getLocale(entry.locale).label)}
+                                    aria-label={t.runAgainLabel(entry.transcript)}
+                                >
+                                    <Play size={14} />
+                                </button>
+                                <button
+                                    onClick={() => onFix(entry)}
+                                    className="p-1 text-gray-500 hover:text-blue-600"
+                                    title={t.correctCommand}
+                                    aria-label={t.correctCommandLabel(entry.transcript)}
+                                >
+                                    <Pencil size={14} />
+                                </button>
+                            </div>
+                        </div>
+                        {entry.result && <p className="text-xs text-gray-700">{entry.result}</p>}
+                        {entry.alternatives.length > 1 && (
+                            <details className="text-xs text-gray-500">
+                                <summary className="cursor-pointer">{t.alsoHeard}</summary>
+                                <ul>
+                                    {entry.alternatives.slice(1).map(alternative => (
+                                        <li key={alternative.transcript}>
+                                            "{alternative.transcript}" ({percent(alternative.confidence, 1)})
+                                        </li>
+                                    ))}
+                                </ul>
+                            </details>
+                        )}
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+export default CommandLog;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Plus, Trash } from 'lucide-react';
+import type { LocalePack } from '../locales';
+import {
+    CustomCommands,
+    CustomMacro,
+    CustomSynonym,
+    SYNONYM_INTENTS,
+    SynonymIntent,
+    normalizePhrase,
+    validateMacro,
+    validateSynonym
+} from '../utils/customCommands';
+
+interface CustomCommandsEditorProps {
+    commands: CustomCommands;
+    // The language the commands are for, without custom commands; new ones are checked against it
+    pack: LocalePack;
+    onChange: (commands: CustomCommands) => void;
+}
+
+const emptySynonym = (): CustomSynonym => ({ phrase: '', intent: 'delete', content: '' });
+
+const emptyMacro = (): { phrase: string, commands: string } => ({ phrase: '', commands: '' });
+
+// Settings for the user's own voice commands in the current language
+const CustomCommandsEditor: React.FC<CustomCommandsEditorProps> = ({ commands, pack, onChange }) => {
+    const [synonym, setSynonym] = useState<CustomSynonym>(emptySynonym);
+    const [synonymError, setSynonymError] = useState<string | null>(null);
+    const [macro, setMacro] = useState(emptyMacro);
+    const [macroError, setMacroError] = useState<string | null>(null);
+    const takesTask = SYNONYM_INTENTS[synonym.intent].length > 0;
+    const t = pack.messages;
+
+    const addSynonym = (e: React.FormEvent<HTMLFormElement>): void => {
+        e.preventDefault();
+        const content = takesTask ? synonym.content?.trim() : '';
+        const added: CustomSynonym = {
+            phrase: normalizePhrase(synonym.phrase),
+            intent: synonym.intent,
+            ...(content ? { content } : {})
+        };
+        const error = validateSynonym(added, commands, pack);
+        setSynonymError(error);
+        if (!error) {
+            onChange({ ...commands, synonyms: [...commands.synonyms, added] });
+            setSynonym({ ...emptySynonym(), intent: synonym.intent });
+        }
+    };
+
+    const addMacro = (e: React.FormEvent<HTMLFormElement>): void => {
+        e.preventDefault();
+        const added: CustomMacro = {
+            phrase: normalizePhrase(macro.phrase),
+            commands: macro.commands.split('\n').map(command => command.trim()).filter(Boolean)
+        };
+        const error = validateMacro(added, commands, pack);
+        setMacroError(error);
+        if (!error) {
+            onChange({ ...commands, macros: [...commands.macros, added] });
+            setMacro(emptyMacro());
+        }
+    };
+
+    const removeSynonym = (index: number): void => {
+        onChange({ ...commands, synonyms: commands.synonyms.filter((_, i) => i !== index) });
+    };
+
+    const removeMacro = (index: number): void => {
+        onChange({ ...commands, macros: commands.macros.filter((_, i) => i !== index) });
+    };
+
+    return (
+        <div className="text-sm">
+            <h3 className="font-semibold mb-1">{t.synonymsTitle}</h3>
+            <p className="text-xs text-gray-500 mb-2">{t.synonymsHelp}</p>
+            {commands.synonyms.length > 0 && (
+                <ul className="mb-2 space-y-1">
+                    {commands.synonyms.map((item, index) => (
+                        <li key={item.phrase} className="flex items-center justify-between bg-white p-1 rounded border border-gray-200">
+                            <span>
+                                "{item.phrase}" → {t.synonymIntents[item.intent]}{item.content && ` (${item.content})`}
+                            </span>
+                            <button
+                                onClick={() => removeSynonym(index)}
+                                className="p-1 text-gray-500 hover:text-red-600"
+                                aria-label={t.removeCustomCommand(item.phrase)}
+                            >
+                                <Trash size={14} />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <form onSubmit={addSynonym} className="mb-4">
+                <div className="flex space-x-2 mb-1">
+                    <input
+                        type="text"
+                        value={synonym.phrase}
+                        onChange={e => setSynonym({ ...synonym, phrase: e.target.value })}
+                        placeholder={t.synonymPhrasePlaceholder}
+                        className="flex-1 min-w-0 p-1 border border-gray-300 rounded"
+                        aria-label={t.synonymPhraseLabel}
+                    />
+                    <select
+                        value={synonym.intent}
+                        onChange={e => setSynonym({ ...synonym, intent: e.target.value as SynonymIntent })}
+                        className="flex-1 min-w-0 p-1 border border-gray-300 rounded bg-white"
+                        aria-label={t.synonymIntentLabel}
+                    >
+                        {(Object.keys(SYNONYM_INTENTS) as SynonymIntent[]).map(intent => (
+                            <option key={intent} value={intent}>{t.synonymIntents[intent]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex space-x-2">
+                    {takesTask && (
+                        <input
+                            type="text"
+                            value={synonym.content || ''}
+                            onChange={e => setSynonym({ ...synonym, content: e.target.value })}
+                            placeholder={t.fixedTaskPlaceholder(synonym.intent)}
+                            className="flex-1 min-w-0 p-1 border border-gray-300 rounded"
+                            aria-label={t.fixedTaskLabel}
+                        />
+                    )}
+                    <button type="submit" className="flex items-center bg-blue-500 text-white px-2 py-1 rounded">
+                        <Plus size={14} className="mr-1" />
+                        {t.addSynonym}
+                    </button>
+                </div>
+                {synonymError && <p className="text-xs text-red-600 mt-1">{synonymError}</p>}
+            </form>
+
+            <h3 className="font-semibold mb-1">{t.macrosTitle}</h3>
+            <p className="text-xs text-gray-500 mb-2">{t.macrosHelp}</p>
+            {commands.macros.length > 0 && (
+                <ul className="mb-2 space-y-1">
+                    {commands.macros.map((item, index) => (
+                        <li
+                            key={item.phrase}
+                            className="flex items-center justify-between bg-white p-1 rounded border border-gray-200"
+                            title={item.commands.join('\n')}
+                        >
+                            <span>
+                                "{item.phrase}" → {t.macroCommandCount(item.commands.length)}
+                            </span>
+                            <button
+                                onClick={() => removeMacro(index)}
+                                className="p-1 text-gray-500 hover:text-red-600"
+                                aria-label={t.removeCustomCommand(item.phrase)}
+                            >
+                                <Trash size={14} />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <form onSubmit={addMacro}>
+                <input
+                    type="text"
+                    value={macro.phrase}
+                    onChange={e => setMacro({ ...macro, phrase: e.target.value })}
+                    placeholder={t.macroPhrasePlaceholder}
+                    className="w-full p-1 border border-gray-300 rounded mb-1"
+                    aria-label={t.macroPhraseLabel}
+                />
+                <textarea
+                    value={macro.commands}
+                    onChange={e => setMacro({ ...macro, commands: e.target.value })}
+                    placeholder={t.macroCommandsPlaceholder}
+                    rows={4}
+                    className="w-full p-1 border border-gray-300 rounded mb-1"
+                    aria-label={t.macroCommandsLabel}
+                />
+                <button type="submit" className="flex items-center bg-blue-500 text-white px-2 py-1 rounded">
+                    <Plus size={14} className="mr-1" />
+                    {t.addMacro}
+                </button>
+                {macroError && <p className="text-xs text-red-600 mt-1">{macroError}</p>}
+            </form>
+        </div>
+    );
+};
+
+export default CustomCommandsEditor;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { axe } from 'jest-axe';
+import TaskItem from './TaskItem';
+import { Task, emptyTaskDetails } from '../types/task';
+import { locales } from '../locales';
+
+const task: Task = {
+    id: '1',
+    content: 'buy milk',
+    completed: true,
+    ...emptyTaskDetails(),
+    due: '2026-10-20',
+    priority: 'high',
+    tags: ['shopping']
+};
+
+const renderItem = (overrides: Partial<React.ComponentProps<typeof TaskItem>> = {}) => {
+    const handlers = {
+        onToggle: jest.fn(),
+        onDelete: jest.fn(),
+        onEdit: jest.fn(),
+        onMove: jest.fn(),
+        onMoveStep: jest.fn()
+    };
+    const view = render(
+        <ul>
+            <TaskItem task={task} lang="en-US" messages={locales.en.messages} reorderable {...handlers} {...overrides} />
+        </ul>
+    );
+    return { ...view, ...handlers };
+};
+
+describe('TaskItem', () => {
+    it('has no detectable accessibility violations', async () => {
+        const { container } = renderItem();
+        expect(await axe(container)).toHaveNoViolations();
+    });
+
+    it('names every icon button after the task', () => {
+        const { onToggle, onDelete } = renderItem();
+
+        const toggle = screen.getByRole('button', { name: 'Mark "buy milk" as done' });
+        expect(toggle).toHaveAttribute('aria-pressed', 'true');
+        fireEvent.click(toggle);
+        expect(onToggle).toHaveBeenCalledWith(task);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Delete "buy milk"' }));
+        expect(onDelete).toHaveBeenCalledWith(task);
+        expect(screen.getByRole('button', { name: 'Edit "buy milk"' })).toBeInTheDocument();
+    });
+
+    it('moves the task with the arrow keys on its handle', () => {
+        const { onMoveStep } = renderItem();
+        const handle = screen.getByRole('button', { name: 'Move "buy milk"' });
+
+        fireEvent.keyDown(handle, { key: 'ArrowUp' });
+        fireEvent.keyDown(handle, { key: 'ArrowDown' });
+        fireEvent.keyDown(handle, { key: 'ArrowLeft' });
+        expect(onMoveStep.mock.calls).toEqual([[task, 'up'], [task, 'down']]);
+    });
+
+    it('has no move handle when the list is sorted', () => {
+        renderItem({ reorderable: false });
+        expect(screen.queryByRole('button', { name: /^Move/ })).toBeNull();
+    });
+
+    it('edits the text in place from the keyboard', () => {
+        const { onEdit } = renderItem();
+        fireEvent.click(screen.getByRole('button', { name: 'Edit "buy milk"' }));
+
+        const input = screen.getByRole('textbox', { name: 'Task text' });
+        expect(input).toHaveFocus();
+        fireEvent.change(input, { target: { value: 'buy oat milk' } });
+        fireEvent.keyDown(input, { key: 'Enter' });
+        expect(onEdit).toHaveBeenCalledWith(task, 'buy oat milk');
+    });
+
+    it('speaks the language it is given', () => {
+        renderItem({ lang: 'de-DE', messages: locales.de.messages });
+
+        expect(screen.getByRole('button', { name: '„buy milk“ als erledigt markieren' })).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: '„buy milk“ löschen' })).toHaveAttribute('title', 'Aufgabe löschen');
+        expect(screen.getByText('hohe Priorität')).toBeInTheDocument();
+        expect(screen.getByText('(erledigt)', { exact: false })).toBeInTheDocument();
+    });
+});
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Check, Trash, Calendar, Tag, List, Edit2, GripVertical } from 'lucide-react';
+import { Task } from '../types/task';
+import { formatDue, isOverdue } from '../utils/taskQueries';
+import { Messages } from '../locales';
+
+interface TaskItemProps {
+    task: Task;
+    // Recognition language tag, used to format the due date
+    lang: string;
+    // Texts of the current language
+    messages: Messages;
+    // Whether the task can be dragged onto another one; only while the list shows its own order
+    reorderable: boolean;
+    onToggle: (task: Task) => void;
+    onDelete: (task: Task) => void;
+    onEdit: (task: Task, content: string) => void;
+    // A task was dropped onto this one
+    onMove: (draggedId: string, target: Task) => void;
+    // Arrow keys on the move handle
+    onMoveStep: (task: Task, direction: 'up' | 'down') => void;
+}
+
+const PRIORITY_STYLES: Record<string, string> = {
+    high: 'bg-red-100 text-red-700',
+    medium: 'bg-yellow-100 text-yellow-700',
+    low: 'bg-gray-100 text-gray-600'
+};
+
+// Type of the drag data, so drops of unrelated text are ignored
+const DRAG_TYPE = 'application/x-voice-todo-task';
+
+const TaskItem: React.FC<TaskItemProps> = ({ task, lang, messages: t, reorderable, onToggle, onDelete, onEdit, onMove, onMoveStep }) => {
+    const overdue = isOverdue(task);
+    // The text being typed while the task is edited in place, or null when not editing
+    const [draft, setDraft] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<boolean>(false);
+
+    const saveEdit = (): void => {
+        if (draft !== null) {
+            onEdit(task, draft.trim());
+            setDraft(null);
+        }
+    };
+
+    const handleEditKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+        if (e.key === 'Enter') {
+            saveEdit();
+        } else if (e.key === 'Escape') {
+            setDraft(null);
+        }
+    };
+
+    const handleMoveKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>): void => {
+        if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+            e.preventDefault();
+            onMoveStep(task, e.key === 'ArrowUp' ? 'up' : 'down');
+        }
+    };
+
+    const handleDragStart = (e: React.DragEvent<HTMLLIElement>): void => {
+        e.dataTransfer.setData(DRAG_TYPE, task.id);
+        e.dataTransfer.effectAllowed = 'move';
+    };
+
+    const handleDragOver = (e: React.DragEvent<HTMLLIElement>): void => {
+        if (reorderable && e.dataTransfer.types.includes(DRAG_TYPE)) {
+            e.preventDefault();
+            setDropTarget(true);
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLLIElement>): void => {
+        e.preventDefault();
+        setDropTarget(false);
+        const draggedId = e.dataTransfer.getData(DRAG_TYPE);
+        if (draggedId && draggedId !== task.id) {
+            onMove(draggedId, task);
+        }
+    };
+
+    return (
+        <li
+            data-task-id={task.id}
+            draggable={reorderable && draft === null}
+            onDragStart={handleDragStart}
+            onDragOver={handleDragOver}
+            onDragLeave={() => setDropTarget(false)}
+            onDrop={handleDrop}
+            className={`flex items-center justify-between p-3 rounded border ${task.completed ? 'bg-green-50 border-green-200' : overdue ? 'bg-red-50 border-red-300' : 'bg-white border-gray-200'} ${dropTarget ? 'ring-2 ring-blue-400' : ''}`}
+        >
+            <div className="flex items-center flex-1">
+                {reorderable && (
+                    <button
+                        onKeyDown={handleMoveKeyDown}
+                        className="text-gray-400 mr-1 cursor-move"
+                        aria-label={t.moveTask(task.content)}
+                        title={t.moveTaskHint}
+                        data-task-control="move"
+                    >
+                        <GripVertical size={16} />
+                    </button>
+                )}
+                <button
+                    onClick={() => onToggle(task)}
+                    className={`p-1 rounded-full mr-3 ${task.completed ? 'bg-green-500 text-white' : 'bg-gray-200'}`}
+                    aria-label={t.toggleTask(task.content)}
+                    aria-pressed={task.completed}
+                    data-task-control="toggle"
+                >
+                    <Check size={16} />
+                </button>
+                <div className="flex-1">
+                    {draft !== null ? (
+                        <input
+                            type="text"
+                            value={draft}
+                            onChange={e => setDraft(e.target.value)}
+                            onKeyDown={handleEditKeyDown}
+                            onBlur={saveEdit}
+                            className="w-full p-1 border border-blue-300 rounded"
+                            aria-label={t.taskText}
+                            data-task-control="edit"
+                            autoFocus
+                        />
+                    ) : (
+                        <span
+                            onDoubleClick={() => setDraft(task.content)}
+                            className={task.completed ? 'line-through text-gray-500' : ''}
+                        >
+                            {task.content}
+                            {task.completed && <span className="sr-only"> {t.taskDone}</span>}
+                        </span>
+                    )}
+                    {(task.due || task.priority || task.list || task.tags.length > 0) && (
+                        <div className="flex flex-wrap items-center gap-1 mt-1 text-xs">
+                            {task.due && (
+                                <span className={`flex items-center px-1 rounded ${overdue ? 'bg-red-500 text-white' : 'bg-blue-50 text-blue-700'}`}>
+                                    <Calendar size={12} className="mr-1" />
+                                    {formatDue(task.due, lang)}
+                                    {overdue && ` · ${t.overdue}`}
+                                </span>
+                            )}
+                            {task.priority && (
+                                <span className={`px-1 rounded ${PRIORITY_STYLES[task.priority]}`}>
+                                    {t.priorityBadges[task.priority]}
+                                </span>
+                            )}
+                            {task.list && (
+                                <span className="flex items-center px-1 rounded bg-purple-50 text-purple-700">
+                                    <List size={12} className="mr-1" />
+                                    {task.list}
+                                </span>
+                            )}
+                            {task.tags.map(tag => (
+                                <span key={tag} className="flex items-center px-1 rounded bg-gray-100 text-gray-600">
+                                    <Tag size={12} className="mr-1" />
+                                    {tag}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+            <div className="flex items-center space-x-2 ml-2">
+                <button
+                    onClick={() => setDraft(task.content)}
+                    className="text-gray-500 hover:text-gray-700"
+                    title={t.editTaskTitle}
+                    aria-label={t.editTask(task.content)}
+                    data-task-control="edit"
+                >
+                    <Edit2 size={16} />
+                </button>
+                <button
+                    onClick={() => onDelete(task)}
+                    className="text-red-500 hover:text-red-700"
+                    title={t.deleteTaskTitle}
+                    aria-label={t.deleteTask(task.content)}
+                    data-task-control="delete"
+                >
+                    <Trash size={16} />
+                </button>
+            </div>
+        </li>
+    );
+};
+
+export default TaskItem;
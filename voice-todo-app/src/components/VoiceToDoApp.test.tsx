@@ -0,0 +1,188 @@
+import React from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import { axe } from 'jest-axe';
+import VoiceToDoApp from './VoiceToDoApp';
+
+const renderApp = async () => {
+    const view = render(<VoiceToDoApp />);
+    await screen.findByText(/No tasks yet/);
+    return view;
+};
+
+const typeCommand = (command: string) => {
+    const input = screen.getByRole('textbox', { name: 'Command' });
+    fireEvent.change(input, { target: { value: command } });
+    fireEvent.submit(input);
+};
+
+beforeEach(() => {
+    window.localStorage.clear();
+});
+
+describe('VoiceToDoApp', () => {
+    it('has no detectable accessibility violations', async () => {
+        const { container } = await renderApp();
+        typeCommand('add task buy milk');
+        expect(await axe(container)).toHaveNoViolations();
+    });
+
+    it('announces every command result in a live region', async () => {
+        await renderApp();
+        const status = screen.getByRole('status');
+        expect(status).toHaveAttribute('aria-live', 'polite');
+
+        typeCommand('add task buy milk');
+        expect(status).toHaveTextContent('Added task: "buy milk"');
+        expect(screen.getByRole('button', { name: 'Mark "buy milk" as done' })).toBeInTheDocument();
+
+        // The same message again is a new node in the region, so it is read again
+        const before = within(status).getByText('Added task: "buy milk"');
+        typeCommand('add task buy milk');
+        expect(within(status).getByText('Added task: "buy milk"')).not.toBe(before);
+    });
+
+    it('adds one task per item of a list said after a plain "add"', async () => {
+        await renderApp();
+
+        typeCommand('add milk and eggs and bread');
+        expect(screen.getByRole('heading', { name: 'Tasks (3)' })).toBeInTheDocument();
+
+        typeCommand('add task call mom and dad');
+        expect(screen.getByRole('button', { name: 'Mark "call mom and dad" as done' })).toBeInTheDocument();
+    });
+
+    it('has keyboard shortcuts for the command field and the microphone', async () => {
+        await renderApp();
+
+        fireEvent.keyDown(window, { code: 'KeyT', key: '†', altKey: true });
+        expect(screen.getByRole('textbox', { name: 'Command' })).toHaveFocus();
+
+        const microphone = screen.getByRole('button', { name: 'Microphone' });
+        expect(microphone).toHaveAttribute('aria-pressed', 'false');
+        fireEvent.keyDown(window, { code: 'KeyM', key: 'µ', altKey: true });
+        expect(microphone).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('leaves the keys of text fields alone', async () => {
+        await renderApp();
+        const status = screen.getByRole('status');
+        const input = screen.getByRole('textbox', { name: 'Command' });
+
+        fireEvent.keyDown(input, { key: 'Enter', ctrlKey: true });
+        expect(status).not.toHaveTextContent('No command to process');
+        fireEvent.keyDown(input, { code: 'KeyM', key: 'µ', altKey: true });
+        expect(screen.getByRole('button', { name: 'Microphone' })).toHaveAttribute('aria-pressed', 'false');
+
+        fireEvent.keyDown(document.body, { key: 'Enter', ctrlKey: true });
+        expect(status).toHaveTextContent('No command to process');
+    });
+
+    it('keeps focus in the list when the focused task is deleted', async () => {
+        await renderApp();
+        typeCommand('add task buy milk');
+        typeCommand('add task call mom');
+
+        const remove = screen.getByRole('button', { name: 'Delete "buy milk"' });
+        remove.focus();
+        fireEvent.click(remove);
+        expect(screen.getByRole('button', { name: 'Mark "call mom" as done' })).toHaveFocus();
+
+        const last = screen.getByRole('button', { name: 'Delete "call mom"' });
+        last.focus();
+        fireEvent.click(last);
+        expect(screen.getByRole('heading', { name: 'Tasks (0)' })).toHaveFocus();
+    });
+
+    it('keeps focus on the move handle while moving a task with the arrow keys', async () => {
+        await renderApp();
+        typeCommand('add task buy milk');
+        typeCommand('add task call mom');
+
+        const handle = screen.getByRole('button', { name: 'Move "call mom"' });
+        handle.focus();
+        fireEvent.keyDown(handle, { key: 'ArrowUp' });
+
+        const toggles = screen.getAllByRole('button', { name: /^Mark ".*" as done$/ });
+        expect(toggles.map(toggle => toggle.getAttribute('aria-label'))).toEqual([
+            'Mark "call mom" as done',
+            'Mark "buy milk" as done'
+        ]);
+        expect(screen.getByRole('button', { name: 'Move "call mom"' })).toHaveFocus();
+    });
+
+    it('logs commands and runs them again from the log', async () => {
+        await renderApp();
+        typeCommand('add task buy milk');
+        typeCommand('sing a song');
+
+        fireEvent.click(screen.getByRole('button', { name: 'Command log (2)' }));
+        expect(screen.getByText('"sing a song" (1×)')).toBeInTheDocument();
+        expect(screen.getByText('not recognized')).toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Run "add task buy milk" again' }));
+        expect(screen.getAllByRole('button', { name: 'Mark "buy milk" as done' })).toHaveLength(2);
+        expect(screen.getByRole('button', { name: 'Command log (3)' })).toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Correct "sing a song"' }));
+        const input = screen.getByRole('textbox', { name: 'Command' });
+        expect(input).toHaveValue('sing a song');
+        expect(input).toHaveFocus();
+    });
+
+    it('only runs logged commands again in the language they were said in', async () => {
+        window.localStorage.setItem('voice-todo-app:commandLog', JSON.stringify([{
+            time: 0,
+            locale: 'de',
+            source: 'typed',
+            transcript: 'füge Aufgabe Milch kaufen hinzu',
+            alternatives: [],
+            confidence: null,
+            intents: ['add'],
+            outcome: 'done',
+            result: ''
+        }]));
+        await renderApp();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Command log (1)' }));
+        const replay = screen.getByRole('button', { name: 'Run "füge Aufgabe Milch kaufen hinzu" again' });
+        expect(replay).toBeDisabled();
+        expect(replay).toHaveAttribute('title', expect.stringContaining('Deutsch'));
+    });
+
+    it('drops an unanswered "Did you mean" when the next command runs', async () => {
+        // Two close readings, replayed from the log since typed commands have no alternatives
+        const heard = [
+            { transcript: 'add task buy bread', confidence: 0.9 },
+            { transcript: 'add task buy red', confidence: 0.88 }
+        ];
+        window.localStorage.setItem('voice-todo-app:commandLog', JSON.stringify([{
+            time: 0,
+            locale: 'en',
+            source: 'voice',
+            transcript: heard[0].transcript,
+            alternatives: heard,
+            confidence: 0.9,
+            intents: [],
+            outcome: 'asked',
+            result: ''
+        }]));
+        await renderApp();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Command log (1)' }));
+        fireEvent.click(screen.getByRole('button', { name: 'Run "add task buy bread" again' }));
+        expect(screen.getByRole('button', { name: /buy red/ })).toBeInTheDocument();
+
+        typeCommand('add task call mom');
+        expect(screen.queryByRole('button', { name: /buy red/ })).not.toBeInTheDocument();
+    });
+
+    it('shows its controls in the chosen language', async () => {
+        await renderApp();
+        fireEvent.change(screen.getByRole('combobox', { name: 'Language' }), { target: { value: 'de' } });
+
+        expect(await screen.findByText(/Noch keine Aufgaben/)).toBeInTheDocument();
+        expect(screen.getByRole('textbox', { name: 'Befehl' })).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: 'Mikrofon' })).toBeInTheDocument();
+        expect(screen.getByRole('heading', { name: 'Aufgaben (0)' })).toBeInTheDocument();
+    });
+});
@@ -1,28 +1,270 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Mic, MicOff, Check, Trash, Square, Edit } from 'lucide-react';
+import {
+    Mic,
+    MicOff,
+    Square,
+    Edit,
+    Undo2,
+    Redo2,
+    Volume2,
+    Upload,
+    Cloud,
+    CloudOff,
+    RefreshCw,
+    AlertTriangle,
+    WifiOff,
+    Settings,
+    History
+} from 'lucide-react';
+import TaskItem from './TaskItem';
+import CustomCommandsEditor from './CustomCommandsEditor';
+import CommandLog from './CommandLog';
 
 // Import type declarations to ensure TypeScript recognizes the Web Speech API
 import '../types/speech-recognition.d';
-import { SpeechRecognition, SpeechRecognitionErrorEvent, SpeechRecognitionEvent } from "../types/speech-recognition";
+import { SpeechRecognition, SpeechRecognitionAlternative, SpeechRecognitionEvent } from "../types/speech-recognition";
+import { usePersistentTasks } from '../hooks/usePersistentTasks';
+import { useTaskHistory } from '../hooks/useTaskHistory';
+import { useStoredSetting } from '../hooks/useStoredSetting';
+import { useTaskSync } from '../hooks/useTaskSync';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useAppUpdate } from '../hooks/useAppUpdate';
+import { useCommandLog } from '../hooks/useCommandLog';
+import { FeedbackKind, SPEECH_VERBOSITIES, SpeechVerbosity, useSpeechFeedback } from '../hooks/useSpeechFeedback';
+import { RecognitionSession, SessionFailure, SessionState, isActiveSessionState } from '../services/recognitionSession';
+import { downloadTextFile } from '../services/fileDownload';
+import {
+    RecognizerEngine,
+    createRecognizer,
+    getAvailableRecognizers,
+    getDefaultRecognizerEngine,
+    isAvailableRecognizerEngine,
+    recognizerNeedsNetwork
+} from '../services/recognizers';
+import { LocaleId, LocalePack, detectLocale, getLocale, isLocaleId, locales } from '../locales';
+import { Intent, IntentType, parseIntent } from '../utils/intentParser';
+import { CommandCandidate, ambiguousCandidates, rankCandidates, readingKey } from '../utils/commandMatcher';
+import { parseChoice, parsePosition, resolveTaskTarget } from '../utils/taskTargeting';
+import { PRIORITIES, Priority, Task, createTaskId } from '../types/task';
+import { parseTaskText } from '../utils/taskDetailsParser';
+import { splitCommands, splitListItems } from '../utils/commandSplitter';
+import {
+    CustomCommandSettings,
+    emptyCustomCommands,
+    findMacro,
+    isCustomCommandSettings,
+    macroCommandLanguage,
+    withCustomCommands
+} from '../utils/customCommands';
+import { MovePosition, changeTask, moveIndex, moveTask } from '../utils/taskEditing';
+import { CommandLogEntry, CommandRun, CommandSource, commandOutcome } from '../utils/commandLog';
+import {
+    TASK_FILE_FORMATS,
+    TaskFileFormat,
+    detectTaskFileFormat,
+    exportTasks,
+    importTasks,
+    mergeImportedTasks,
+    taskFileName
+} from '../utils/taskFiles';
+import {
+    LISTENING_MODES,
+    ListeningMode,
+    SILENCE_TIMEOUT_MS,
+    WAKE_WINDOW_MS,
+    afterWakeWord,
+    isListeningMode
+} from '../utils/listeningModes';
+import {
+    TASK_SORTS,
+    TASK_STATUSES,
+    TaskFilter,
+    TaskSort,
+    TaskStatus,
+    TaskView,
+    collectLists,
+    collectTags,
+    emptyTaskFilter,
+    filterTasks,
+    sortTasks,
+    taskViewFilter
+} from '../utils/taskQueries';
 
-// Define our interfaces
-interface Task {
-    id: number;
-    content: string;
-    completed: boolean;
+// Commands that act on a single existing task, with what they need besides the task
+type TargetAction =
+    | { type: 'mark' | 'unmark' | 'delete' }
+    | { type: 'rename' | 'append' | 'change', value: string }
+    | { type: 'move', position: MovePosition | number };
+
+interface PendingChoice {
+    action: TargetAction;
+    spoken: string;
+    candidates: Task[];
+}
+
+// A command being run for the log, with everything it reported
+interface LoggedRun extends CommandRun {
+    messages: string[];
 }
 
+// A destructive command held back until the user says "yes"
+interface PendingConfirmation {
+    prompt: string;
+    run: () => void;
+}
+
+// Text fields and pickers keep their own keys: typing, native undo, Enter and Escape
+const isEditableTarget = (target: EventTarget | null): target is HTMLElement =>
+    target instanceof HTMLElement &&
+    (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+
+// The sync server setting accepts nothing (no syncing) or an http(s) URL
+const isSyncUrl = (value: unknown): value is string =>
+    typeof value === 'string' && (value === '' || /^https?:\/\/\S+$/i.test(value));
+
 const VoiceToDoApp: React.FC = () => {
-    const [tasks, setTasks] = useState<Task[]>([]);
-    const [listening, setListening] = useState<boolean>(false);
+    // Tasks are saved locally and shared with other open tabs
+    const [tasks, setTasks, tasksLoaded] = usePersistentTasks();
+    // All task changes go through updateTasks so they can be undone
+    const { updateTasks, getTasks, undo, redo, canUndo, canRedo } = useTaskHistory(tasks, setTasks);
+    // Optional syncing with a self-hosted server; see services/taskSync
+    const [syncUrl, setSyncUrl] = useStoredSetting<string>('syncUrl', '', isSyncUrl);
+    const [syncUrlDraft, setSyncUrlDraft] = useState<string>(syncUrl);
+    const syncStatus = useTaskSync(syncUrl, tasks, setTasks, tasksLoaded);
+    // A newer build waiting in the service worker; see services/serviceWorkerRegistration
+    const { updateAvailable, applyUpdate } = useAppUpdate();
+    const online = useOnlineStatus();
+    // Lifecycle of the recognizer; see services/recognitionSession
+    const [sessionState, setSessionState] = useState<SessionState>('idle');
+    const listening = isActiveSessionState(sessionState);
     const [transcript, setTranscript] = useState<string>('');
     const [editedTranscript, setEditedTranscript] = useState<string>('');
     const [feedback, setFeedback] = useState<string>('');
+    // Bumped with every message, so the live region announces a message again even if it is unchanged
+    const [announcementCount, setAnnouncementCount] = useState<number>(0);
     const [processingCommand, setProcessingCommand] = useState<boolean>(false);
     const [isEditing, setIsEditing] = useState<boolean>(false);
+    // Every reading the recognizer offered for the current utterance
+    const [alternatives, setAlternatives] = useState<SpeechRecognitionAlternative[]>([]);
+    // Close candidates waiting for the user to pick one ("Did you mean…?")
+    const [suggestions, setSuggestions] = useState<CommandCandidate[]>([]);
+    // Several tasks matched a mark/delete; waiting for "which one?" to be answered
+    const [pendingChoice, setPendingChoice] = useState<PendingChoice | null>(null);
+    const [pendingConfirmation, setPendingConfirmation] = useState<PendingConfirmation | null>(null);
+    // Which speech recognizer to use; null when the browser supports none of them
+    const [recognizerEngine, setRecognizerEngine] = useStoredSetting<RecognizerEngine | null>(
+        'recognizer',
+        getDefaultRecognizerEngine(),
+        (value): value is RecognizerEngine | null => isAvailableRecognizerEngine(value)
+    );
+
+    // Command phrases, recognition language and feedback strings for the chosen language
+    const [localeId, setLocaleId] = useStoredSetting<LocaleId>('locale', detectLocale(), isLocaleId);
+    // The user's own phrasings and macros, per language; see utils/customCommands
+    const [customCommandSettings, setCustomCommandSettings] = useStoredSetting<CustomCommandSettings>(
+        'customCommands',
+        {},
+        isCustomCommandSettings
+    );
+    const [showCustomCommands, setShowCustomCommands] = useState<boolean>(false);
+    const customCommands = customCommandSettings[localeId];
+    const basePack = getLocale(localeId);
+    const locale = withCustomCommands(basePack, customCommands);
+    const t = locale.messages;
+    // Without a usable recognizer the microphone is off; typed commands still work
+    const voiceUnavailable = !recognizerEngine || (!online && recognizerNeedsNetwork(recognizerEngine));
+    const [typedCommand, setTypedCommand] = useState<string>('');
+    // What was heard and how it went, for replaying commands and the recognition stats
+    const { entries: commandLog, addEntry: addLogEntry, clearLog } = useCommandLog();
+    const [showCommandLog, setShowCommandLog] = useState<boolean>(false);
+
+    const [taskSort, setTaskSort] = useStoredSetting<TaskSort>(
+        'taskSort',
+        'created',
+        (value): value is TaskSort => ['created', 'due', 'priority', 'content'].includes(value as string)
+    );
+    const [taskFilter, setTaskFilter] = useState<TaskFilter>(emptyTaskFilter);
+    // What the list shows; spoken positions ("task 3") refer to this order
+    const visibleTasks = sortTasks(filterTasks(tasks, taskFilter), taskSort);
+    // Same, but including changes made by earlier commands of the same utterance
+    const currentVisibleTasks = (): Task[] => sortTasks(filterTasks(getTasks(), taskFilter), taskSort);
+
+    // Spoken feedback; the verbosity decides which kinds of messages are read aloud
+    const [speechVerbosity, setSpeechVerbosity] = useStoredSetting<SpeechVerbosity>(
+        'speechVerbosity',
+        'answers',
+        (value): value is SpeechVerbosity => SPEECH_VERBOSITIES.includes(value as SpeechVerbosity)
+    );
+    const [speechVoice, setSpeechVoice] = useStoredSetting<string | null>(
+        'speechVoice',
+        null,
+        (value): value is string | null => value === null || typeof value === 'string'
+    );
+    const [speechRate, setSpeechRate] = useStoredSetting<number>(
+        'speechRate',
+        1,
+        (value): value is number => typeof value === 'number' && value >= 0.5 && value <= 2
+    );
+    const { say, speaking, voices, echoGuardRef, supported: speechSupported } = useSpeechFeedback({
+        verbosity: speechVerbosity,
+        voiceURI: speechVoice,
+        rate: speechRate,
+        lang: locale.recognitionLang
+    });
+
+    // Set while the commands of one utterance run, so their feedback can be reported together
+    const batchRef = useRef<{ messages: string[], awaitingAnswer: boolean } | null>(null);
+    // Set while a logged command runs; collects its intents and what it reported
+    const loggedRunRef = useRef<LoggedRun | null>(null);
+
+    // Shows a message in the status line and reads it aloud if the verbosity setting covers it
+    const report = (message: string, kind: FeedbackKind = 'result'): void => {
+        if (loggedRunRef.current && !batchRef.current && kind !== 'status') {
+            loggedRunRef.current.messages.push(message);
+        }
+        if (batchRef.current) {
+            if (kind !== 'status') {
+                batchRef.current.messages.push(message);
+            }
+            return;
+        }
+        setFeedback(message);
+        setAnnouncementCount(count => count + 1);
+        say(message, kind);
+    };
+
+    // Reports a command that was understood but couldn't be carried out, so the log counts it as failed
+    const reportFailure = (message: string): void => {
+        if (loggedRunRef.current) {
+            loggedRunRef.current.failed = true;
+        }
+        report(message);
+    };
+
+    // When a spoken command counts as finished; see utils/listeningModes
+    const [listeningMode, setListeningMode] = useStoredSetting<ListeningMode>('listeningMode', 'auto', isListeningMode);
 
     // Using any here because TypeScript doesn't have built-in types for Web Speech API
     const recognitionRef = useRef<SpeechRecognition | null>(null);
+    const sessionRef = useRef<RecognitionSession | null>(null);
+    // The recognizer's handlers outlive renders, so they read these refs instead of state
+    const listeningModeRef = useRef<ListeningMode>(listeningMode);
+    listeningModeRef.current = listeningMode;
+    // Results of the current session before this index have run already or were our own spoken feedback
+    const handledResultsRef = useRef<number>(0);
+    // What has been heard since the last command, waiting to be run
+    const utteranceRef = useRef<{ transcript: string, alternatives: SpeechRecognitionAlternative[], resultCount: number } | null>(null);
+    const silenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    // In wake-word mode, the wake word on its own lets the next utterance through until this time
+    const wakeArmedUntilRef = useRef<number>(0);
+    // Hidden file picker behind the import button
+    const importInputRef = useRef<HTMLInputElement | null>(null);
+    const commandInputRef = useRef<HTMLInputElement | null>(null);
+    const tasksHeadingRef = useRef<HTMLHeadingElement | null>(null);
+    // The task control that last had focus, to put focus back on the list when that control goes away
+    const lastFocusRef = useRef<{ element: HTMLElement, id: string, control: string, index: number } | null>(null);
+    // A control to focus after the next render, e.g. the handle of a task moved with the arrow keys
+    const pendingFocusRef = useRef<{ id: string, control: string } | null>(null);
 
     // Set up speech recognition grammars
     const setupSpeechGrammars = () => {
@@ -35,138 +277,282 @@ const VoiceToDoApp: React.FC = () => {
             const SpeechGrammarList = (window as any).SpeechGrammarList || (window as any).webkitSpeechGrammarList;
             const grammarList = new SpeechGrammarList();
 
-            // Define grammars using JSGF format
-            // Add task command grammar
-            const addTaskGrammar = '#JSGF V1.0; grammar add; public <add> = add task [<item>];';
-
-            // Mark as done command grammar
-            const markDoneGrammar = '#JSGF V1.0; grammar mark; public <mark> = mark [<item>] as done;';
-
-            // Delete task command grammar
-            const deleteTaskGrammar = '#JSGF V1.0; grammar delete; public <delete> = delete task [<item>];';
-
-            // Clear all tasks command grammar
-            const clearAllGrammar = '#JSGF V1.0; grammar clear; public <clear> = clear all tasks;';
-
-            // Add grammars to the list with weights (higher = more important)
-            grammarList.addFromString(addTaskGrammar, 1);
-            grammarList.addFromString(markDoneGrammar, 1);
-            grammarList.addFromString(deleteTaskGrammar, 1);
-            grammarList.addFromString(clearAllGrammar, 1);
+            // Add the current language's JSGF grammars with weights (higher = more important)
+            locale.grammars.forEach(grammar => grammarList.addFromString(grammar, 1));
 
             // Apply grammar list to the recognition object
             recognitionRef.current.grammars = grammarList;
 
-            setFeedback('Voice command grammars initialized');
+            report(t.grammarsReady, 'status');
         } catch (error) {
             console.error('Error setting up speech grammars:', error);
-            setFeedback('Grammar support not available in this browser');
+            report(t.grammarsUnavailable, 'status');
+        }
+    };
+
+    // Latest handlers for the recognizer and its session, so they use the current language pack,
+    // custom commands and settings; the recognizer itself is only rebuilt when the engine or language changes
+    const recognizerHandlers = {
+        setupFailed: (error: unknown) => {
+            console.error('Error creating speech recognizer:', error);
+            report(t.recognizerSetupFailed(error instanceof Error ? error.message : String(error)), 'status');
+        },
+        unsupported: () => report(t.notSupported, 'status'),
+        setupGrammars: () => setupSpeechGrammars(),
+        clearSilenceTimer: () => clearSilenceTimer(),
+        // Losing the connection stops a recognizer that needs one, instead of letting it retry until it gives up
+        wentOffline: () => {
+            if (sessionRef.current?.active) {
+                cancelListening();
+            }
+            report(t.offlineTypeInstead, 'status');
+        },
+
+        onStart: () => {
+            handledResultsRef.current = 0;
+            clearInputs();
+            report(listeningModeRef.current === 'wakeword' ? t.waitingForWakeWord(locale.wakeWords[0]) : t.listening, 'status');
+        },
+
+        onResult: (event: SpeechRecognitionEvent) => {
+            if (echoGuardRef.current) {
+                // The microphone picked up the app's own voice; never treat that as a command
+                handledResultsRef.current = event.results.length;
+                return;
+            }
+            const results = Array.from(event.results).slice(handledResultsRef.current);
+            if (results.length === 0) {
+                return;
+            }
+            // Clear previous results before setting new ones
+            const currentTranscript = results
+                .map(result => result[0].transcript)
+                .join('');
+
+            // Only set transcripts if we're actually recognizing new speech
+            if (currentTranscript.trim()) {
+                setTranscript(currentTranscript);
+                setEditedTranscript(currentTranscript);
+                setProcessingCommand(true);
+
+                // Earlier results are settled, so only the latest one varies between alternatives
+                const prefix = results.slice(0, -1).map(result => result[0].transcript).join('');
+                const heard = Array.from(results[results.length - 1]).map(alternative => ({
+                    transcript: prefix + alternative.transcript,
+                    confidence: alternative.confidence
+                }));
+                setAlternatives(heard);
+                utteranceRef.current = { transcript: currentTranscript, alternatives: heard, resultCount: event.results.length };
+
+                // Auto and wake-word modes run a command once it is final, or after a pause in speech.
+                // Push-to-talk waits for the key to be released, so pauses while holding it are fine.
+                clearSilenceTimer();
+                const mode = listeningModeRef.current;
+                if (mode === 'auto' || mode === 'wakeword') {
+                    if (results[results.length - 1].isFinal) {
+                        finalizeUtteranceRef.current();
+                    } else {
+                        silenceTimerRef.current = setTimeout(() => finalizeUtteranceRef.current(), SILENCE_TIMEOUT_MS);
+                    }
+                }
+            }
+        },
+
+        onError: ({ error, retryIn }: SessionFailure) => {
+            console.error('Speech recognition error', error);
+            discardUtterance();
+            clearInputs();
+            if (error === 'not-allowed' || error === 'service-not-allowed') {
+                report(t.microphoneBlocked, 'status');
+            } else if (error === 'audio-capture') {
+                report(t.noMicrophone, 'status');
+            } else if (error === 'language-not-supported') {
+                report(t.languageNotSupported, 'status');
+            } else if (retryIn === null) {
+                report(t.recognitionGaveUp(error), 'status');
+            } else if (error !== 'no-speech') {
+                // Silence is retried quietly; it's the normal state between commands
+                report(t.recognitionRetrying(error, Math.ceil(retryIn / 1000)), 'status');
+            }
+        },
+
+        // Whatever was said before recognition stopped (e.g. push-to-talk released) runs now
+        onEnd: () => {
+            if (listeningModeRef.current !== 'manual') {
+                finalizeUtteranceRef.current();
+            }
         }
     };
+    const recognizerHandlersRef = useRef(recognizerHandlers);
+    recognizerHandlersRef.current = recognizerHandlers;
 
     useEffect(() => {
-        // Initialize speech recognition
-        if ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window) {
-            const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-            if (SpeechRecognition) {
-                recognitionRef.current = new SpeechRecognition();
+        // Initialize speech recognition with the selected engine
+        if (recognizerEngine) {
+            let recognition: SpeechRecognition | null = null;
+            try {
+                recognition = createRecognizer(recognizerEngine);
+            } catch (error) {
+                recognizerHandlersRef.current.setupFailed(error);
+            }
+            if (recognition) {
+                recognitionRef.current = recognition;
                 recognitionRef.current.continuous = true;
                 recognitionRef.current.interimResults = true;
-                recognitionRef.current.lang = 'en-US'; // Set language to English
+                recognitionRef.current.lang = getLocale(localeId).recognitionLang;
                 recognitionRef.current.maxAlternatives = 3; // Get multiple alternatives for better matching
 
                 // Set up speech grammars
-                setupSpeechGrammars();
-
-                recognitionRef.current.onresult = (event: SpeechRecognitionEvent) => {
-                    // Clear previous results before setting new ones
-                    const currentTranscript = Array.from(event.results)
-                        .map(result => result[0].transcript)
-                        .join('');
-
-                    // Only set transcripts if we're actually recognizing new speech
-                    if (currentTranscript.trim()) {
-                        setTranscript(currentTranscript);
-                        setEditedTranscript(currentTranscript);
-                        setProcessingCommand(true);
-
-                        // Display alternatives if available for debugging
-                        if (event.results[event.results.length - 1].length > 1) {
-                            const alternatives = Array.from(event.results[event.results.length - 1])
-                                .map((result, index) => `${index + 1}: ${result.transcript} (${result.confidence.toFixed(2)})`)
-                                .join(', ');
-                            console.log('Alternatives:', alternatives);
-                        }
-                    }
-                };
-
-                recognitionRef.current.onerror = (event: SpeechRecognitionErrorEvent) => {
-                    console.error('Speech recognition error', event.error);
-                    setFeedback(`Error: ${event.error}`);
-                    setProcessingCommand(false);
-                    clearInputs();
-                };
-
-                recognitionRef.current.onend = () => {
-                    if (listening) {
-                        // If we're supposed to be listening but recognition ended, restart it
-                        try {
-                            recognitionRef.current?.start();
-                        } catch (error) {
-                            console.error('Error restarting speech recognition:', error);
-                            setListening(false);
-                            setFeedback('Speech recognition stopped unexpectedly');
-                        }
-                    }
-                };
+                recognizerHandlersRef.current.setupGrammars();
 
-                // Add onstart handler to clear previous inputs
-                recognitionRef.current.onstart = () => {
-                    clearInputs();
-                    setFeedback('Listening... (Language: English)');
-                };
+                // The session restarts the recognizer when the browser ends it, and retries after errors
+                sessionRef.current = new RecognitionSession(recognition, {
+                    onStateChange: setSessionState,
+                    onStart: () => recognizerHandlersRef.current.onStart(),
+                    onResult: event => recognizerHandlersRef.current.onResult(event),
+                    onError: failure => recognizerHandlersRef.current.onError(failure),
+                    onEnd: () => recognizerHandlersRef.current.onEnd()
+                });
             }
         } else {
-            setFeedback('Speech recognition not supported in this browser');
+            recognizerHandlersRef.current.unsupported();
         }
 
         return () => {
-            if (recognitionRef.current) {
-                recognitionRef.current.stop();
-            }
+            recognizerHandlersRef.current.clearSilenceTimer();
+            sessionRef.current?.dispose();
+            sessionRef.current = null;
         };
-    }, [listening]);
+    }, [recognizerEngine, localeId]);
 
     // Helper function to clear input fields
     const clearInputs = (): void => {
+        sessionRef.current?.finishUtterance();
         setTranscript('');
         setEditedTranscript('');
         setIsEditing(false);
         setProcessingCommand(false);
+        setAlternatives([]);
     };
 
-    const toggleListening = (): void => {
-        if (!recognitionRef.current) {
-            setFeedback('Speech recognition not initialized');
+    const clearSilenceTimer = (): void => {
+        if (silenceTimerRef.current) {
+            clearTimeout(silenceTimerRef.current);
+            silenceTimerRef.current = null;
+        }
+    };
+
+    const discardUtterance = (): void => {
+        clearSilenceTimer();
+        utteranceRef.current = null;
+    };
+
+    const startListening = (): void => {
+        if (recognizerEngine && voiceUnavailable) {
+            report(t.offlineTypeInstead, 'status');
+            return;
+        }
+        if (!sessionRef.current) {
+            report(t.notInitialized, 'status');
             return;
         }
+        // Clear inputs before starting new listening session
+        clearInputs();
+        discardUtterance();
+        sessionRef.current.start();
+    };
 
+    // Stops without running what was heard, unlike releasing push-to-talk
+    const cancelListening = (): void => {
+        discardUtterance();
+        sessionRef.current?.abort();
+        clearInputs();
+    };
+
+    const toggleListening = (): void => {
         if (listening) {
-            recognitionRef.current.stop();
-            setListening(false);
-            setFeedback('Listening stopped');
-            clearInputs();
+            cancelListening();
+            report(t.listeningStopped, 'status');
         } else {
-            try {
-                // Clear inputs before starting new listening session
-                clearInputs();
-                recognitionRef.current.start();
-                setListening(true);
-            } catch (error) {
-                console.error('Speech recognition error:', error);
-                setFeedback(`Couldn't start listening: ${error instanceof Error ? error.message : String(error)}`);
+            startListening();
+        }
+    };
+
+    const pushToTalkPressed = (): void => {
+        if (!sessionRef.current?.active) {
+            startListening();
+        }
+    };
+
+    const pushToTalkReleased = (): void => {
+        if (sessionRef.current?.active) {
+            // The last result and the end event follow; onEnd runs the command
+            sessionRef.current.stop();
+        }
+    };
+
+    // Runs the utterance heard so far; used by every mode except manual
+    const finalizeUtterance = (): void => {
+        clearSilenceTimer();
+        const utterance = utteranceRef.current;
+        if (!utterance) {
+            return;
+        }
+        utteranceRef.current = null;
+        handledResultsRef.current = Math.max(handledResultsRef.current, utterance.resultCount);
+        clearInputs();
+
+        let heard = utterance.alternatives;
+        if (listeningMode === 'wakeword') {
+            const woken = afterWakeWord(heard, locale.wakeWords);
+            if (woken) {
+                heard = woken.filter(alternative => alternative.transcript);
+                if (heard.length === 0) {
+                    // Just the wake word; the command follows in the next utterance
+                    wakeArmedUntilRef.current = Date.now() + WAKE_WINDOW_MS;
+                    report(t.wakeWordHeard);
+                    return;
+                }
+            } else if (Date.now() > wakeArmedUntilRef.current) {
+                // Speech without the wake word isn't meant for us
+                return;
             }
+            wakeArmedUntilRef.current = 0;
+        }
+        runCommand(heard[0].transcript, heard, 'voice');
+    };
+
+    // Latest finalizer for the recognizer's handlers and the silence timer
+    const finalizeUtteranceRef = useRef(finalizeUtterance);
+    finalizeUtteranceRef.current = finalizeUtterance;
+
+    const changeListeningMode = (mode: ListeningMode): void => {
+        if (listening) {
+            cancelListening();
+        }
+        setListeningMode(mode);
+        if (mode === 'pushtotalk') {
+            report(t.listeningModeHint('pushtotalk', locale.wakeWords[0]), 'status');
+        }
+    };
+
+    const changeRecognizer = (engine: RecognizerEngine): void => {
+        if (listening) {
+            cancelListening();
         }
+        setRecognizerEngine(engine);
+        report(t.recognizerChanged, 'status');
+    };
+
+    const changeLocale = (id: LocaleId): void => {
+        if (listening) {
+            cancelListening();
+        }
+        setPendingChoice(null);
+        setPendingConfirmation(null);
+        setSuggestions([]);
+        setLocaleId(id);
+        report(getLocale(id).messages.languageChanged, 'status');
     };
 
     const toggleEditing = (): void => {
@@ -179,173 +565,713 @@ const VoiceToDoApp: React.FC = () => {
 
     const finishCurrentCommand = (): void => {
         if (processingCommand && editedTranscript.trim()) {
-            processVoiceCommand(editedTranscript);
+            // A hand-edited transcript is taken as-is; otherwise weigh every recognition alternative
+            const edited = editedTranscript !== transcript || alternatives.length === 0;
+            const command = editedTranscript;
+            const heard = alternatives;
+
+            // Later results of this session start a new command
+            handledResultsRef.current = Math.max(handledResultsRef.current, utteranceRef.current?.resultCount ?? 0);
             // Make sure to clear inputs immediately after processing
             clearInputs();
-            setFeedback('Command processed');
+            discardUtterance();
+            runCommand(command, edited ? [] : heard, edited ? 'edited' : 'voice');
+        } else {
+            report(t.noCommand, 'status');
+        }
+    };
+
+    // Runs one utterance and adds it to the command log
+    const runCommand = (command: string, heard: SpeechRecognitionAlternative[], source: CommandSource): void => {
+        const run: LoggedRun = { intents: [], failed: false, asked: false, messages: [] };
+        loggedRunRef.current = run;
+        try {
+            interpretCommand(command, heard);
+        } finally {
+            loggedRunRef.current = null;
+        }
+        addLogEntry({
+            time: Date.now(),
+            locale: localeId,
+            source,
+            transcript: command,
+            alternatives: heard.map(({ transcript, confidence }) => ({ transcript, confidence })),
+            confidence: heard[0]?.confidence ?? null,
+            intents: run.intents,
+            outcome: commandOutcome(run),
+            result: run.messages.join(' ')
+        });
+    };
+
+    // The answer to a pending "which one?", or the best reading of the alternatives
+    const interpretCommand = (command: string, heard: SpeechRecognitionAlternative[]): void => {
+        // A new command replaces a "Did you mean…?" that wasn't answered
+        setSuggestions([]);
+        if (pendingChoice) {
+            answerPendingChoice(command);
+            return;
+        }
+
+        const commands = splitCommands(heard[0]?.transcript ?? command, locale);
+        if (commands.length > 1) {
+            runCommandSequence(commands);
+            return;
+        }
+
+        const candidates = rankCandidates(heard, visibleTasks, locale);
+        const closeCandidates = ambiguousCandidates(candidates);
+        if (closeCandidates.length > 0) {
+            setSuggestions(closeCandidates);
+            noteQuestion();
+            report(t.didYouMean);
+        } else if (candidates.length > 0) {
+            report(t.commandProcessed, 'status');
+            executeIntent(candidates[0].intent);
         } else {
-            setFeedback('No command to process');
+            report(t.commandProcessed, 'status');
+            processVoiceCommand(command);
         }
     };
 
+    // Runs the commands of one utterance or macro in order and reports what they did in one message
+    const runCommandSequence = (commands: string[], language: LocalePack = locale): void => {
+        // A macro said as part of a longer utterance reports along with the rest of it
+        const outer = batchRef.current;
+        const batch = outer || { messages: [] as string[], awaitingAnswer: false };
+        let run = 0;
+        batchRef.current = batch;
+        try {
+            while (run < commands.length && !batch.awaitingAnswer) {
+                executeIntent(parseIntent(commands[run], language));
+                run++;
+            }
+        } finally {
+            batchRef.current = outer;
+        }
+        if (!outer) {
+            report(t.commandSummary(batch.messages, commands.length - run));
+        }
+    };
+
+    // A question ends a command sequence; later commands shouldn't run before it is answered
+    const awaitAnswer = (): void => {
+        if (batchRef.current) {
+            batchRef.current.awaitingAnswer = true;
+        }
+        noteQuestion();
+    };
+
+    const noteQuestion = (): void => {
+        if (loggedRunRef.current) {
+            loggedRunRef.current.asked = true;
+        }
+    };
+
+    const noteIntent = (type: IntentType): void => {
+        loggedRunRef.current?.intents.push(type);
+    };
+
     const cancelCurrentCommand = (): void => {
         clearInputs();
-        setFeedback('Command cancelled');
-    };
-
-    // Helper function to find the best match for a command pattern
-    const findBestCommandMatch = (input: string): { command: string, content: string } => {
-        const lowerInput = input.toLowerCase().trim();
-
-        // Command patterns with their regex patterns
-        const commandPatterns = [
-            {
-                name: 'add',
-                pattern: /add\s+task\s+(.+)/i,
-                altPatterns: [/add\s+(.+)/i, /create\s+task\s+(.+)/i, /new\s+task\s+(.+)/i]
-            },
-            {
-                name: 'mark',
-                pattern: /mark\s+(.+)\s+as\s+done/i,
-                altPatterns: [/complete\s+(.+)/i, /finish\s+(.+)/i, /check\s+off\s+(.+)/i]
-            },
-            {
-                name: 'delete',
-                pattern: /delete\s+task\s+(.+)/i,
-                altPatterns: [/remove\s+task\s+(.+)/i, /delete\s+(.+)/i, /remove\s+(.+)/i]
-            },
-            {
-                name: 'clear',
-                pattern: /clear\s+all\s+tasks/i,
-                altPatterns: [/clear\s+tasks/i, /delete\s+all\s+tasks/i, /remove\s+all\s+tasks/i]
-            }
-        ];
+        setSuggestions([]);
+        report(t.commandCancelled);
+    };
 
-        // Try to find a match with the main patterns
-        for (const cmd of commandPatterns) {
-            const match = lowerInput.match(cmd.pattern);
-            if (match) {
-                return { command: cmd.name, content: match[1] || '' };
-            }
+    // Handles the reply to "which one?": a number picks a task, anything else is run as a new command
+    const answerPendingChoice = (answer: string): void => {
+        if (!pendingChoice) {
+            return;
+        }
 
-            // If main pattern doesn't match, try alternative patterns
-            for (const altPattern of cmd.altPatterns) {
-                const altMatch = lowerInput.match(altPattern);
-                if (altMatch) {
-                    return { command: cmd.name, content: altMatch[1] || '' };
-                }
-            }
+        const index = parseChoice(answer, pendingChoice.candidates.length, locale);
+        setPendingChoice(null);
+        if (index !== null) {
+            noteIntent(pendingChoice.action.type);
+            applyToTask(pendingChoice.action, pendingChoice.candidates[index]);
+        } else if (parseIntent(answer, locale).type === 'cancel') {
+            noteIntent('cancel');
+            report(t.commandCancelled);
+        } else {
+            processVoiceCommand(answer);
+        }
+    };
+
+    const chooseTask = (task: Task): void => {
+        if (pendingChoice) {
+            setPendingChoice(null);
+            applyToTask(pendingChoice.action, task);
         }
+    };
 
-        // If no match found, return the original input as "unknown" command
-        return { command: 'unknown', content: lowerInput };
+    const chooseSuggestion = (candidate: CommandCandidate): void => {
+        setSuggestions([]);
+        executeIntent(candidate.intent);
     };
 
     const processVoiceCommand = (command: string): void => {
-        const { command: cmdType, content } = findBestCommandMatch(command);
+        const commands = splitCommands(command, locale);
+        if (commands.length > 1) {
+            runCommandSequence(commands);
+        } else {
+            executeIntent(parseIntent(command, locale));
+        }
+    };
+
+    const executeIntent = (intent: Intent): void => {
+        const { type, slots: { content, value, view, position, format, list } } = intent;
+        noteIntent(type);
 
-        switch (cmdType) {
+        // While a destructive command waits for confirmation, only "yes" runs it
+        if (pendingConfirmation) {
+            if (type === 'confirm') {
+                answerConfirmation(true);
+                return;
+            }
+            answerConfirmation(false);
+            if (type === 'cancel') {
+                return;
+            }
+        }
+
+        switch (type) {
             case 'add':
                 if (content) {
-                    addTask(content);
-                    setFeedback(`Added task: "${content}"`);
+                    const added = addTasks(content, list);
+                    report(added.length === 1 ? t.added(added[0]) : t.addedItems(added));
                 } else {
-                    setFeedback('No task content specified');
+                    reportFailure(t.noAddContent);
                 }
                 break;
 
             case 'mark':
+            case 'unmark':
                 if (content) {
-                    markTaskAsDone(content);
+                    targetTask({ type }, content);
                 } else {
-                    setFeedback('No task specified to mark as done');
+                    reportFailure(t.noMarkTarget);
                 }
                 break;
 
             case 'delete':
                 if (content) {
-                    deleteTask(content);
+                    targetTask({ type: 'delete' }, content);
+                } else {
+                    reportFailure(t.noDeleteTarget);
+                }
+                break;
+
+            case 'rename':
+            case 'append':
+            case 'change':
+                if (content && value) {
+                    targetTask({ type, value }, content);
+                } else {
+                    reportFailure(t.unrecognized(intent.transcript));
+                }
+                break;
+
+            case 'move': {
+                const to = position ?? (value ? parsePosition(value, locale, true) : null);
+                if (content && to !== null) {
+                    targetTask({ type: 'move', position: to }, content);
+                } else {
+                    reportFailure(t.noMoveTarget);
+                }
+                break;
+            }
+
+            case 'clear': {
+                const count = getTasks().length;
+                if (count === 0) {
+                    report(t.nothingToClear);
+                    break;
+                }
+                setPendingConfirmation({
+                    prompt: t.confirmClearPrompt(count),
+                    run: clearAllTasks
+                });
+                awaitAnswer();
+                report(t.confirmClear(count));
+                break;
+            }
+
+            case 'undo':
+                handleUndo();
+                break;
+
+            case 'redo':
+                handleRedo();
+                break;
+
+            case 'show':
+                showView(view || 'all', content);
+                break;
+
+            case 'read': {
+                const listed = currentVisibleTasks();
+                report(listed.length > 0 ? t.readTasks(listed) : t.nothingToRead, 'answer');
+                break;
+            }
+
+            case 'count': {
+                const all = getTasks();
+                report(t.tasksLeft(all.filter(task => !task.completed).length, all.length), 'answer');
+                break;
+            }
+
+            case 'export':
+                exportTaskFile(format || 'json');
+                break;
+
+            case 'macro': {
+                const macro = findMacro(customCommands, content || '');
+                if (macro) {
+                    runCommandSequence(macro.commands, macroCommandLanguage(basePack, customCommands));
                 } else {
-                    setFeedback('No task specified to delete');
+                    reportFailure(t.unrecognized(intent.transcript));
                 }
                 break;
+            }
 
-            case 'clear':
-                setTasks([]);
-                setFeedback('All tasks cleared');
+            case 'confirm':
+            case 'cancel':
+                reportFailure(t.nothingToConfirm);
                 break;
 
             default:
-                setFeedback(`Didn't recognize command: "${command}"`);
+                reportFailure(t.unrecognized(intent.transcript));
                 break;
         }
     };
 
-    const addTask = (content: string): void => {
-        setTasks(prevTasks => [
+    const showView = (view: TaskView, spokenTag?: string): void => {
+        let tag = spokenTag;
+        if (view === 'tag') {
+            // Tags are stored lowercase and without the "#"
+            tag = (spokenTag || '').toLowerCase().replace(/^#/, '');
+            if (!collectTags(tasks).includes(tag)) {
+                reportFailure(t.unknownTag(tag));
+                return;
+            }
+        }
+        setTaskFilter(taskViewFilter(view, tag));
+        report(t.showing(view, tag));
+    };
+
+    // Adds one task, or one per item of a spoken list ("milk, eggs and bread"), all with the
+    // spoken details ("tomorrow", "high priority"...). Returns the task texts without the details.
+    const addTasks = (spoken: string, list = false): string[] => {
+        const parsed = parseTaskText(spoken, locale);
+        // If everything was taken as a detail, keep the whole phrase as the task instead
+        const { content, ...details } = parsed.content ? parsed : { ...parsed, content: spoken };
+        const items = splitListItems(content, locale, list);
+        updateTasks(prevTasks => [
             ...prevTasks,
-            { id: Date.now(), content, completed: false }
-        ]);
+            ...items.map(item => ({ id: createTaskId(), content: item, completed: false, ...details, tags: [...details.tags] }))
+        ], t.historyAdd(items.join(', ')));
+        return items;
     };
 
-    const markTaskAsDone = (taskContent: string): void => {
-        let found = false;
-        setTasks(prevTasks =>
-            prevTasks.map(task => {
-                if (task.content.toLowerCase().includes(taskContent.toLowerCase())) {
-                    found = true;
-                    return { ...task, completed: true };
-                }
-                return task;
-            })
-        );
+    const exportTaskFile = (format: TaskFileFormat): void => {
+        const all = getTasks();
+        if (all.length === 0) {
+            report(t.nothingToExport);
+            return;
+        }
+        downloadTextFile(taskFileName(format), exportTasks(all, format), TASK_FILE_FORMATS[format].mimeType);
+        report(t.exported(all.length, format));
+    };
 
-        if (found) {
-            setFeedback(`Marked tasks containing "${taskContent}" as done`);
-        } else {
-            setFeedback(`No tasks found matching "${taskContent}"`);
+    const importTaskFile = async (file: File): Promise<void> => {
+        try {
+            const text = await file.text();
+            const format = detectTaskFileFormat(file.name, text);
+            if (!format) {
+                report(t.unknownFileFormat(file.name));
+                return;
+            }
+            const result = mergeImportedTasks(getTasks(), importTasks(text, format));
+            updateTasks(() => result.tasks, t.historyImport(result.added));
+            report(t.imported(result.added, result.duplicates));
+        } catch (error) {
+            report(t.importFailed(error instanceof Error ? error.message : String(error)));
         }
     };
 
-    const deleteTask = (taskContent: string): void => {
-        const initialLength = tasks.length;
-        setTasks(prevTasks =>
-            prevTasks.filter(task => {
-                return !task.content.toLowerCase().includes(taskContent.toLowerCase());
-            })
-        );
+    const handleImportFileChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+        const file = e.target.files?.[0];
+        // Allow importing the same file again
+        e.target.value = '';
+        if (file) {
+            importTaskFile(file);
+        }
+    };
+
+    // The sync server field takes effect when it loses focus or on Enter, not on every keystroke
+    const applySyncUrlDraft = (): void => {
+        const url = syncUrlDraft.trim();
+        if (isSyncUrl(url) && url !== syncUrl) {
+            setSyncUrl(url);
+        }
+    };
 
-        if (tasks.length !== initialLength) {
-            setFeedback(`Deleted task containing "${taskContent}"`);
+    const clearAllTasks = (): void => {
+        updateTasks(() => [], t.historyClear);
+        report(t.cleared);
+    };
+
+    const answerConfirmation = (confirmed: boolean): void => {
+        if (!pendingConfirmation) {
+            return;
+        }
+        setPendingConfirmation(null);
+        if (confirmed) {
+            pendingConfirmation.run();
         } else {
-            setFeedback(`No task found matching "${taskContent}"`);
+            report(t.commandCancelled);
+        }
+    };
+
+    const handleUndo = (): void => {
+        const label = undo();
+        report(label ? t.undone(label) : t.nothingToUndo);
+    };
+
+    const handleRedo = (): void => {
+        const label = redo();
+        report(label ? t.redone(label) : t.nothingToRedo);
+    };
+
+    const applyToTask = (action: TargetAction, task: Task): void => {
+        switch (action.type) {
+            case 'mark':
+            case 'unmark': {
+                const completed = action.type === 'mark';
+                replaceTask({ ...task, completed }, t.historyMark(task.content, completed));
+                report(completed ? t.marked(task.content) : t.unmarked(task.content));
+                break;
+            }
+
+            case 'delete':
+                updateTasks(prevTasks => prevTasks.filter(item => item.id !== task.id), t.historyDelete(task.content));
+                report(t.deleted(task.content));
+                break;
+
+            case 'rename':
+                replaceTask({ ...task, content: action.value }, t.historyEdit(task.content));
+                report(t.renamed(task.content, action.value));
+                break;
+
+            case 'append': {
+                const content = `${task.content} ${action.value}`;
+                replaceTask({ ...task, content }, t.historyEdit(task.content));
+                report(t.updated(content));
+                break;
+            }
+
+            case 'change': {
+                const changed = changeTask(task, action.value, locale);
+                replaceTask(changed, t.historyEdit(task.content));
+                report(t.updated(changed.content));
+                break;
+            }
+
+            case 'move':
+                moveTaskTo(task, action.position);
+                break;
+        }
+    };
+
+    // Replaces a task with an edited copy; the task may have changed since it was targeted
+    const replaceTask = (edited: Task, label: string): void => {
+        updateTasks(prevTasks => prevTasks.map(item => (item.id === edited.id ? edited : item)), label);
+    };
+
+    // Positions count in the list's own order, so switch to it if the list is sorted otherwise
+    const moveTaskTo = (task: Task, position: MovePosition | number): void => {
+        setTaskSort('created');
+        const shown = filterTasks(getTasks(), taskFilter);
+        const toIndex = moveIndex(position, shown.findIndex(item => item.id === task.id), shown.length);
+        updateTasks(prevTasks => moveTask(prevTasks, task.id, shown, toIndex), t.historyMove(task.content));
+        report(t.moved(task.content, toIndex + 1));
+    };
+
+    // Acts on the one task the spoken text clearly refers to, or asks which one was meant
+    const targetTask = (action: TargetAction, spoken: string): void => {
+        const target = resolveTaskTarget(spoken, currentVisibleTasks(), locale);
+
+        switch (target.kind) {
+            case 'match':
+                applyToTask(action, target.task);
+                break;
+
+            case 'ambiguous':
+                setPendingChoice({ action, spoken, candidates: target.candidates });
+                awaitAnswer();
+                report(t.whichOne(target.candidates.map(task => task.content)));
+                break;
+
+            default:
+                reportFailure(t.noMatch(spoken));
+                break;
+        }
+    };
+
+    const handleManualDelete = (task: Task): void => {
+        updateTasks(prevTasks => prevTasks.filter(item => item.id !== task.id), t.historyDelete(task.content));
+    };
+
+    const handleManualEdit = (task: Task, content: string): void => {
+        if (content && content !== task.content) {
+            replaceTask({ ...task, content }, t.historyEdit(task.content));
         }
     };
 
-    const handleManualDelete = (id: number): void => {
-        setTasks(prevTasks => prevTasks.filter(task => task.id !== id));
+    // Dropping a task on another one puts it in that task's place
+    const handleManualMove = (draggedId: string, target: Task): void => {
+        const dragged = visibleTasks.find(task => task.id === draggedId);
+        if (dragged) {
+            updateTasks(
+                prevTasks => moveTask(prevTasks, draggedId, visibleTasks, visibleTasks.indexOf(target)),
+                t.historyMove(dragged.content)
+            );
+        }
     };
 
-    const handleManualToggle = (id: number): void => {
-        setTasks(prevTasks =>
-            prevTasks.map(task =>
-                task.id === id ? { ...task, completed: !task.completed } : task
-            )
+    const handleManualToggle = (task: Task): void => {
+        updateTasks(prevTasks =>
+            prevTasks.map(item =>
+                item.id === task.id ? { ...item, completed: !item.completed } : item
+            ),
+            t.historyMark(task.content, !task.completed)
         );
     };
 
+    // Custom phrases change the grammars; the recognizer uses them from its next start.
+    // A language change rebuilds the recognizer, which sets up its grammars itself.
+    const grammarsKey = locale.grammars.join('\n');
+    const grammarsRef = useRef({ localeId, grammarsKey });
+    useEffect(() => {
+        const previous = grammarsRef.current;
+        grammarsRef.current = { localeId, grammarsKey };
+        if (previous.localeId === localeId && previous.grammarsKey !== grammarsKey) {
+            recognizerHandlersRef.current.setupGrammars();
+        }
+    }, [localeId, grammarsKey]);
+
+    useEffect(() => {
+        if (!online && recognizerEngine && recognizerNeedsNetwork(recognizerEngine)) {
+            recognizerHandlersRef.current.wentOffline();
+        }
+    }, [online, recognizerEngine]);
+
+    const handleTypedCommand = (e: React.FormEvent<HTMLFormElement>): void => {
+        e.preventDefault();
+        const command = typedCommand.trim();
+        if (!command) {
+            report(t.noCommand, 'status');
+            return;
+        }
+        setTypedCommand('');
+        // Typed text is taken as-is, like a hand-edited transcript
+        runCommand(command, [], 'typed');
+    };
+
+    // Runs a logged command again with the alternatives heard back then, e.g. after adding a phrasing for it.
+    // Commands said in another language wouldn't parse, so the log only offers this for the current one.
+    const replayCommand = (entry: CommandLogEntry): void => {
+        if (entry.locale === localeId) {
+            runCommand(entry.transcript, entry.alternatives, 'replay');
+        }
+    };
+
+    // A misheard command goes into the command field to be corrected and run
+    const fixCommand = (entry: CommandLogEntry): void => {
+        setTypedCommand(entry.transcript);
+        commandInputRef.current?.focus();
+    };
+
+    // Escape: drops whatever waits for an answer or for the run button
+    const cancelPending = (): void => {
+        if (pendingConfirmation) {
+            answerConfirmation(false);
+        } else if (pendingChoice || suggestions.length > 0 || processingCommand) {
+            setPendingChoice(null);
+            cancelCurrentCommand();
+        }
+    };
+
+    // Latest handlers for the global keyboard shortcuts, so the listener is only registered once
+    const shortcutHandlers = {
+        undo: handleUndo,
+        redo: handleRedo,
+        toggleListening,
+        runCommand: finishCurrentCommand,
+        focusCommandInput: () => commandInputRef.current?.focus(),
+        cancel: cancelPending
+    };
+    const shortcutHandlersRef = useRef(shortcutHandlers);
+    shortcutHandlersRef.current = shortcutHandlers;
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (isEditableTarget(event.target)) {
+                return;
+            }
+            // Alt+M and Alt+T go by the key's position, since Alt changes the typed character on some layouts
+            if (event.altKey && !event.ctrlKey && !event.metaKey && (event.code === 'KeyM' || event.code === 'KeyT')) {
+                event.preventDefault();
+                if (event.code === 'KeyM') {
+                    shortcutHandlersRef.current.toggleListening();
+                } else {
+                    shortcutHandlersRef.current.focusCommandInput();
+                }
+                return;
+            }
+            if ((event.ctrlKey || event.metaKey) && event.key === 'Enter') {
+                event.preventDefault();
+                shortcutHandlersRef.current.runCommand();
+                return;
+            }
+            if (event.key === 'Escape') {
+                shortcutHandlersRef.current.cancel();
+                return;
+            }
+            if (!(event.ctrlKey || event.metaKey)) {
+                return;
+            }
+
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                shortcutHandlersRef.current.undo();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                shortcutHandlersRef.current.redo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    // Keeps keyboard focus in the task list when the focused task is deleted, or its edit field
+    // closes: focus goes to the same task if it is still shown, else to the one now in its place
+    useEffect(() => {
+        const focusControl = (id: string, control: string): boolean => {
+            const row = document.querySelector(`[data-task-id="${id}"]`);
+            const element = row?.querySelector<HTMLElement>(`[data-task-control="${control}"]`) ||
+                row?.querySelector<HTMLElement>('[data-task-control]');
+            element?.focus();
+            return !!element;
+        };
+
+        const pending = pendingFocusRef.current;
+        if (pending) {
+            pendingFocusRef.current = null;
+            focusControl(pending.id, pending.control);
+            return;
+        }
+        const last = lastFocusRef.current;
+        const active = document.activeElement;
+        if (!last || last.element.isConnected || (active && active !== document.body)) {
+            return;
+        }
+        lastFocusRef.current = null;
+        const neighbour = visibleTasks[Math.min(last.index, visibleTasks.length - 1)];
+        if (!focusControl(last.id, last.control) && !(neighbour && focusControl(neighbour.id, 'toggle'))) {
+            tasksHeadingRef.current?.focus();
+        }
+    });
+
+    const handleTaskListFocus = (e: React.FocusEvent<HTMLUListElement>): void => {
+        const element = e.target as HTMLElement;
+        const id = element.closest('[data-task-id]')?.getAttribute('data-task-id');
+        const control = element.getAttribute('data-task-control');
+        if (id && control) {
+            lastFocusRef.current = { element, id, control, index: visibleTasks.findIndex(task => task.id === id) };
+        }
+    };
+
+    // Arrow keys on a task's move handle; the handle keeps focus as the task moves
+    const handleMoveStep = (task: Task, direction: 'up' | 'down'): void => {
+        pendingFocusRef.current = { id: task.id, control: 'move' };
+        moveTaskTo(task, direction);
+    };
+
+    const pushToTalkRef = useRef({ press: pushToTalkPressed, release: pushToTalkReleased });
+    pushToTalkRef.current = { press: pushToTalkPressed, release: pushToTalkReleased };
+
+    // Push-to-talk: listen while the space bar is held down
+    useEffect(() => {
+        if (listeningMode !== 'pushtotalk') {
+            return;
+        }
+
+        // Space still types in text fields and presses focused buttons
+        const isSpaceOutsideControls = (event: KeyboardEvent): boolean =>
+            event.code === 'Space' && !isEditableTarget(event.target) &&
+            !(event.target instanceof HTMLElement && event.target.tagName === 'BUTTON');
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (isSpaceOutsideControls(event)) {
+                event.preventDefault();
+                if (!event.repeat) {
+                    pushToTalkRef.current.press();
+                }
+            }
+        };
+        const handleKeyUp = (event: KeyboardEvent) => {
+            if (isSpaceOutsideControls(event)) {
+                event.preventDefault();
+                pushToTalkRef.current.release();
+            }
+        };
+        // Switching windows while holding the key never delivers the keyup
+        const handleBlur = () => pushToTalkRef.current.release();
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', handleBlur);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', handleBlur);
+        };
+    }, [listeningMode]);
+
     return (
         <div className="flex flex-col items-center p-4 max-w-md mx-auto">
-            <h1 className="text-2xl font-bold mb-6">Voice-Controlled To-Do App</h1>
+            <h1 className="text-2xl font-bold mb-6">{t.appTitle}</h1>
+
+            {updateAvailable && (
+                <div className="w-full mb-4 p-3 bg-blue-50 border border-blue-300 rounded-lg flex items-center justify-between text-sm">
+                    <span>{t.updateAvailable}</span>
+                    <button
+                        onClick={applyUpdate}
+                        className="bg-blue-500 text-white px-3 py-1 rounded text-sm"
+                    >
+                        {t.reload}
+                    </button>
+                </div>
+            )}
 
             <div className="w-full mb-6 p-4 bg-gray-100 rounded-lg">
                 <div className="flex items-center justify-between mb-4">
-                    <h2 className="text-lg font-semibold">Voice Commands (English)</h2>
+                    <h2 className="text-lg font-semibold">{t.voiceCommandsTitle}</h2>
                     <div className="flex space-x-2">
                         <button
-                            onClick={toggleListening}
-                            className={`p-2 rounded-full ${listening ? 'bg-red-500 text-white' : 'bg-blue-500 text-white'}`}
-                            title={listening ? "Stop listening" : "Start listening"}
+                            {...(listeningMode === 'pushtotalk'
+                                ? {
+                                    onPointerDown: pushToTalkPressed,
+                                    onPointerUp: pushToTalkReleased,
+                                    onPointerLeave: pushToTalkReleased
+                                }
+                                : { onClick: toggleListening })}
+                            className={`p-2 rounded-full ${listening ? 'bg-red-500 text-white' : voiceUnavailable ? 'bg-gray-300 text-gray-600' : 'bg-blue-500 text-white'}`}
+                            title={voiceUnavailable && recognizerEngine ? t.offlineTypeInstead : listeningMode === 'pushtotalk' ? t.holdToTalkButton : listening ? t.stopListening : t.startListening}
+                            aria-label={listeningMode === 'pushtotalk' ? t.holdToTalkButton : t.microphoneButton}
+                            aria-pressed={listening}
+                            aria-keyshortcuts="Alt+M"
                         >
                             {listening ? <MicOff size={24} /> : <Mic size={24} />}
                         </button>
@@ -353,7 +1279,9 @@ const VoiceToDoApp: React.FC = () => {
                             <button
                                 onClick={toggleEditing}
                                 className={`p-2 rounded-full ${isEditing ? 'bg-yellow-500 text-white' : 'bg-gray-300 text-gray-600'}`}
-                                title="Edit recognized text"
+                                title={t.editTranscript}
+                                aria-label={t.editTranscript}
+                                aria-pressed={isEditing}
                             >
                                 <Edit size={24} />
                             </button>
@@ -362,38 +1290,340 @@ const VoiceToDoApp: React.FC = () => {
                             onClick={finishCurrentCommand}
                             className={`p-2 rounded-full ${processingCommand ? 'bg-green-500 text-white' : 'bg-gray-300 text-gray-600'}`}
                             disabled={!processingCommand}
-                            title="Process current command"
+                            title={`${t.processCommand} (Ctrl+Enter)`}
+                            aria-label={t.processCommand}
+                            aria-keyshortcuts="Control+Enter"
                         >
                             <Square size={24} />
                         </button>
                     </div>
                 </div>
 
+                <form onSubmit={handleTypedCommand} className="mb-4">
+                    {!online && (
+                        <p className="flex items-center text-xs text-gray-500 mb-1">
+                            <WifiOff size={14} className="mr-1" />
+                            {t.offline}
+                        </p>
+                    )}
+                    <div className="flex space-x-2">
+                        <input
+                            ref={commandInputRef}
+                            type="text"
+                            value={typedCommand}
+                            onChange={e => setTypedCommand(e.target.value)}
+                            placeholder={t.typeCommand}
+                            className="flex-1 min-w-0 p-2 border border-gray-300 rounded text-sm"
+                            aria-label={t.commandField}
+                            aria-keyshortcuts="Alt+T"
+                        />
+                        <button
+                            type="submit"
+                            className="bg-blue-500 text-white px-3 py-1 rounded text-sm"
+                        >
+                            {t.runTypedCommand}
+                        </button>
+                    </div>
+                </form>
+
                 <div className="mb-4">
-                    <p className="text-sm text-gray-600 mb-1">Try saying:</p>
+                    <p className="text-sm text-gray-600 mb-1">{t.trySaying}</p>
                     <ul className="text-sm text-gray-800 space-y-1">
-                        <li>"Add task buy groceries"</li>
-                        <li>"Mark buy groceries as done"</li>
-                        <li>"Delete task buy groceries"</li>
-                        <li>"Clear all tasks"</li>
+                        {locale.examples.map(example => (
+                            <li key={example}>"{example}"</li>
+                        ))}
                     </ul>
                 </div>
 
+                <details className="mb-4 text-sm">
+                    <summary className="text-gray-600 cursor-pointer">{t.shortcutsTitle}</summary>
+                    <dl className="mt-1 grid grid-cols-2 gap-x-2 text-gray-800">
+                        <dt><kbd>Alt+M</kbd></dt>
+                        <dd>{t.shortcuts.microphone}</dd>
+                        <dt><kbd>Alt+T</kbd></dt>
+                        <dd>{t.shortcuts.typeCommand}</dd>
+                        <dt><kbd>Ctrl+Enter</kbd></dt>
+                        <dd>{t.shortcuts.runCommand}</dd>
+                        <dt><kbd>Esc</kbd></dt>
+                        <dd>{t.shortcuts.cancel}</dd>
+                        <dt><kbd>Ctrl+Z</kbd> / <kbd>Ctrl+Shift+Z</kbd></dt>
+                        <dd>{t.shortcuts.undoRedo}</dd>
+                        <dt><kbd>↑</kbd> / <kbd>↓</kbd></dt>
+                        <dd>{t.shortcuts.moveTask}</dd>
+                    </dl>
+                </details>
+
+                <div className="mb-4">
+                    <label className="text-sm text-gray-600 block mb-1" htmlFor="command-language">
+                        {t.languageLabel}
+                    </label>
+                    <select
+                        id="command-language"
+                        value={localeId}
+                        onChange={e => changeLocale(e.target.value as LocaleId)}
+                        className="w-full p-2 border border-gray-300 rounded text-sm bg-white"
+                    >
+                        {Object.values(locales).map(pack => (
+                            <option key={pack.id} value={pack.id}>{pack.label}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {recognizerEngine && (
+                    <div className="mb-4">
+                        <label className="text-sm text-gray-600 block mb-1" htmlFor="recognizer-engine">
+                            {t.recognizerLabel}
+                        </label>
+                        <select
+                            id="recognizer-engine"
+                            value={recognizerEngine}
+                            onChange={e => changeRecognizer(e.target.value as RecognizerEngine)}
+                            className="w-full p-2 border border-gray-300 rounded text-sm bg-white"
+                        >
+                            {getAvailableRecognizers().map(option => (
+                                <option key={option.engine} value={option.engine}>{t.recognizers[option.engine].label}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">
+                            {t.recognizers[recognizerEngine].description}
+                        </p>
+                    </div>
+                )}
+
+                <div className="mb-4">
+                    <label className="text-sm text-gray-600 block mb-1" htmlFor="listening-mode">
+                        {t.listeningModeLabel}
+                    </label>
+                    <select
+                        id="listening-mode"
+                        value={listeningMode}
+                        onChange={e => changeListeningMode(e.target.value as ListeningMode)}
+                        className="w-full p-2 border border-gray-300 rounded text-sm bg-white"
+                    >
+                        {LISTENING_MODES.map(mode => (
+                            <option key={mode} value={mode}>{t.listeningModeOption(mode, locale.wakeWords[0])}</option>
+                        ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">{t.listeningModeHint(listeningMode, locale.wakeWords[0])}</p>
+                </div>
+
+                {speechSupported && (
+                    <div className="mb-4">
+                        <label className="text-sm text-gray-600 block mb-1" htmlFor="speech-verbosity">
+                            {t.speechFeedbackLabel}
+                        </label>
+                        <select
+                            id="speech-verbosity"
+                            value={speechVerbosity}
+                            onChange={e => setSpeechVerbosity(e.target.value as SpeechVerbosity)}
+                            className="w-full p-2 border border-gray-300 rounded text-sm bg-white"
+                        >
+                            {SPEECH_VERBOSITIES.map(verbosity => (
+                                <option key={verbosity} value={verbosity}>{t.speechVerbosities[verbosity]}</option>
+                            ))}
+                        </select>
+                        {speechVerbosity !== 'off' && (
+                            <div className="flex space-x-2 mt-2">
+                                <select
+                                    value={voices.some(voice => voice.voiceURI === speechVoice) ? speechVoice || '' : ''}
+                                    onChange={e => setSpeechVoice(e.target.value || null)}
+                                    className="flex-1 min-w-0 p-2 border border-gray-300 rounded text-sm bg-white"
+                                    aria-label={t.voiceLabel}
+                                >
+                                    <option value="">{t.defaultVoice}</option>
+                                    {voices.map(voice => (
+                                        <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>
+                                    ))}
+                                </select>
+                                <label className="flex items-center text-sm text-gray-600">
+                                    {t.speechRate}
+                                    <input
+                                        type="range"
+                                        min={0.5}
+                                        max={2}
+                                        step={0.1}
+                                        value={speechRate}
+                                        onChange={e => setSpeechRate(Number(e.target.value))}
+                                        className="ml-2 w-20"
+                                    />
+                                    <span className="ml-1 w-8 text-right">{speechRate.toFixed(1)}×</span>
+                                </label>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <div className="mb-4">
+                    <button
+                        onClick={() => setShowCustomCommands(!showCustomCommands)}
+                        className="flex items-center text-sm text-blue-600"
+                        aria-expanded={showCustomCommands}
+                    >
+                        <Settings size={14} className="mr-1" />
+                        {t.customCommandsTitle((customCommands?.synonyms.length ?? 0) + (customCommands?.macros.length ?? 0))}
+                    </button>
+                    {showCustomCommands && (
+                        <div className="mt-2 p-2 bg-gray-50 rounded border border-gray-200">
+                            <CustomCommandsEditor
+                                commands={customCommands ?? emptyCustomCommands()}
+                                pack={basePack}
+                                onChange={commands => setCustomCommandSettings({ ...customCommandSettings, [localeId]: commands })}
+                            />
+                        </div>
+                    )}
+                </div>
+
+                <div className="mb-4">
+                    <button
+                        onClick={() => setShowCommandLog(!showCommandLog)}
+                        className="flex items-center text-sm text-blue-600"
+                        aria-expanded={showCommandLog}
+                    >
+                        <History size={14} className="mr-1" />
+                        {t.commandLogTitle(commandLog.length)}
+                    </button>
+                    {showCommandLog && (
+                        <div className="mt-2 p-2 bg-gray-50 rounded border border-gray-200">
+                            <CommandLog
+                                entries={commandLog}
+                                pack={locale}
+                                onReplay={replayCommand}
+                                onFix={fixCommand}
+                                onClear={clearLog}
+                            />
+                        </div>
+                    )}
+                </div>
+
+                <div className="mb-4">
+                    <label className="text-sm text-gray-600 block mb-1" htmlFor="sync-url">
+                        {t.syncServerLabel}
+                    </label>
+                    <input
+                        id="sync-url"
+                        type="url"
+                        value={syncUrlDraft}
+                        onChange={e => setSyncUrlDraft(e.target.value)}
+                        onBlur={applySyncUrlDraft}
+                        onKeyDown={e => e.key === 'Enter' && applySyncUrlDraft()}
+                        placeholder={t.syncServerPlaceholder}
+                        className="w-full p-2 border border-gray-300 rounded text-sm"
+                    />
+                    {!isSyncUrl(syncUrlDraft.trim()) && (
+                        <p className="text-xs text-red-600 mt-1">{t.invalidSyncUrl}</p>
+                    )}
+                </div>
+
                 <div className="mt-3">
-                    <p className="text-sm font-medium">Status: <span className="text-blue-600">{feedback}</span></p>
+                    <p className="text-xs text-gray-500 mb-1">
+                        {t.microphoneLabel} <span className={sessionState === 'error' ? 'text-red-600' : ''}>{t.sessionStates[sessionState]}</span>
+                    </p>
+                    <p className="text-sm font-medium flex items-center">
+                        {t.statusLabel}{' '}
+                        <span className="text-blue-600 ml-1" role="status" aria-live="polite" aria-atomic="true">
+                            {/* A new node for every message, so a repeated one is announced again */}
+                            <span key={announcementCount}>{feedback}</span>
+                        </span>
+                        {speaking && (
+                            <span className="flex items-center text-xs text-gray-500 ml-2" title={t.speakingHint}>
+                                <Volume2 size={14} className="mr-1" />
+                                {t.speaking}
+                            </span>
+                        )}
+                    </p>
+                    {pendingConfirmation && (
+                        <div className="text-sm mt-2 bg-white p-2 rounded border border-red-300">
+                            <p className="font-medium mb-2">{pendingConfirmation.prompt}</p>
+                            <div className="flex space-x-2">
+                                <button
+                                    onClick={() => answerConfirmation(true)}
+                                    className="bg-red-500 text-white px-3 py-1 rounded text-sm"
+                                >
+                                    {t.yes}
+                                </button>
+                                <button
+                                    onClick={() => answerConfirmation(false)}
+                                    className="bg-gray-300 text-gray-700 px-3 py-1 rounded text-sm"
+                                >
+                                    {t.no}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                    {pendingChoice && (
+                        <div className="text-sm mt-2 bg-white p-2 rounded border border-yellow-300">
+                            <p className="font-medium mb-2">
+                                {t.whichTaskPrompt(pendingChoice.spoken)}
+                            </p>
+                            <ol className="flex flex-col space-y-1">
+                                {pendingChoice.candidates.map((task, index) => (
+                                    <li key={task.id}>
+                                        <button
+                                            onClick={() => chooseTask(task)}
+                                            className="w-full text-left bg-yellow-50 hover:bg-yellow-100 px-3 py-1 rounded"
+                                        >
+                                            {index + 1}. {task.content}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ol>
+                            <button
+                                onClick={() => {
+                                    setPendingChoice(null);
+                                    report(t.commandCancelled);
+                                }}
+                                className="bg-red-500 text-white px-3 py-1 rounded text-sm mt-2"
+                            >
+                                {t.cancel}
+                            </button>
+                        </div>
+                    )}
+                    {suggestions.length > 0 && (
+                        <div className="text-sm mt-2 bg-white p-2 rounded border border-yellow-300">
+                            <p className="font-medium mb-2">{t.didYouMean}</p>
+                            <div className="flex flex-col space-y-1">
+                                {suggestions.map(candidate => (
+                                    <button
+                                        key={readingKey(candidate.intent)}
+                                        onClick={() => chooseSuggestion(candidate)}
+                                        className="text-left bg-yellow-50 hover:bg-yellow-100 px-3 py-1 rounded"
+                                    >
+                                        {t.describeIntent(
+                                            candidate.intent.type,
+                                            candidate.intent.slots.content || candidate.intent.transcript,
+                                            candidate.intent.slots
+                                        )}
+                                    </button>
+                                ))}
+                                <button
+                                    onClick={cancelCurrentCommand}
+                                    className="bg-red-500 text-white px-3 py-1 rounded text-sm self-start"
+                                >
+                                    {t.cancel}
+                                </button>
+                            </div>
+                        </div>
+                    )}
                     {transcript && (
                         <div className="text-sm mt-2 bg-white p-2 rounded border border-gray-200">
-                            <p className="font-medium">Heard: </p>
+                            <p className="font-medium">{t.heard} </p>
                             {isEditing ? (
                                 <div className="my-2">
                                     <input
                                         type="text"
                                         value={editedTranscript}
                                         onChange={handleTranscriptChange}
+                                        onKeyDown={e => {
+                                            // The global Ctrl+Enter skips text fields, so the one that edits the command has its own
+                                            if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
+                                                e.preventDefault();
+                                                finishCurrentCommand();
+                                            }
+                                        }}
                                         className="w-full p-2 border border-gray-300 rounded text-sm"
-                                        aria-label="Edit recognized text"
+                                        aria-label={t.editTranscript}
                                     />
-                                    <p className="text-xs text-gray-500 mt-1">Edit the text above if the recognition wasn't accurate</p>
+                                    <p className="text-xs text-gray-500 mt-1">{t.editTranscriptHint}</p>
                                 </div>
                             ) : (
                                 <p className="italic">{transcript}</p>
@@ -403,19 +1633,19 @@ const VoiceToDoApp: React.FC = () => {
                                     onClick={toggleEditing}
                                     className="bg-yellow-500 text-white px-3 py-1 rounded text-sm"
                                 >
-                                    {isEditing ? "Done Editing" : "Edit Text"}
+                                    {isEditing ? t.doneEditing : t.editText}
                                 </button>
                                 <button
                                     onClick={finishCurrentCommand}
                                     className="bg-green-500 text-white px-3 py-1 rounded text-sm"
                                 >
-                                    Process Command
+                                    {t.processCommandButton}
                                 </button>
                                 <button
                                     onClick={cancelCurrentCommand}
                                     className="bg-red-500 text-white px-3 py-1 rounded text-sm"
                                 >
-                                    Cancel
+                                    {t.cancel}
                                 </button>
                             </div>
                         </div>
@@ -424,35 +1654,169 @@ const VoiceToDoApp: React.FC = () => {
             </div>
 
             <div className="w-full">
-                <h2 className="text-xl font-semibold mb-4">Tasks ({tasks.length})</h2>
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center">
+                        <h2 ref={tasksHeadingRef} tabIndex={-1} className="text-xl font-semibold">{t.tasksTitle(tasks.length)}</h2>
+                        {syncStatus.state !== 'off' && (
+                            <span
+                                className={`flex items-center text-xs ml-3 ${syncStatus.state === 'error' ? 'text-red-600' : 'text-gray-500'}`}
+                                title={syncStatus.error || (syncStatus.lastSyncedAt
+                                    ? t.lastSynced(new Date(syncStatus.lastSyncedAt).toLocaleTimeString())
+                                    : undefined)}
+                            >
+                                {syncStatus.state === 'synced' && <Cloud size={14} className="mr-1" />}
+                                {syncStatus.state === 'syncing' && <RefreshCw size={14} className="mr-1 animate-spin" />}
+                                {syncStatus.state === 'offline' && <CloudOff size={14} className="mr-1" />}
+                                {syncStatus.state === 'error' && <AlertTriangle size={14} className="mr-1" />}
+                                {t.syncStates[syncStatus.state]}
+                                {syncStatus.pending > 0 && ` · ${t.syncPending(syncStatus.pending)}`}
+                            </span>
+                        )}
+                    </div>
+                    <div className="flex space-x-2">
+                        <select
+                            value=""
+                            onChange={e => e.target.value && exportTaskFile(e.target.value as TaskFileFormat)}
+                            disabled={tasks.length === 0}
+                            className="p-1 border border-gray-300 rounded bg-white text-sm"
+                            aria-label={t.exportLabel}
+                        >
+                            <option value="">{t.exportPlaceholder}</option>
+                            {(Object.keys(TASK_FILE_FORMATS) as TaskFileFormat[]).map(format => (
+                                <option key={format} value={format}>{t.exportFormats[format]}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={() => importInputRef.current?.click()}
+                            className="p-2 rounded-full bg-gray-200 hover:bg-gray-300"
+                            title={t.importTitle}
+                        >
+                            <Upload size={18} />
+                        </button>
+                        <input
+                            ref={importInputRef}
+                            type="file"
+                            accept=".json,.md,.markdown,.txt,.ics,.ical,application/json,text/markdown,text/calendar"
+                            onChange={handleImportFileChange}
+                            className="hidden"
+                            aria-label={t.importLabel}
+                        />
+                        <button
+                            onClick={handleUndo}
+                            disabled={!canUndo}
+                            className={`p-2 rounded-full ${canUndo ? 'bg-gray-200 hover:bg-gray-300' : 'bg-gray-100 text-gray-400'}`}
+                            title={`${t.undoButton} (Ctrl+Z)`}
+                        >
+                            <Undo2 size={18} />
+                        </button>
+                        <button
+                            onClick={handleRedo}
+                            disabled={!canRedo}
+                            className={`p-2 rounded-full ${canRedo ? 'bg-gray-200 hover:bg-gray-300' : 'bg-gray-100 text-gray-400'}`}
+                            title={`${t.redoButton} (Ctrl+Shift+Z)`}
+                        >
+                            <Redo2 size={18} />
+                        </button>
+                    </div>
+                </div>
+
+                {tasks.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-3 text-sm">
+                        <select
+                            value={taskSort}
+                            onChange={e => setTaskSort(e.target.value as TaskSort)}
+                            className="p-1 border border-gray-300 rounded bg-white"
+                            aria-label={t.sortLabel}
+                        >
+                            {TASK_SORTS.map(sort => (
+                                <option key={sort} value={sort}>{t.sorts[sort]}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={taskFilter.status}
+                            onChange={e => setTaskFilter({ ...taskFilter, status: e.target.value as TaskStatus })}
+                            className="p-1 border border-gray-300 rounded bg-white"
+                            aria-label={t.statusFilterLabel}
+                        >
+                            {TASK_STATUSES.map(status => (
+                                <option key={status} value={status}>{t.statusFilters[status]}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={taskFilter.list || ''}
+                            onChange={e => setTaskFilter({ ...taskFilter, list: e.target.value || null })}
+                            className="p-1 border border-gray-300 rounded bg-white"
+                            aria-label={t.listFilterLabel}
+                        >
+                            <option value="">{t.allLists}</option>
+                            {collectLists(tasks).map(list => (
+                                <option key={list} value={list}>{list}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={taskFilter.tag || ''}
+                            onChange={e => setTaskFilter({ ...taskFilter, tag: e.target.value || null })}
+                            className="p-1 border border-gray-300 rounded bg-white"
+                            aria-label={t.tagFilterLabel}
+                        >
+                            <option value="">{t.allTags}</option>
+                            {collectTags(tasks).map(tag => (
+                                <option key={tag} value={tag}>{tag}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={taskFilter.priority || ''}
+                            onChange={e => setTaskFilter({ ...taskFilter, priority: (e.target.value || null) as Priority | null })}
+                            className="p-1 border border-gray-300 rounded bg-white"
+                            aria-label={t.priorityFilterLabel}
+                        >
+                            <option value="">{t.anyPriority}</option>
+                            {PRIORITIES.map(priority => (
+                                <option key={priority} value={priority}>{t.priorities[priority]}</option>
+                            ))}
+                        </select>
+                        <label className="flex items-center">
+                            <input
+                                type="checkbox"
+                                checked={taskFilter.overdueOnly}
+                                onChange={e => setTaskFilter({ ...taskFilter, overdueOnly: e.target.checked })}
+                                className="mr-1"
+                            />
+                            {t.overdueOnly}
+                        </label>
+                        <label className="flex items-center">
+                            <input
+                                type="checkbox"
+                                checked={taskFilter.dueToday}
+                                onChange={e => setTaskFilter({ ...taskFilter, dueToday: e.target.checked })}
+                                className="mr-1"
+                            />
+                            {t.dueToday}
+                        </label>
+                    </div>
+                )}
 
-                {tasks.length === 0 ? (
-                    <p className="text-gray-500 text-center py-4">No tasks yet. Try adding one using your voice!</p>
+                {!tasksLoaded ? (
+                    <p className="text-gray-500 text-center py-4">{t.loadingTasks}</p>
+                ) : tasks.length === 0 ? (
+                    <p className="text-gray-500 text-center py-4">{t.noTasks}</p>
+                ) : visibleTasks.length === 0 ? (
+                    <p className="text-gray-500 text-center py-4">{t.noMatchingTasks}</p>
                 ) : (
-                    <ul className="space-y-2">
-                        {tasks.map(task => (
-                            <li
+                    <ul className="space-y-2" onFocus={handleTaskListFocus} aria-label={t.tasksLabel}>
+                        {visibleTasks.map(task => (
+                            <TaskItem
                                 key={task.id}
-                                className={`flex items-center justify-between p-3 rounded border ${task.completed ? 'bg-green-50 border-green-200' : 'bg-white border-gray-200'}`}
-                            >
-                                <div className="flex items-center">
-                                    <button
-                                        onClick={() => handleManualToggle(task.id)}
-                                        className={`p-1 rounded-full mr-3 ${task.completed ? 'bg-green-500 text-white' : 'bg-gray-200'}`}
-                                    >
-                                        <Check size={16} />
-                                    </button>
-                                    <span className={task.completed ? 'line-through text-gray-500' : ''}>
-                                        {task.content}
-                                    </span>
-                                </div>
-                                <button
-                                    onClick={() => handleManualDelete(task.id)}
-                                    className="text-red-500 hover:text-red-700"
-                                >
-                                    <Trash size={16} />
-                                </button>
-                            </li>
+                                task={task}
+                                lang={locale.recognitionLang}
+                                messages={t}
+                                reorderable={taskSort === 'created'}
+                                onToggle={handleManualToggle}
+                                onDelete={handleManualDelete}
+                                onEdit={handleManualEdit}
+                                onMove={handleManualMove}
+                                onMoveStep={handleMoveStep}
+                            />
                         ))}
                     </ul>
                 )}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { activateWaitingServiceWorker, registerServiceWorker } from '../services/serviceWorkerRegistration';
+
+export interface AppUpdate {
+    // A new build is installed and waits to take over
+    updateAvailable: boolean;
+    // Switches to the new build and reloads the page
+    applyUpdate: () => void;
+}
+
+// Registers the service worker in production builds and reports new versions
+export const useAppUpdate = (): AppUpdate => {
+    const [waiting, setWaiting] = useState<ServiceWorkerRegistration | null>(null);
+
+    useEffect(() => {
+        if (process.env.NODE_ENV !== 'production') {
+            return;
+        }
+        registerServiceWorker({ onUpdate: setWaiting });
+    }, []);
+
+    return {
+        updateAvailable: waiting !== null,
+        applyUpdate: () => {
+            if (waiting) {
+                activateWaitingServiceWorker(waiting);
+            }
+        }
+    };
+};
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { CommandLogEntry, appendLogEntry, isCommandLog } from '../utils/commandLog';
+
+const LOG_KEY = 'voice-todo-app:commandLog';
+
+const readLog = (): CommandLogEntry[] => {
+    try {
+        const raw = window.localStorage.getItem(LOG_KEY);
+        const log = raw !== null ? JSON.parse(raw) : [];
+        return isCommandLog(log) ? log : [];
+    } catch {
+        // Unreadable or blocked storage just means we start a new log
+        return [];
+    }
+};
+
+export interface CommandLog {
+    entries: CommandLogEntry[];
+    addEntry: (entry: CommandLogEntry) => void;
+    clearLog: () => void;
+}
+
+// The commands run on this device, oldest first; kept in localStorage across visits.
+// See utils/commandLog.
+export const useCommandLog = (): CommandLog => {
+    const [entries, setEntries] = useState<CommandLogEntry[]>(readLog);
+
+    useEffect(() => {
+        try {
+            window.localStorage.setItem(LOG_KEY, JSON.stringify(entries));
+        } catch (error) {
+            console.warn('Couldn\'t save the command log:', error);
+        }
+    }, [entries]);
+
+    return {
+        entries,
+        addEntry: entry => setEntries(log => appendLogEntry(log, entry)),
+        clearLog: () => setEntries([])
+    };
+};
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+
+// Whether the browser thinks it has a network connection. A true here doesn't promise that
+// a server answers, but a false reliably means requests will fail.
+export const useOnlineStatus = (): boolean => {
+    const [online, setOnline] = useState<boolean>(() => navigator.onLine !== false);
+
+    useEffect(() => {
+        const update = (): void => setOnline(navigator.onLine !== false);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+
+    return online;
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { Task } from '../types/task';
+import { createTaskStore, TaskStore } from '../services/taskStorage';
+
+// Task list state that is loaded from and saved to the task store, and kept in sync across tabs
+export const usePersistentTasks = (): [Task[], Dispatch<SetStateAction<Task[]>>, boolean] => {
+    const [tasks, setTasks] = useState<Task[]>([]);
+    const [loaded, setLoaded] = useState<boolean>(false);
+    const storeRef = useRef<TaskStore | null>(null);
+    // Set when the current tasks came from storage, so we don't write them straight back
+    const skipSaveRef = useRef<boolean>(true);
+
+    useEffect(() => {
+        const store = createTaskStore();
+        storeRef.current = store;
+        let cancelled = false;
+
+        store.load()
+            .then(savedTasks => {
+                if (!cancelled) {
+                    skipSaveRef.current = true;
+                    setTasks(savedTasks);
+                }
+            })
+            .catch(error => console.error('Error loading saved tasks:', error))
+            .finally(() => {
+                if (!cancelled) {
+                    setLoaded(true);
+                }
+            });
+
+        const unsubscribe = store.subscribe(remoteTasks => {
+            skipSaveRef.current = true;
+            setTasks(remoteTasks);
+        });
+
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!loaded || !storeRef.current) {
+            return;
+        }
+        if (skipSaveRef.current) {
+            skipSaveRef.current = false;
+            return;
+        }
+        storeRef.current.save(tasks).catch(error => console.error('Error saving tasks:', error));
+    }, [tasks, loaded]);
+
+    return [tasks, setTasks, loaded];
+};
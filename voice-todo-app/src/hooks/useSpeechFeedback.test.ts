@@ -0,0 +1,115 @@
+import { act, renderHook } from '@testing-library/react';
+import { SpeechFeedbackSettings, SpeechVerbosity, useSpeechFeedback } from './useSpeechFeedback';
+import { getVoices, speak } from '../services/speechSynthesis';
+
+// Just enough of the speech synthesis API: utterances start when spoken and end when the test says so
+class FakeUtterance {
+    lang = '';
+    rate = 1;
+    voice: SpeechSynthesisVoice | null = null;
+    onstart: (() => void) | null = null;
+    onend: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    constructor(public text: string) {}
+}
+
+const voice = (name: string, lang: string) => ({ name, lang, voiceURI: name } as SpeechSynthesisVoice);
+
+let spoken: FakeUtterance[] = [];
+
+const synthesis = Object.assign(new EventTarget(), {
+    getVoices: () => [voice('Anna', 'de-DE'), voice('Sam', 'en-US'), voice('Kate', 'en_GB')],
+    cancel: () => undefined,
+    speak: (utterance: FakeUtterance) => {
+        spoken.push(utterance);
+        utterance.onstart?.();
+    }
+});
+
+beforeEach(() => {
+    jest.useFakeTimers();
+    spoken = [];
+    Object.defineProperty(window, 'speechSynthesis', { value: synthesis, configurable: true });
+    (window as { SpeechSynthesisUtterance?: unknown }).SpeechSynthesisUtterance = FakeUtterance;
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    delete (window as { speechSynthesis?: unknown }).speechSynthesis;
+    delete (window as { SpeechSynthesisUtterance?: unknown }).SpeechSynthesisUtterance;
+});
+
+const settings = (verbosity: SpeechVerbosity): SpeechFeedbackSettings => ({ verbosity, voiceURI: null, rate: 1, lang: 'en-US' });
+
+describe('useSpeechFeedback', () => {
+    it.each<[SpeechVerbosity, string[]]>([
+        ['off', []],
+        ['answers', ['answer']],
+        ['results', ['answer', 'result']],
+        ['all', ['answer', 'result', 'status']]
+    ])('with verbosity "%s" reads %j aloud', (verbosity, expected) => {
+        const { result } = renderHook(() => useSpeechFeedback(settings(verbosity)));
+        act(() => {
+            result.current.say('answer', 'answer');
+            result.current.say('result', 'result');
+            result.current.say('status', 'status');
+        });
+        expect(spoken.map(({ text }) => text)).toEqual(expected);
+    });
+
+    it('guards against its own echo while speaking and shortly after', () => {
+        const { result } = renderHook(() => useSpeechFeedback(settings('all')));
+        expect(result.current.echoGuardRef.current).toBe(false);
+
+        act(() => result.current.say('Added task: "buy milk"', 'result'));
+        expect(result.current.speaking).toBe(true);
+        expect(result.current.echoGuardRef.current).toBe(true);
+
+        act(() => spoken[0].onend?.());
+        expect(result.current.speaking).toBe(false);
+        // The recognizer may still deliver what it heard of our voice
+        expect(result.current.echoGuardRef.current).toBe(true);
+
+        act(() => {
+            jest.runAllTimers();
+        });
+        expect(result.current.echoGuardRef.current).toBe(false);
+    });
+
+    it('keeps the guard up when a cut-off utterance ends during a newer one', () => {
+        const { result } = renderHook(() => useSpeechFeedback(settings('all')));
+        act(() => {
+            result.current.say('first', 'result');
+            result.current.say('second', 'result');
+        });
+        act(() => {
+            spoken[0].onend?.();
+            jest.runAllTimers();
+        });
+        expect(result.current.echoGuardRef.current).toBe(true);
+    });
+
+    it('uses the chosen voice, rate and language', () => {
+        const { result } = renderHook(() => useSpeechFeedback({ verbosity: 'all', voiceURI: 'Kate', rate: 1.5, lang: 'en-GB' }));
+        act(() => result.current.say('hello', 'status'));
+        expect(spoken[0]).toMatchObject({ lang: 'en-GB', rate: 1.5, voice: { name: 'Kate' } });
+        expect(result.current.voices.map(({ name }) => name)).toEqual(['Sam', 'Kate']);
+    });
+});
+
+describe('speechSynthesis', () => {
+    it('lists the voices of a language', () => {
+        expect(getVoices('de').map(({ name }) => name)).toEqual(['Anna']);
+    });
+
+    it('ignores a stored voice of another language', () => {
+        speak('Hallo', { lang: 'de-DE', voiceURI: 'Sam' });
+        expect(spoken[0].voice).toBeNull();
+    });
+
+    it('reports when the browser cannot speak', () => {
+        delete (window as { speechSynthesis?: unknown }).speechSynthesis;
+        expect(speak('hello', { lang: 'en-US' })).toBe(false);
+        expect(getVoices('en')).toEqual([]);
+    });
+});
@@ -0,0 +1,95 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { getVoices, isSpeechSynthesisSupported, speak, stopSpeaking } from '../services/speechSynthesis';
+
+// How much is read aloud: nothing, only answers to questions ("read my tasks"),
+// also command results ("Added buy milk"), or every status message too
+export type SpeechVerbosity = 'off' | 'answers' | 'results' | 'all';
+
+export type FeedbackKind = 'answer' | 'result' | 'status';
+
+export const SPEECH_VERBOSITIES: SpeechVerbosity[] = ['off', 'answers', 'results', 'all'];
+
+const SPOKEN_KINDS: Record<SpeechVerbosity, FeedbackKind[]> = {
+    off: [],
+    answers: ['answer'],
+    results: ['answer', 'result'],
+    all: ['answer', 'result', 'status']
+};
+
+// The recognizer finalizes what it heard a little after the sound stops,
+// so our own speech is still treated as echo for this long afterwards
+const ECHO_TAIL_MS = 600;
+
+export interface SpeechFeedbackSettings {
+    verbosity: SpeechVerbosity;
+    voiceURI: string | null;
+    rate: number;
+    lang: string;
+}
+
+export const useSpeechFeedback = (settings: SpeechFeedbackSettings) => {
+    const [speaking, setSpeaking] = useState<boolean>(false);
+    const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => getVoices(settings.lang));
+    // True while speaking and during the echo tail; read by the recognizer's handlers
+    const echoGuardRef = useRef<boolean>(false);
+    const settingsRef = useRef(settings);
+    settingsRef.current = settings;
+    // Only the latest utterance may end the guard; cancelling an older one also fires its end event
+    const utteranceIdRef = useRef(0);
+    const tailTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    // Browsers load voices asynchronously and announce them with voiceschanged
+    useEffect(() => {
+        if (!isSpeechSynthesisSupported()) {
+            return;
+        }
+        const updateVoices = () => setVoices(getVoices(settings.lang));
+        updateVoices();
+        window.speechSynthesis.addEventListener('voiceschanged', updateVoices);
+        return () => window.speechSynthesis.removeEventListener('voiceschanged', updateVoices);
+    }, [settings.lang]);
+
+    useEffect(() => () => {
+        if (tailTimerRef.current) {
+            clearTimeout(tailTimerRef.current);
+        }
+        stopSpeaking();
+    }, []);
+
+    // Reads the text aloud if the verbosity setting covers this kind of feedback
+    const say = useCallback((text: string, kind: FeedbackKind): void => {
+        const { verbosity, voiceURI, rate, lang } = settingsRef.current;
+        if (!text || !SPOKEN_KINDS[verbosity].includes(kind)) {
+            return;
+        }
+
+        const id = ++utteranceIdRef.current;
+        if (tailTimerRef.current) {
+            clearTimeout(tailTimerRef.current);
+            tailTimerRef.current = null;
+        }
+        // Raise the guard before speaking starts, in case the start event comes late
+        echoGuardRef.current = true;
+        const started = speak(text, {
+            lang,
+            voiceURI,
+            rate,
+            onStart: () => setSpeaking(true),
+            onEnd: () => {
+                if (id !== utteranceIdRef.current) {
+                    return;
+                }
+                setSpeaking(false);
+                tailTimerRef.current = setTimeout(() => {
+                    echoGuardRef.current = false;
+                    tailTimerRef.current = null;
+                }, ECHO_TAIL_MS);
+            }
+        });
+        if (!started) {
+            echoGuardRef.current = false;
+        }
+    }, []);
+
+    return { say, speaking, voices, echoGuardRef, supported: isSpeechSynthesisSupported() };
+};
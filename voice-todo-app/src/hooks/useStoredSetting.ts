@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+
+const SETTINGS_PREFIX = 'voice-todo-app:setting:';
+
+const readSetting = <T>(key: string, fallback: T, isValid: (value: unknown) => value is T): T => {
+    try {
+        const raw = window.localStorage.getItem(SETTINGS_PREFIX + key);
+        if (raw !== null) {
+            const value = JSON.parse(raw);
+            if (isValid(value)) {
+                return value;
+            }
+        }
+    } catch {
+        // Unreadable or blocked storage just means we use the default
+    }
+    return fallback;
+};
+
+// A small user preference remembered in localStorage. Values that fail isValid
+// (e.g. an option that no longer exists) are replaced by the fallback.
+export const useStoredSetting = <T>(
+    key: string,
+    fallback: T,
+    isValid: (value: unknown) => value is T
+): [T, (value: T) => void] => {
+    const [value, setValue] = useState<T>(() => readSetting(key, fallback, isValid));
+
+    useEffect(() => {
+        try {
+            window.localStorage.setItem(SETTINGS_PREFIX + key, JSON.stringify(value));
+        } catch (error) {
+            console.warn(`Couldn't save setting "${key}":`, error);
+        }
+    }, [key, value]);
+
+    return [value, setValue];
+};
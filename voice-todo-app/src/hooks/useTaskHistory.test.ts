@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { useTaskHistory } from './useTaskHistory';
+import { Task, emptyTaskDetails } from '../types/task';
+
+const task = (id: string, content = id): Task => ({ id, content, completed: false, ...emptyTaskDetails() });
+
+const ids = (tasks: Task[]): string[] => tasks.map(({ id }) => id);
+
+// The history on top of plain state; setTasks stands in for changes from other tabs and devices
+const renderHistory = (initial: Task[] = []) => renderHook(() => {
+    const [tasks, setTasks] = useState<Task[]>(initial);
+    return { tasks, setTasks, ...useTaskHistory(tasks, setTasks) };
+});
+
+const add = (content: string) => (tasks: Task[]) => [...tasks, task(content)];
+
+describe('useTaskHistory', () => {
+    it('undoes and redoes changes with their labels', () => {
+        const { result } = renderHistory();
+        act(() => result.current.updateTasks(add('a'), 'Add "a"'));
+        act(() => result.current.updateTasks(add('b'), 'Add "b"'));
+
+        let label: string | null = null;
+        act(() => {
+            label = result.current.undo();
+        });
+        expect(label).toBe('Add "b"');
+        expect(ids(result.current.tasks)).toEqual(['a']);
+        expect(result.current.canRedo).toBe(true);
+
+        act(() => {
+            label = result.current.redo();
+        });
+        expect(label).toBe('Add "b"');
+        expect(ids(result.current.tasks)).toEqual(['a', 'b']);
+    });
+
+    it('reports when there is nothing to undo or redo', () => {
+        const { result } = renderHistory();
+        expect(result.current.undo()).toBeNull();
+        expect(result.current.redo()).toBeNull();
+        expect(result.current.canUndo).toBe(false);
+    });
+
+    it('clears redo when a new change is made', () => {
+        const { result } = renderHistory();
+        act(() => result.current.updateTasks(add('a'), 'Add "a"'));
+        act(() => {
+            result.current.undo();
+        });
+        act(() => result.current.updateTasks(add('b'), 'Add "b"'));
+        expect(result.current.canRedo).toBe(false);
+        expect(result.current.redo()).toBeNull();
+    });
+
+    it('keeps the last 50 changes', () => {
+        const { result } = renderHistory();
+        for (let i = 0; i < 55; i++) {
+            act(() => result.current.updateTasks(add(String(i)), `Add ${i}`));
+        }
+        let undone = 0;
+        act(() => {
+            while (result.current.undo() !== null) {
+                undone++;
+            }
+        });
+        expect(undone).toBe(50);
+        expect(ids(result.current.tasks)).toEqual(['0', '1', '2', '3', '4']);
+    });
+
+    it('ignores changes that change nothing', () => {
+        const { result } = renderHistory([task('a')]);
+        act(() => result.current.updateTasks(tasks => tasks, 'Nothing'));
+        expect(result.current.canUndo).toBe(false);
+    });
+
+    it('keeps a task added remotely when undoing a local change', () => {
+        const { result } = renderHistory();
+        act(() => result.current.updateTasks(add('local'), 'Add "local"'));
+        act(() => result.current.setTasks(tasks => [...tasks, task('remote')]));
+
+        act(() => {
+            result.current.undo();
+        });
+        expect(ids(result.current.tasks)).toEqual(['remote']);
+
+        act(() => {
+            result.current.redo();
+        });
+        expect(ids(result.current.tasks)).toEqual(['local', 'remote']);
+    });
+
+    it('keeps a remote edit when undoing a local change to another task', () => {
+        const { result } = renderHistory([task('a'), task('b')]);
+        act(() => result.current.updateTasks(tasks => tasks.filter(({ id }) => id !== 'a'), 'Delete "a"'));
+        act(() => result.current.setTasks(tasks => tasks.map(item => ({ ...item, completed: true }))));
+
+        act(() => {
+            result.current.undo();
+        });
+        expect(result.current.tasks).toEqual([task('a'), { ...task('b'), completed: true }]);
+    });
+});
@@ -0,0 +1,94 @@
+import { useRef, useState, Dispatch, SetStateAction } from 'react';
+import { Task } from '../types/task';
+import { applyTaskChange } from '../utils/taskEditing';
+
+// Oldest entries are dropped past this many steps
+const HISTORY_LIMIT = 50;
+
+// The list before and after one change. Undo and redo apply only the difference between the
+// two, so tasks changed in other tabs or on other devices in the meantime are left alone.
+interface HistoryEntry {
+    before: Task[];
+    after: Task[];
+    // What the change did, e.g. 'Add "buy milk"', so undo/redo can say what they reverted
+    label: string;
+}
+
+export interface TaskHistory {
+    // Applies a change to the task list and records it so it can be undone
+    updateTasks: (updater: (tasks: Task[]) => Task[], label: string) => void;
+    // The task list including changes made earlier in the same event handler
+    getTasks: () => Task[];
+    // Both return the label of the change that was undone/redone, or null if there was nothing to do
+    undo: () => string | null;
+    redo: () => string | null;
+    canUndo: boolean;
+    canRedo: boolean;
+}
+
+// Undo/redo on top of an existing task list state. Every change has to go through
+// updateTasks to be undoable; snapshots are cheap because tasks are never mutated in place.
+// Changes that arrive through setTasks from elsewhere aren't undoable themselves, but survive
+// undoing and redoing the local ones.
+export const useTaskHistory = (tasks: Task[], setTasks: Dispatch<SetStateAction<Task[]>>): TaskHistory => {
+    const pastRef = useRef<HistoryEntry[]>([]);
+    const futureRef = useRef<HistoryEntry[]>([]);
+    // Several changes can run in one event handler, before React re-renders with new tasks
+    const latestRef = useRef<Task[]>(tasks);
+    const renderedRef = useRef<Task[]>(tasks);
+    // Bumped to re-render when only the history (not the tasks) changed
+    const [, setVersion] = useState<number>(0);
+
+    if (renderedRef.current !== tasks) {
+        renderedRef.current = tasks;
+        latestRef.current = tasks;
+    }
+
+    const replaceTasks = (next: Task[]): void => {
+        latestRef.current = next;
+        setTasks(next);
+        setVersion(version => version + 1);
+    };
+
+    const updateTasks = (updater: (tasks: Task[]) => Task[], label: string): void => {
+        const current = latestRef.current;
+        const next = updater(current);
+        if (next === current) {
+            return;
+        }
+        pastRef.current = [...pastRef.current, { before: current, after: next, label }].slice(-HISTORY_LIMIT);
+        futureRef.current = [];
+        replaceTasks(next);
+    };
+
+    const undo = (): string | null => {
+        const previous = pastRef.current[pastRef.current.length - 1];
+        if (!previous) {
+            return null;
+        }
+        pastRef.current = pastRef.current.slice(0, -1);
+        futureRef.current = [...futureRef.current, previous];
+        replaceTasks(applyTaskChange(latestRef.current, previous.after, previous.before));
+        return previous.label;
+    };
+
+    const redo = (): string | null => {
+        const next = futureRef.current[futureRef.current.length - 1];
+        if (!next) {
+            return null;
+        }
+        futureRef.current = futureRef.current.slice(0, -1);
+        pastRef.current = [...pastRef.current, next];
+        replaceTasks(applyTaskChange(latestRef.current, next.before, next.after));
+        return next.label;
+    };
+
+    return {
+        updateTasks,
+        getTasks: () => latestRef.current,
+        undo,
+        redo,
+        canUndo: pastRef.current.length > 0,
+        canRedo: futureRef.current.length > 0
+    };
+};
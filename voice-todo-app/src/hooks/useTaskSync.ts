@@ -0,0 +1,46 @@
+import { useEffect, useRef, useState, Dispatch, SetStateAction } from 'react';
+import { Task } from '../types/task';
+import { OFF_SYNC_STATUS, SyncStatus, TaskSyncClient } from '../services/taskSync';
+
+// Syncs the task list with the server at `url` (no syncing when empty). Changes from other
+// devices replace the task list like changes from other tabs do: they can't be undone here,
+// and undoing or redoing local changes leaves them in place (see useTaskHistory).
+export const useTaskSync = (
+    url: string,
+    tasks: Task[],
+    setTasks: Dispatch<SetStateAction<Task[]>>,
+    loaded: boolean
+): SyncStatus => {
+    const [status, setStatus] = useState<SyncStatus>(OFF_SYNC_STATUS);
+    const clientRef = useRef<TaskSyncClient | null>(null);
+    const tasksRef = useRef<Task[]>(tasks);
+    tasksRef.current = tasks;
+
+    useEffect(() => {
+        // Before the saved tasks are loaded the empty list would look like everything was deleted
+        if (!url || !loaded) {
+            setStatus(OFF_SYNC_STATUS);
+            return;
+        }
+        const client = new TaskSyncClient(url, {
+            getTasks: () => tasksRef.current,
+            onRemoteTasks: remoteTasks => {
+                tasksRef.current = remoteTasks;
+                setTasks(remoteTasks);
+            },
+            onStatusChange: setStatus
+        });
+        clientRef.current = client;
+        client.start();
+        return () => {
+            client.dispose();
+            clientRef.current = null;
+        };
+    }, [url, loaded, setTasks]);
+
+    useEffect(() => {
+        clientRef.current?.localChange(tasks);
+    }, [tasks]);
+
+    return status;
+};
@@ -0,0 +1,477 @@
+import { LocalePack } from './types';
+
+const de: LocalePack = {
+    id: 'de',
+    label: 'Deutsch',
+    recognitionLang: 'de-DE',
+
+    patterns: [
+        { intent: 'add', pattern: /füge\s+(?:die\s+)?aufgabe\s+(.+)\s+hinzu/i, weight: 1, slot: 'content' },
+        { intent: 'add', pattern: /neue\s+aufgabe\s+(.+)/i, weight: 0.9, slot: 'content' },
+        { intent: 'add', pattern: /aufgabe\s+hinzufügen\s+(.+)/i, weight: 0.9, slot: 'content' },
+        { intent: 'add', pattern: /füge\s+(.+)\s+hinzu/i, weight: 0.7, slot: 'content', list: true },
+        { intent: 'add', pattern: /notiere\s+(.+)/i, weight: 0.7, slot: 'content', list: true },
+
+        { intent: 'mark', pattern: /markiere\s+(.+)\s+als\s+erledigt/i, weight: 1, slot: 'content' },
+        { intent: 'mark', pattern: /hake\s+(.+)\s+ab/i, weight: 0.9, slot: 'content' },
+        { intent: 'mark', pattern: /(.+)\s+ist\s+erledigt/i, weight: 0.8, slot: 'content' },
+        { intent: 'mark', pattern: /erledige\s+(.+)/i, weight: 0.8, slot: 'content' },
+
+        { intent: 'delete', pattern: /lösche\s+(?:die\s+)?aufgabe\s+(.+)/i, weight: 1, slot: 'content' },
+        { intent: 'delete', pattern: /entferne\s+(?:die\s+)?aufgabe\s+(.+)/i, weight: 0.9, slot: 'content' },
+        { intent: 'delete', pattern: /lösche\s+(.+)/i, weight: 0.7, slot: 'content' },
+        { intent: 'delete', pattern: /entferne\s+(.+)/i, weight: 0.7, slot: 'content' },
+
+        { intent: 'unmark', pattern: /markiere\s+(.+)\s+als\s+(?:nicht\s+erledigt|unerledigt|offen)/i, weight: 1, slot: 'content' },
+        { intent: 'unmark', pattern: /(.+)\s+ist\s+(?:nicht|noch\s+nicht)\s+erledigt/i, weight: 0.8, slot: 'content' },
+        { intent: 'unmark', pattern: /öffne\s+(.+)\s+wieder/i, weight: 0.8, slot: 'content' },
+
+        // Bestehende Aufgaben bearbeiten
+        { intent: 'rename', pattern: /^benenne\s+(.+?)\s+(?:in|zu)\s+(.+?)\s+um$/i, weight: 1, slots: ['content', 'value'] },
+        { intent: 'rename', pattern: /^ändere\s+den\s+(?:namen|text)\s+von\s+(.+?)\s+(?:in|zu|auf)\s+(.+)$/i, weight: 1, slots: ['content', 'value'] },
+        { intent: 'append', pattern: /^hänge\s+(.+?)\s+an\s+(.+?)\s+an$/i, weight: 1, slots: ['value', 'content'] },
+        { intent: 'append', pattern: /^ergänze\s+(.+?)\s+um\s+(.+)$/i, weight: 1, slots: ['content', 'value'] },
+        { intent: 'change', pattern: /^ändere\s+(.+?)\s+(?:auf|zu|in)\s+(.+)$/i, weight: 0.9, slots: ['content', 'value'] },
+        { intent: 'change', pattern: /^verschiebe\s+(.+?)\s+auf\s+(.+)$/i, weight: 0.8, slots: ['content', 'value'] },
+        { intent: 'move', pattern: /^verschiebe\s+(.+?)\s+(?:ganz\s+nach\s+oben|an\s+den\s+anfang)$/i, weight: 1, slot: 'content', position: 'top' },
+        { intent: 'move', pattern: /^verschiebe\s+(.+?)\s+(?:ganz\s+nach\s+unten|ans\s+ende|an\s+das\s+ende)$/i, weight: 1, slot: 'content', position: 'bottom' },
+        { intent: 'move', pattern: /^verschiebe\s+(.+?)\s+nach\s+oben$/i, weight: 0.9, slot: 'content', position: 'up' },
+        { intent: 'move', pattern: /^verschiebe\s+(.+?)\s+nach\s+unten$/i, weight: 0.9, slot: 'content', position: 'down' },
+        { intent: 'move', pattern: /^verschiebe\s+(.+?)\s+auf\s+(?:position|platz|nummer)\s+(\S+)$/i, weight: 1, slots: ['content', 'value'] },
+
+        { intent: 'clear', pattern: /(?:lösche|entferne)\s+alle\s+aufgaben/i, weight: 1 },
+        { intent: 'clear', pattern: /alle\s+aufgaben\s+(?:löschen|entfernen)/i, weight: 1 },
+
+        { intent: 'undo', pattern: /^(?:mach\s+(?:das\s+)?)?rückgängig(?:\s+machen)?$/i, weight: 1 },
+        { intent: 'redo', pattern: /^(?:wiederherstellen|wiederholen)$/i, weight: 1 },
+
+        { intent: 'show', pattern: /^zeig(?:e)?\s+(?:mir\s+)?alle(?:s)?(?:\s+aufgaben)?$/i, weight: 1, view: 'all' },
+        { intent: 'show', pattern: /^zeig(?:e)?\s+(?:mir\s+)?(?:die\s+|meine\s+)?(?:offenen|unerledigten|aktiven)(?:\s+aufgaben)?$/i, weight: 1, view: 'active' },
+        { intent: 'show', pattern: /^was\s+(?:ist|steht)\s+noch\s+(?:offen|an)$/i, weight: 1, view: 'active' },
+        { intent: 'show', pattern: /^zeig(?:e)?\s+(?:mir\s+)?(?:die\s+|meine\s+)?(?:erledigten|abgehakten|fertigen)(?:\s+aufgaben)?$/i, weight: 1, view: 'completed' },
+        { intent: 'show', pattern: /^zeig(?:e)?\s+(?:mir\s+)?(?:die\s+)?(?:heute\s+fälligen\s+aufgaben|aufgaben\s+für\s+heute)$/i, weight: 1, view: 'today' },
+        { intent: 'show', pattern: /^was\s+ist\s+heute\s+fällig$/i, weight: 1, view: 'today' },
+        { intent: 'show', pattern: /^zeig(?:e)?\s+(?:mir\s+)?(?:alle\s+)?aufgaben\s+mit\s+(?:dem\s+)?(?:tag|schlagwort)\s+#?(\S+)$/i, weight: 1, slot: 'content', view: 'tag' },
+        { intent: 'read', pattern: /^lies\s+(?:mir\s+)?(?:meine\s+|die\s+)?(?:aufgaben|liste)(?:\s+vor)?$/i, weight: 1 },
+        { intent: 'read', pattern: /^was\s+steht\s+auf\s+meiner\s+liste$/i, weight: 0.9 },
+        { intent: 'count', pattern: /^wie\s*viele\s+(?:aufgaben\s+)?(?:sind\s+|habe\s+ich\s+)?(?:noch\s+)?(?:offen|übrig)$/i, weight: 1 },
+        { intent: 'count', pattern: /^wie\s*viele\s+aufgaben\s+habe\s+ich(?:\s+noch)?$/i, weight: 0.9 },
+        { intent: 'export', pattern: /^(?:exportiere|sichere)\s+(?:meine\s+|die\s+|alle\s+)?(?:aufgaben|liste)(?:\s+als\s+json)?$/i, weight: 1, format: 'json' },
+        { intent: 'export', pattern: /^lade\s+(?:meine\s+|die\s+|alle\s+)?(?:aufgaben|liste)\s+herunter$/i, weight: 1, format: 'json' },
+        { intent: 'export', pattern: /^exportiere\s+(?:meine\s+|die\s+|alle\s+)?(?:aufgaben|liste)\s+als\s+(?:markdown|checkliste)$/i, weight: 1, format: 'markdown' },
+        { intent: 'export', pattern: /^exportiere\s+(?:meine\s+|die\s+|alle\s+)?(?:aufgaben|liste)\s+(?:als\s+(?:ics|ical|kalender(?:datei)?)|in\s+den\s+kalender)$/i, weight: 1, format: 'ics' },
+
+        { intent: 'confirm', pattern: /^(?:ja|jawohl|bestätigen|mach\s+das)(?:\s+(?:bitte|sicher|alle\s+löschen))?$/i, weight: 1 },
+        { intent: 'cancel', pattern: /^(?:nein|keine|keins|abbrechen|vergiss\s+es|egal)$/i, weight: 1 }
+    ],
+
+    fillerPattern: /^(?:bitte\s+|kannst\s+du\s+|könntest\s+du\s+|okay\s+|ok\s+)+|\s+bitte$/gi,
+
+    numberWords: {
+        eins: 1, ein: 1, eine: 1, zwei: 2, drei: 3, vier: 4, fünf: 5, sechs: 6, sieben: 7, acht: 8, neun: 9, zehn: 10,
+        erste: 1, ersten: 1, erstes: 1, zweite: 2, zweiten: 2, zweites: 2, dritte: 3, dritten: 3, drittes: 3,
+        vierte: 4, vierten: 4, fünfte: 5, fünften: 5, sechste: 6, siebte: 7, achte: 8, neunte: 9, zehnte: 10
+    },
+    numberMishearings: {},
+    stopWords: [
+        'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'und', 'oder', 'zu', 'zum', 'zur',
+        'für', 'mit', 'von', 'vom', 'im', 'am', 'an', 'auf', 'mein', 'meine', 'meinen', 'aufgabe'
+    ],
+
+    lastPattern: /^(?:die\s+|der\s+|das\s+)?letzte[ns]?(?:\s+(?:aufgabe|eintrag))?$/,
+    positionPattern: /^(?:die\s+|der\s+|das\s+)?(?:(?:aufgabe|nummer|punkt|option)\s+)?(?:nummer\s+)?(\S+?)\.?(?:\s+(?:aufgabe|eins))?$/,
+
+    commandSeparator: /\s*,\s*(?:und\s+)?(?:dann\s+)?|\s+(?:und\s+dann|und\s+danach|und|dann|danach|anschließend)\s+/i,
+    listSeparator: /\s*,\s*(?:und\s+)?|\s+und\s+/i,
+
+    taskDetails: {
+        datePrefix: '(?:(?:am|bis|nächsten|kommenden)\\s+)*',
+        relativeDays: { heute: 0, morgen: 1, übermorgen: 2 },
+        weekdays: ['sonntag', 'montag', 'dienstag', 'mittwoch', 'donnerstag', 'freitag', 'samstag'],
+        namedTimes: { mittags: '12:00', 'heute abend': '20:00', 'heute morgen': '09:00' },
+        timePatterns: [
+            /(?:^|\s)um\s+(\d{1,2})(?::(\d{2}))?(?:\s+uhr)?()(?=\s|$)/,
+            /(?:^|\s)(\d{1,2})(?::(\d{2}))?\s+uhr()(?=\s|$)/
+        ],
+        priorities: [
+            { pattern: /(?:^|\s)(?:mit\s+)?hohe[rn]?\s+priorität(?=\s|$)|(?:^|\s)priorität\s+hoch(?=\s|$)|(?:^|\s)dringend(?=\s|$)/, priority: 'high' },
+            { pattern: /(?:^|\s)(?:mit\s+)?mittlere[rn]?\s+priorität(?=\s|$)|(?:^|\s)priorität\s+mittel(?=\s|$)/, priority: 'medium' },
+            { pattern: /(?:^|\s)(?:mit\s+)?niedrige[rn]?\s+priorität(?=\s|$)|(?:^|\s)priorität\s+niedrig(?=\s|$)/, priority: 'low' }
+        ],
+        listPattern: /(?:^|\s)(?:auf|in|zur)\s+(?:die\s+|meine\s+)?(?:liste\s+(\S+)|(\S+?)-?liste)(?=\s|$)/,
+        tagPattern: /(?:^|\s)(?:(?:mit\s+)?(?:tag|schlagwort|hashtag)\s+|#)(\S+)/g
+    },
+
+    grammars: [
+        '#JSGF V1.0; grammar add; public <add> = füge aufgabe [<item>] hinzu;',
+        '#JSGF V1.0; grammar mark; public <mark> = markiere [<item>] als erledigt;',
+        '#JSGF V1.0; grammar delete; public <delete> = lösche aufgabe [<item>];',
+        '#JSGF V1.0; grammar edit; public <edit> = benenne [<item>] in [<item>] um | verschiebe [<item>] ganz nach (oben | unten) | markiere [<item>] als nicht erledigt | ändere [<item>] auf [<item>];',
+        '#JSGF V1.0; grammar clear; public <clear> = lösche alle aufgaben;',
+        '#JSGF V1.0; grammar history; public <history> = rückgängig | wiederherstellen;',
+        '#JSGF V1.0; grammar query; public <query> = zeige (alle | offenen | erledigten) aufgaben | was ist noch offen | lies meine aufgaben vor | wie viele sind noch offen;',
+        '#JSGF V1.0; grammar export; public <export> = exportiere meine aufgaben [als (json | markdown | kalender)];'
+    ],
+
+    wakeWords: ['hallo liste', 'hey liste', 'he liste', 'okay liste'],
+
+    examples: [
+        'Füge Aufgabe Milch kaufen hinzu',
+        'Füge Aufgabe Zahnarzt anrufen morgen um 15 Uhr mit hoher Priorität auf die Liste privat hinzu',
+        'Markiere Milch kaufen als erledigt',
+        'Lösche Aufgabe Milch kaufen',
+        'Markiere Aufgabe 3 als erledigt',
+        'Benenne Milch kaufen in Hafermilch kaufen um / Ergänze Milch kaufen um zwei Liter',
+        'Verschiebe Mama anrufen ganz nach oben / Markiere Einkaufen als nicht erledigt',
+        'Verschiebe Zahnarzt auf Freitag',
+        'Lösche alle Aufgaben',
+        'Rückgängig / Wiederherstellen',
+        'Zeige erledigte Aufgaben / Was ist heute fällig?',
+        'Lies meine Aufgaben vor / Wie viele sind noch offen?',
+        'Exportiere meine Aufgaben / Exportiere meine Aufgaben als Markdown / als Kalender'
+    ],
+
+    messages: {
+        appTitle: 'Sprachgesteuerte To-do-App',
+        voiceCommandsTitle: 'Sprachbefehle (Deutsch)',
+        trySaying: 'Sag zum Beispiel:',
+        listening: 'Ich höre zu... (Sprache: Deutsch)',
+        listeningStopped: 'Zuhören beendet',
+        waitingForWakeWord: wakeWord => `Warte auf „${wakeWord}“… (Sprache: Deutsch)`,
+        wakeWordHeard: 'Ja? Sag einen Befehl',
+        notSupported: 'Spracherkennung wird in diesem Browser nicht unterstützt',
+        notInitialized: 'Spracherkennung ist nicht initialisiert',
+        offlineTypeInstead: 'Du bist offline und diese Spracherkennung braucht eine Verbindung. Tippe deine Befehle stattdessen ein',
+        offline: 'Offline',
+        updateAvailable: 'Eine neue Version der App ist verfügbar.',
+        reload: 'Neu laden',
+        typeCommand: 'Befehl eintippen, z. B. „füge Milch kaufen hinzu“',
+        listeningModeLabel: 'Zuhörmodus',
+        listeningModeOption: (mode, wakeWord) => ({
+            auto: 'Befehle automatisch ausführen',
+            wakeword: `Aktivierungswort („${wakeWord}, …“)`,
+            pushtotalk: 'Gedrückt halten zum Sprechen (Leertaste)',
+            manual: 'Jeden Befehl vor dem Ausführen prüfen'
+        }[mode]),
+        listeningModeHint: (mode, wakeWord) => ({
+            auto: 'Befehle werden ausgeführt, sobald du eine Pause machst.',
+            wakeword: `Beginne jeden Befehl mit „${wakeWord}“. Alles andere wird ignoriert.`,
+            pushtotalk: 'Halte beim Sprechen die Leertaste oder den Mikrofon-Knopf gedrückt',
+            manual: 'Prüfe oder korrigiere das Gehörte und drücke dann den quadratischen Knopf.'
+        }[mode]),
+        holdToTalkButton: 'Zum Sprechen gedrückt halten',
+        startListening: 'Zuhören starten',
+        stopListening: 'Zuhören beenden',
+        microphoneButton: 'Mikrofon',
+        editTranscript: 'Erkannten Text bearbeiten',
+        processCommand: 'Aktuellen Befehl ausführen',
+        commandField: 'Befehl',
+        runTypedCommand: 'Ausführen',
+        languageLabel: 'Sprache',
+        recognizerLabel: 'Spracherkennung',
+        recognizers: {
+            webspeech: {
+                label: 'Browser (Web Speech API)',
+                description: 'Nutzt die Spracherkennung des Browsers. Chrome und Edge schicken die Aufnahme an einen Cloud-Dienst.'
+            },
+            vosk: {
+                label: 'Offline (Vosk)',
+                description: 'Führt ein Sprachmodell im Browser aus. Die Aufnahme verlässt dieses Gerät nie.'
+            },
+            fake: {
+                label: 'Skript-Demo',
+                description: 'Spielt feste Befehle ab, statt zuzuhören. Für Entwicklung und Tests.'
+            }
+        },
+        speechFeedbackLabel: 'Gesprochene Rückmeldung',
+        speechVerbosities: {
+            off: 'Aus',
+            answers: 'Nur Antworten („lies meine Aufgaben vor“)',
+            results: 'Antworten und Ergebnisse von Befehlen',
+            all: 'Alles, auch Statusmeldungen'
+        },
+        voiceLabel: 'Stimme',
+        defaultVoice: 'Standardstimme',
+        speechRate: 'Tempo',
+        statusLabel: 'Status:',
+        speaking: 'Spricht…',
+        speakingHint: 'Spricht; Spracheingaben werden ignoriert, bis die Ansage fertig ist',
+        yes: 'Ja',
+        no: 'Nein',
+        cancel: 'Abbrechen',
+        heard: 'Gehört:',
+        editTranscriptHint: 'Korrigiere den Text oben, falls er falsch erkannt wurde',
+        editText: 'Text bearbeiten',
+        doneEditing: 'Bearbeitung fertig',
+        processCommandButton: 'Befehl ausführen',
+        grammarsReady: 'Grammatiken für Sprachbefehle geladen',
+        grammarsUnavailable: 'Grammatiken werden in diesem Browser nicht unterstützt',
+        recognizerSetupFailed: error => `Spracherkennung konnte nicht eingerichtet werden: ${error}`,
+        recognizerChanged: 'Spracherkennung gewechselt. Drücke das Mikrofon, um zuzuhören',
+        languageChanged: 'Sprache auf Deutsch umgestellt',
+        microphoneBlocked: 'Der Mikrofonzugriff ist blockiert. Erlaube ihn in den Website-Einstellungen (Symbol links neben der Adresse) und drücke dann erneut das Mikrofon',
+        noMicrophone: 'Kein Mikrofon gefunden. Prüfe, ob eines angeschlossen ist und nicht von einer anderen App benutzt wird',
+        languageNotSupported: 'Diese Spracherkennung unterstützt kein Deutsch. Versuche eine andere',
+        recognitionRetrying: (error, seconds) => `Problem bei der Spracherkennung (${error}), neuer Versuch in ${seconds} s…`,
+        recognitionGaveUp: error => `Zuhören nach einem Fehler beendet (${error}). Drücke das Mikrofon, um es erneut zu versuchen`,
+        microphoneLabel: 'Mikrofon:',
+        sessionStates: {
+            idle: 'aus',
+            starting: 'startet…',
+            listening: 'hört zu',
+            processing: 'hört einen Befehl',
+            error: 'nach einem Fehler gestoppt',
+            restarting: 'verbindet neu…'
+        },
+
+        commandProcessed: 'Befehl ausgeführt',
+        noCommand: 'Kein Befehl zum Ausführen',
+        commandCancelled: 'Befehl abgebrochen',
+        didYouMean: 'Meintest du…?',
+        unrecognized: transcript => `Befehl nicht erkannt: „${transcript}“`,
+
+        added: content => `Aufgabe hinzugefügt: „${content}“`,
+        addedItems: items => `${items.length} Aufgaben hinzugefügt: ${items.map(item => `„${item}“`).join(', ')}`,
+        noAddContent: 'Kein Aufgabentext angegeben',
+        marked: content => `„${content}“ als erledigt markiert`,
+        noMarkTarget: 'Keine Aufgabe zum Abhaken angegeben',
+        deleted: content => `„${content}“ gelöscht`,
+        unmarked: content => `„${content}“ als nicht erledigt markiert`,
+        renamed: (from, to) => `„${from}“ in „${to}“ umbenannt`,
+        updated: content => `Aufgabe geändert in „${content}“`,
+        moved: (content, position) => `„${content}“ an Position ${position} verschoben`,
+        noMoveTarget: 'Sag, wohin die Aufgabe soll, z. B. „ganz nach oben“ oder „auf Position 2“',
+        noDeleteTarget: 'Keine Aufgabe zum Löschen angegeben',
+        noMatch: spoken => `Keine Aufgabe passt zu „${spoken}“`,
+        whichOne: options => `Welche: ${options.map((option, index) => `${index + 1}) ${option}`).join(' oder ')}?`,
+        whichTaskPrompt: spoken => `Welche Aufgabe meinst du mit „${spoken}“? Sag oder klicke eine Nummer.`,
+
+        nothingToClear: 'Es gibt keine Aufgaben zum Löschen',
+        confirmClearPrompt: count => `Alle ${count} Aufgaben löschen? Sag „ja“ zum Bestätigen oder „nein“ zum Abbrechen.`,
+        confirmClear: count => `Alle ${count} Aufgaben löschen? Sag „ja“ zum Bestätigen`,
+        cleared: 'Alle Aufgaben gelöscht. Sag „rückgängig“, um sie zurückzuholen',
+        nothingToConfirm: 'Es gibt nichts zu bestätigen',
+
+        undone: label => `Rückgängig gemacht: ${label}`,
+        nothingToUndo: 'Nichts rückgängig zu machen',
+        redone: label => `Wiederhergestellt: ${label}`,
+        nothingToRedo: 'Nichts wiederherzustellen',
+
+        commandSummary: (messages, skipped) =>
+            messages.join('. ') + (skipped > 0 ? ` (${skipped} ${skipped === 1 ? 'weiterer Befehl' : 'weitere Befehle'} nicht ausgeführt)` : ''),
+
+        historyAdd: content => `„${content}“ hinzufügen`,
+        historyMark: (content, completed) => `„${content}“ als ${completed ? 'erledigt' : 'offen'} markieren`,
+        historyDelete: content => `„${content}“ löschen`,
+        historyEdit: content => `„${content}“ bearbeiten`,
+        historyMove: content => `„${content}“ verschieben`,
+        historyImport: count => `${count} ${count === 1 ? 'Aufgabe' : 'Aufgaben'} importieren`,
+        historyClear: 'Alle Aufgaben löschen',
+
+        showing: (view, tag) => {
+            switch (view) {
+                case 'active':
+                    return 'Offene Aufgaben werden angezeigt';
+                case 'completed':
+                    return 'Erledigte Aufgaben werden angezeigt';
+                case 'today':
+                    return 'Heute fällige Aufgaben werden angezeigt';
+                case 'tag':
+                    return `Aufgaben mit dem Tag „${tag}“ werden angezeigt`;
+                default:
+                    return 'Alle Aufgaben werden angezeigt';
+            }
+        },
+        unknownTag: tag => `Keine Aufgabe hat den Tag „${tag}“`,
+        nothingToRead: 'Es gibt keine Aufgaben zum Vorlesen',
+        readTasks: items => `${items.length === 1 ? 'Eine Aufgabe' : `${items.length} Aufgaben`}: ${items
+            .map(task => (task.completed ? `${task.content}, erledigt` : task.content))
+            .join('; ')}.`,
+        tasksLeft: (left, total) => (left === 0
+            ? (total === 0 ? 'Du hast keine Aufgaben' : `Alle ${total} Aufgaben sind erledigt`)
+            : `${left} von ${total} ${total === 1 ? 'Aufgabe' : 'Aufgaben'} offen`),
+
+        exported: (count, format) => `${count} ${count === 1 ? 'Aufgabe' : 'Aufgaben'} als ${{ json: 'JSON', markdown: 'Markdown-Checkliste', ics: 'Kalenderdatei' }[format]} heruntergeladen`,
+        nothingToExport: 'Es gibt keine Aufgaben zum Exportieren',
+        imported: (added, duplicates) => (added === 0 && duplicates === 0
+            ? 'Keine Aufgaben in der Datei gefunden'
+            : `${added} ${added === 1 ? 'Aufgabe' : 'Aufgaben'} importiert${duplicates > 0 ? `, ${duplicates} schon vorhandene übersprungen` : ''}`),
+        unknownFileFormat: fileName => `„${fileName}“ kann nicht importiert werden. Verwende eine JSON-, Markdown- oder .ics-Datei`,
+        importFailed: error => `Import fehlgeschlagen: ${error}`,
+
+        tasksTitle: count => `Aufgaben (${count})`,
+        tasksLabel: 'Aufgaben',
+        exportLabel: 'Aufgaben exportieren',
+        exportPlaceholder: 'Exportieren…',
+        exportFormats: { json: 'JSON (Sicherung)', markdown: 'Markdown-Checkliste', ics: 'Kalender (.ics)' },
+        importTitle: 'Aufgaben aus einer JSON-, Markdown- oder .ics-Datei importieren',
+        importLabel: 'Aufgaben aus einer Datei importieren',
+        undoButton: 'Rückgängig',
+        redoButton: 'Wiederherstellen',
+        sortLabel: 'Aufgaben sortieren',
+        sorts: { created: 'Sortierung: eigene', due: 'Sortierung: Fälligkeit', priority: 'Sortierung: Priorität', content: 'Sortierung: Name' },
+        statusFilterLabel: 'Nach Status filtern',
+        statusFilters: { all: 'Alle Aufgaben', active: 'Offen', completed: 'Erledigt' },
+        listFilterLabel: 'Nach Liste filtern',
+        allLists: 'Alle Listen',
+        tagFilterLabel: 'Nach Tag filtern',
+        allTags: 'Alle Tags',
+        priorityFilterLabel: 'Nach Priorität filtern',
+        anyPriority: 'Jede Priorität',
+        priorities: { high: 'Hoch', medium: 'Mittel', low: 'Niedrig' },
+        overdueOnly: 'Nur überfällige',
+        dueToday: 'Heute fällig',
+        loadingTasks: 'Gespeicherte Aufgaben werden geladen...',
+        noTasks: 'Noch keine Aufgaben. Füge eine mit deiner Stimme hinzu!',
+        noMatchingTasks: 'Keine Aufgabe passt zu den aktuellen Filtern.',
+
+        toggleTask: content => `„${content}“ als erledigt markieren`,
+        moveTask: content => `„${content}“ verschieben`,
+        moveTaskHint: 'Ziehen oder mit den Pfeiltasten nach oben und unten verschieben',
+        editTask: content => `„${content}“ bearbeiten`,
+        editTaskTitle: 'Aufgabe bearbeiten',
+        deleteTask: content => `„${content}“ löschen`,
+        deleteTaskTitle: 'Aufgabe löschen',
+        taskText: 'Aufgabentext',
+        taskDone: '(erledigt)',
+        overdue: 'überfällig',
+        priorityBadges: { high: 'hohe Priorität', medium: 'mittlere Priorität', low: 'niedrige Priorität' },
+
+        syncServerLabel: 'Sync-Server',
+        syncServerPlaceholder: 'https://tasks.example.com/api (leer lassen, um Aufgaben nur auf diesem Gerät zu behalten)',
+        invalidSyncUrl: 'Gib eine http://- oder https://-Adresse ein.',
+        syncStates: {
+            off: 'nicht synchronisiert',
+            syncing: 'synchronisiert…',
+            synced: 'synchronisiert',
+            offline: 'offline, Änderungen bleiben erhalten',
+            error: 'Synchronisierung fehlgeschlagen, neuer Versuch'
+        },
+        syncPending: count => `${count} ausstehend`,
+        lastSynced: time => `Zuletzt synchronisiert um ${time}`,
+
+        customCommandsTitle: count => `Eigene Befehle (${count})`,
+        synonymsTitle: 'Eigene Formulierungen',
+        synonymsHelp: 'Andere Wörter für einen eingebauten Befehl. Ein „*“ steht für das, was du dort sagst, z. B. „hak * ab“, ' +
+            'um eine Aufgabe zu erledigen. Befehle für eine Aufgabe können stattdessen eine feste nennen, etwa „die letzte Aufgabe“.',
+        synonymIntents: {
+            add: 'Aufgabe hinzufügen',
+            mark: 'Aufgabe als erledigt markieren',
+            unmark: 'Aufgabe als nicht erledigt markieren',
+            delete: 'Aufgabe löschen',
+            rename: 'Aufgabe umbenennen',
+            append: 'Text an eine Aufgabe anhängen',
+            change: 'Details einer Aufgabe ändern',
+            clear: 'Alle Aufgaben löschen',
+            undo: 'Rückgängig',
+            redo: 'Wiederherstellen',
+            read: 'Aufgaben vorlesen',
+            count: 'Offene Aufgaben zählen',
+            export: 'Aufgaben exportieren'
+        },
+        synonymPhraseLabel: 'Formulierung',
+        synonymPhrasePlaceholder: 'z. B. vergiss das',
+        synonymIntentLabel: 'Eingebauter Befehl',
+        fixedTaskLabel: 'Feste Aufgabe',
+        fixedTaskPlaceholder: intent => (intent === 'add' ? 'Neue Aufgabe, falls die Formulierung kein „*“ hat' : 'Welche Aufgabe, z. B. die letzte Aufgabe'),
+        addSynonym: 'Hinzufügen',
+        macrosTitle: 'Makros',
+        macrosHelp: 'Eine Formulierung, die mehrere Befehle nacheinander ausführt, z. B. „Morgenroutine“.',
+        macroCommandCount: count => `${count} ${count === 1 ? 'Befehl' : 'Befehle'}`,
+        macroPhraseLabel: 'Formulierung des Makros',
+        macroPhrasePlaceholder: 'z. B. Morgenroutine',
+        macroCommandsLabel: 'Befehle des Makros',
+        macroCommandsPlaceholder: 'Ein Befehl pro Zeile, z. B.\nfüge Bett machen hinzu\nfüge zehn Minuten dehnen hinzu',
+        addMacro: 'Makro hinzufügen',
+        removeCustomCommand: phrase => `„${phrase}“ entfernen`,
+        phraseMissing: 'Gib die Wörter ein, die du sagen willst.',
+        phraseHasReservedCharacters: 'Verwende nur Buchstaben, Ziffern, Leerzeichen, Apostrophe und „*“.',
+        wildcardNotAlone: 'Setze „*“ allein, mit Leerzeichen davor und danach.',
+        phraseSplits: 'Die Formulierung würde in mehrere Befehle geteilt; lass Wörter wie „und“ oder „dann“ weg.',
+        phraseTaken: phrase => `„${phrase}“ ist schon ein eigener Befehl.`,
+        takesNoTask: 'Dieser Befehl braucht keine Aufgabe.',
+        takesNoWildcard: 'Dieser Befehl hat kein „*“.',
+        wildcardsNeeded: count => `Verwende ${count === 1 ? 'ein „*“' : `${count} „*“`} für ${count === 1 ? 'den Text' : 'die Texte'}, die dieser Befehl braucht.`,
+        macroHasWildcard: 'Makros können kein „*“ enthalten.',
+        macroEmpty: 'Gib mindestens einen Befehl ein.',
+        macroTooLong: max => `Ein Makro kann höchstens ${max} Befehle ausführen.`,
+        notACommand: command => `„${command}“ ist kein Befehl.`,
+
+        shortcutsTitle: 'Tastenkürzel',
+        shortcuts: {
+            microphone: 'Mikrofon ein- oder ausschalten',
+            typeCommand: 'Befehl eintippen',
+            runCommand: 'Gehörten Befehl ausführen',
+            cancel: 'Aktuellen Befehl oder aktuelle Frage abbrechen',
+            undoRedo: 'Rückgängig / wiederherstellen',
+            moveTask: 'Am Verschiebe-Griff einer Aufgabe: Aufgabe verschieben'
+        },
+
+        commandLogTitle: count => `Befehlsprotokoll (${count})`,
+        commandLogEmpty: 'Noch keine Befehle. Gesprochene und getippte Befehle erscheinen hier.',
+        commandStatsTitle: 'Statistik',
+        commandStats: { total: 'Befehle', recognized: 'Erkannt', succeeded: 'Ausgeführt' },
+        failingMostOften: 'Am häufigsten fehlgeschlagen:',
+        pastCommandsTitle: 'Befehle',
+        pastCommandsLabel: 'Bisherige Befehle, neueste zuerst',
+        clearLog: 'Protokoll leeren',
+        commandSources: { voice: 'gesprochen', edited: 'korrigiert', typed: 'getippt', replay: 'wiederholt' },
+        commandOutcomes: { done: 'ausgeführt', asked: 'nachgefragt', failed: 'fehlgeschlagen', unrecognized: 'nicht erkannt' },
+        heardConfidence: percent => `zu ${percent} sicher`,
+        alsoHeard: 'Auch gehört',
+        runAgain: 'Erneut ausführen',
+        runAgainLabel: transcript => `„${transcript}“ erneut ausführen`,
+        runAgainOtherLanguage: language => `Auf ${language} gesagt. Wechsle zu ${language}, um es erneut auszuführen`,
+        correctCommand: 'Korrigieren und ausführen',
+        correctCommandLabel: transcript => `„${transcript}“ korrigieren`,
+
+        describeIntent: (type, content, { value, view, position, format }) => {
+            switch (type) {
+                case 'add':
+                    return `Aufgabe „${content}“ hinzufügen`;
+                case 'mark':
+                    return `„${content}“ als erledigt markieren`;
+                case 'delete':
+                    return `„${content}“ löschen`;
+                case 'unmark':
+                    return `„${content}“ als nicht erledigt markieren`;
+                case 'rename':
+                    return `„${content}“ in „${value}“ umbenennen`;
+                case 'append':
+                    return `„${content}“ um „${value}“ ergänzen`;
+                case 'change':
+                    return `„${content}“ auf „${value}“ ändern`;
+                case 'move':
+                    return `„${content}“ ${position
+                        ? { top: 'ganz nach oben', bottom: 'ganz nach unten', up: 'nach oben', down: 'nach unten' }[position]
+                        : `auf Position ${value}`} verschieben`;
+                case 'clear':
+                    return 'Alle Aufgaben löschen';
+                case 'undo':
+                    return 'Rückgängig';
+                case 'redo':
+                    return 'Wiederherstellen';
+                case 'show':
+                    return view === 'tag'
+                        ? `Aufgaben mit dem Tag „${content}“ zeigen`
+                        : `${{ all: 'Alle', active: 'Offene', completed: 'Erledigte', today: 'Heute fällige' }[view || 'all']} Aufgaben zeigen`;
+                case 'read':
+                    return 'Aufgaben vorlesen';
+                case 'count':
+                    return 'Wie viele sind noch offen';
+                case 'export':
+                    return `Aufgaben als ${{ json: 'JSON', markdown: 'Markdown', ics: 'Kalender' }[format || 'json']} exportieren`;
+                case 'macro':
+                    return `„${content}“ ausführen`;
+                case 'confirm':
+                    return 'Ja';
+                case 'cancel':
+                    return 'Abbrechen';
+                default:
+                    return content;
+            }
+        }
+    }
+};
+
+export default de;
@@ -0,0 +1,474 @@
+import { LocalePack } from './types';
+
+const en: LocalePack = {
+    id: 'en',
+    label: 'English',
+    recognitionLang: 'en-US',
+
+    patterns: [
+        { intent: 'add', pattern: /add\s+task\s+(.+)/i, weight: 1, slot: 'content' },
+        { intent: 'add', pattern: /create\s+task\s+(.+)/i, weight: 0.9, slot: 'content' },
+        { intent: 'add', pattern: /new\s+task\s+(.+)/i, weight: 0.9, slot: 'content' },
+        { intent: 'add', pattern: /add\s+(.+)/i, weight: 0.7, slot: 'content', list: true },
+
+        { intent: 'mark', pattern: /mark\s+(.+)\s+as\s+done/i, weight: 1, slot: 'content' },
+        { intent: 'mark', pattern: /check\s+off\s+(.+)/i, weight: 0.9, slot: 'content' },
+        { intent: 'mark', pattern: /complete\s+(.+)/i, weight: 0.8, slot: 'content' },
+        { intent: 'mark', pattern: /finish\s+(.+)/i, weight: 0.8, slot: 'content' },
+
+        { intent: 'delete', pattern: /delete\s+task\s+(.+)/i, weight: 1, slot: 'content' },
+        { intent: 'delete', pattern: /remove\s+task\s+(.+)/i, weight: 0.9, slot: 'content' },
+        { intent: 'delete', pattern: /delete\s+(.+)/i, weight: 0.7, slot: 'content' },
+        { intent: 'delete', pattern: /remove\s+(.+)/i, weight: 0.7, slot: 'content' },
+
+        { intent: 'unmark', pattern: /mark\s+(.+)\s+as\s+(?:not\s+done|undone|incomplete|unfinished|open)/i, weight: 1, slot: 'content' },
+        { intent: 'unmark', pattern: /uncheck\s+(.+)/i, weight: 0.9, slot: 'content' },
+        { intent: 'unmark', pattern: /reopen\s+(.+)/i, weight: 0.8, slot: 'content' },
+
+        // Editing existing tasks
+        { intent: 'rename', pattern: /^rename\s+(.+?)\s+(?:to|as)\s+(.+)$/i, weight: 1, slots: ['content', 'value'] },
+        { intent: 'rename', pattern: /^change\s+the\s+(?:name|text)\s+of\s+(.+?)\s+to\s+(.+)$/i, weight: 1, slots: ['content', 'value'] },
+        { intent: 'append', pattern: /^append\s+(.+?)\s+to\s+(.+)$/i, weight: 1, slots: ['value', 'content'] },
+        { intent: 'append', pattern: /^add\s+(.+?)\s+to\s+the\s+end\s+of\s+(.+)$/i, weight: 1, slots: ['value', 'content'] },
+        { intent: 'change', pattern: /^change\s+(.+?)\s+to\s+(.+)$/i, weight: 0.9, slots: ['content', 'value'] },
+        { intent: 'change', pattern: /^(?:reschedule|postpone)\s+(.+?)\s+(?:to|for|until)\s+(.+)$/i, weight: 1, slots: ['content', 'value'] },
+        { intent: 'move', pattern: /^move\s+(.+?)\s+to\s+the\s+(?:top|start|beginning)(?:\s+of\s+the\s+list)?$/i, weight: 1, slot: 'content', position: 'top' },
+        { intent: 'move', pattern: /^move\s+(.+?)\s+to\s+the\s+(?:bottom|end)(?:\s+of\s+the\s+list)?$/i, weight: 1, slot: 'content', position: 'bottom' },
+        { intent: 'move', pattern: /^move\s+(.+?)\s+up$/i, weight: 1, slot: 'content', position: 'up' },
+        { intent: 'move', pattern: /^move\s+(.+?)\s+down$/i, weight: 1, slot: 'content', position: 'down' },
+        { intent: 'move', pattern: /^move\s+(.+?)\s+to\s+(?:position|number|place)\s+(\S+)$/i, weight: 1, slots: ['content', 'value'] },
+
+        { intent: 'clear', pattern: /clear\s+all\s+tasks/i, weight: 1 },
+        { intent: 'clear', pattern: /(?:delete|remove)\s+all\s+tasks/i, weight: 1 },
+        { intent: 'clear', pattern: /clear\s+tasks/i, weight: 0.9 },
+
+        { intent: 'undo', pattern: /^undo(?:\s+that|\s+last(?:\s+change)?)?$/i, weight: 1 },
+        { intent: 'undo', pattern: /^take\s+(?:that|it)\s+back$/i, weight: 0.9 },
+        { intent: 'redo', pattern: /^redo(?:\s+that|\s+last(?:\s+change)?)?$/i, weight: 1 },
+
+        // Queries that change which tasks are shown, or read them back
+        { intent: 'show', pattern: /^(?:show|list|display)\s+(?:me\s+)?(?:all|everything)(?:\s+(?:my\s+)?tasks)?$/i, weight: 1, view: 'all' },
+        { intent: 'show', pattern: /^(?:show|list|display)\s+(?:me\s+)?(?:the\s+|my\s+)?(?:active|open|remaining|unfinished|pending)(?:\s+tasks)?$/i, weight: 1, view: 'active' },
+        { intent: 'show', pattern: /^what(?:'?s|\s+is)\s+(?:still\s+)?left(?:\s+to\s+do)?$/i, weight: 1, view: 'active' },
+        { intent: 'show', pattern: /^(?:show|list|display)\s+(?:me\s+)?(?:the\s+|my\s+)?(?:completed|finished|done)(?:\s+tasks)?$/i, weight: 1, view: 'completed' },
+        { intent: 'show', pattern: /^(?:show|list|display)\s+(?:me\s+)?(?:what(?:'?s|\s+is)\s+|(?:the\s+)?tasks\s+|everything\s+)?due\s+today$/i, weight: 1, view: 'today' },
+        { intent: 'show', pattern: /^(?:show|list|display)\s+(?:me\s+)?today'?s\s+tasks$/i, weight: 1, view: 'today' },
+        { intent: 'show', pattern: /^what(?:'?s|\s+is)\s+due\s+today$/i, weight: 1, view: 'today' },
+        { intent: 'show', pattern: /^(?:show|list|display)\s+(?:me\s+)?(?:the\s+|my\s+)?(?:tasks|everything|items)\s+(?:tagged|with\s+(?:the\s+)?tag)\s+(?:with\s+)?#?(\S+)$/i, weight: 1, slot: 'content', view: 'tag' },
+        { intent: 'read', pattern: /^read\s+(?:me\s+)?(?:out\s+)?(?:my\s+|the\s+)?(?:tasks|list|to-?dos?(?:\s+list)?)(?:\s+(?:out|to\s+me))?$/i, weight: 1 },
+        { intent: 'read', pattern: /^what(?:'?s|\s+is)\s+on\s+my\s+(?:list|to-?do\s+list)$/i, weight: 0.9 },
+        { intent: 'read', pattern: /^what\s+are\s+my\s+tasks$/i, weight: 0.9 },
+        { intent: 'count', pattern: /^how\s+many\s+(?:tasks\s+)?(?:are\s+|do\s+i\s+have\s+)?(?:still\s+)?left(?:\s+to\s+do)?$/i, weight: 1 },
+        { intent: 'count', pattern: /^how\s+many\s+tasks(?:\s+do\s+i\s+have)?$/i, weight: 0.9 },
+        { intent: 'export', pattern: /^(?:export|download|back\s+up)\s+(?:my\s+|the\s+|all\s+)?(?:tasks|list|to-?dos?)(?:\s+(?:as|to)\s+(?:json|a\s+backup))?$/i, weight: 1, format: 'json' },
+        { intent: 'export', pattern: /^(?:export|download)\s+(?:my\s+|the\s+|all\s+)?(?:tasks|list|to-?dos?)\s+(?:as|to)\s+(?:a\s+)?(?:markdown|checklist|markdown\s+checklist)$/i, weight: 1, format: 'markdown' },
+        { intent: 'export', pattern: /^(?:export|download)\s+(?:my\s+|the\s+|all\s+)?(?:tasks|list|to-?dos?)\s+(?:as|to)\s+(?:an?\s+|my\s+)?(?:ics|ical|icalendar|calendar)(?:\s+file)?$/i, weight: 1, format: 'ics' },
+
+        // Answers to "are you sure?" prompts
+        { intent: 'confirm', pattern: /^(?:yes|yeah|yep|confirm|do\s+it)(?:\s+(?:i'?m\s+sure|do\s+it|clear\s+(?:them|it|all(?:\s+tasks)?)))?$/i, weight: 1 },
+        { intent: 'cancel', pattern: /^(?:no|nope|none|neither|cancel|never\s*mind|forget\s+it)(?:\s+thanks)?$/i, weight: 1 }
+    ],
+
+    fillerPattern: /^(?:please\s+|can\s+you\s+|could\s+you\s+|ok(?:ay)?\s+)+|\s+please$/gi,
+
+    numberWords: {
+        one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+        first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10
+    },
+    numberMishearings: { won: 1, to: 2, too: 2, for: 4 },
+    stopWords: ['a', 'an', 'the', 'to', 'of', 'for', 'and', 'or', 'in', 'on', 'at', 'by', 'with', 'from', 'my', 'our', 'your', 'task', 'one'],
+
+    lastPattern: /^(?:the\s+)?(?:very\s+)?last(?:\s+(?:one|task|item))?$/,
+    positionPattern: /^(?:the\s+)?(?:(?:task|item|number|option)\s+)?(?:number\s+)?(\S+)(?:\s+(?:one|task|item))?$/,
+
+    commandSeparator: /\s*,\s*(?:and\s+)?(?:then\s+)?|\s+(?:and\s+then|and|then|after\s+that)\s+/i,
+    listSeparator: /\s*,\s*(?:and\s+)?|\s+and\s+/i,
+
+    taskDetails: {
+        datePrefix: '(?:(?:on|next|this|by|due)\\s+)*',
+        relativeDays: { today: 0, tomorrow: 1, 'day after tomorrow': 2 },
+        weekdays: ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'],
+        namedTimes: { noon: '12:00', tonight: '20:00', 'this evening': '18:00', 'this morning': '09:00' },
+        timePatterns: [
+            /(?:^|\s)(?:at|by)\s+(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?(?=\s|$)/,
+            /(?:^|\s)(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)(?=\s|$)/
+        ],
+        priorities: [
+            { pattern: /(?:^|\s)(?:with\s+)?(?:high|top)\s+priority(?=\s|$)|(?:^|\s)priority\s+high(?=\s|$)/, priority: 'high' },
+            { pattern: /(?:^|\s)(?:with\s+)?(?:medium|normal)\s+priority(?=\s|$)|(?:^|\s)priority\s+medium(?=\s|$)/, priority: 'medium' },
+            { pattern: /(?:^|\s)(?:with\s+)?low\s+priority(?=\s|$)|(?:^|\s)priority\s+low(?=\s|$)/, priority: 'low' }
+        ],
+        listPattern: /(?:^|\s)(?:to|on|in|for)\s+(?:the\s+|my\s+)?(\S+(?:\s+\S+)?)\s+list(?=\s|$)/,
+        tagPattern: /(?:^|\s)(?:(?:tag(?:ged)?(?:\s+with)?|hashtag)\s+|#)(\S+)/g
+    },
+
+    grammars: [
+        '#JSGF V1.0; grammar add; public <add> = add task [<item>];',
+        '#JSGF V1.0; grammar mark; public <mark> = mark [<item>] as done;',
+        '#JSGF V1.0; grammar delete; public <delete> = delete task [<item>];',
+        '#JSGF V1.0; grammar edit; public <edit> = rename [<item>] to [<item>] | move [<item>] to the (top | bottom) | mark [<item>] as not done | change [<item>] to [<item>];',
+        '#JSGF V1.0; grammar clear; public <clear> = clear all tasks;',
+        '#JSGF V1.0; grammar history; public <history> = undo | redo;',
+        '#JSGF V1.0; grammar query; public <query> = show (all | active | completed) tasks | what\'s left | read my tasks | how many are left;',
+        '#JSGF V1.0; grammar export; public <export> = export my tasks [as (json | markdown | calendar)];'
+    ],
+
+    // Recognizers often hear "hay" or "hey lists"
+    wakeWords: ['hey list', 'hey lists', 'hay list', 'okay list', 'ok list'],
+
+    examples: [
+        'Add task buy groceries',
+        'Add task call the dentist tomorrow at 3pm high priority to the personal list',
+        'Mark buy groceries as done',
+        'Delete task buy groceries',
+        'Mark task 3 as done',
+        'Rename buy milk to buy oat milk / Append two liters to buy milk',
+        'Move call mom to the top / Mark groceries as not done',
+        'Change dentist to Friday',
+        'Clear all tasks',
+        'Undo / Redo',
+        'Show completed tasks / What\'s due today?',
+        'Read my tasks / How many are left?',
+        'Export my tasks / Export my tasks as markdown / as a calendar'
+    ],
+
+    messages: {
+        appTitle: 'Voice-Controlled To-Do App',
+        voiceCommandsTitle: 'Voice Commands (English)',
+        trySaying: 'Try saying:',
+        listening: 'Listening... (Language: English)',
+        listeningStopped: 'Listening stopped',
+        waitingForWakeWord: wakeWord => `Waiting for "${wakeWord}"… (Language: English)`,
+        wakeWordHeard: 'Yes? Say a command',
+        notSupported: 'Speech recognition not supported in this browser',
+        notInitialized: 'Speech recognition not initialized',
+        offlineTypeInstead: 'You\'re offline and this recognizer needs a connection. Type your commands instead',
+        offline: 'Offline',
+        updateAvailable: 'A new version of the app is available.',
+        reload: 'Reload',
+        typeCommand: 'Type a command, e.g. "add buy milk"',
+        listeningModeLabel: 'Listening mode',
+        listeningModeOption: (mode, wakeWord) => ({
+            auto: 'Run commands automatically',
+            wakeword: `Wake word ("${wakeWord}, …")`,
+            pushtotalk: 'Push to talk (hold space)',
+            manual: 'Review each command before running it'
+        }[mode]),
+        listeningModeHint: (mode, wakeWord) => ({
+            auto: 'Commands run when you pause.',
+            wakeword: `Start each command with "${wakeWord}". Everything else is ignored.`,
+            pushtotalk: 'Hold the space bar or the microphone button while you speak',
+            manual: 'Check or edit what was heard, then press the square button.'
+        }[mode]),
+        holdToTalkButton: 'Hold to talk',
+        startListening: 'Start listening',
+        stopListening: 'Stop listening',
+        microphoneButton: 'Microphone',
+        editTranscript: 'Edit recognized text',
+        processCommand: 'Process current command',
+        commandField: 'Command',
+        runTypedCommand: 'Run',
+        languageLabel: 'Language',
+        recognizerLabel: 'Speech recognizer',
+        recognizers: {
+            webspeech: {
+                label: 'Browser (Web Speech API)',
+                description: 'Uses the browser\'s recognizer. Chrome and Edge send audio to a cloud service.'
+            },
+            vosk: {
+                label: 'Offline (Vosk)',
+                description: 'Runs a speech model inside the browser. Audio never leaves this device.'
+            },
+            fake: {
+                label: 'Scripted demo',
+                description: 'Plays back a fixed set of commands instead of listening. For development and tests.'
+            }
+        },
+        speechFeedbackLabel: 'Spoken feedback',
+        speechVerbosities: {
+            off: 'Off',
+            answers: 'Answers only ("read my tasks")',
+            results: 'Answers and command results',
+            all: 'Everything, including status messages'
+        },
+        voiceLabel: 'Voice',
+        defaultVoice: 'Default voice',
+        speechRate: 'Rate',
+        statusLabel: 'Status:',
+        speaking: 'Speaking…',
+        speakingHint: 'Speaking; voice input is ignored until it finishes',
+        yes: 'Yes',
+        no: 'No',
+        cancel: 'Cancel',
+        heard: 'Heard:',
+        editTranscriptHint: 'Edit the text above if the recognition wasn\'t accurate',
+        editText: 'Edit Text',
+        doneEditing: 'Done Editing',
+        processCommandButton: 'Process Command',
+        grammarsReady: 'Voice command grammars initialized',
+        grammarsUnavailable: 'Grammar support not available in this browser',
+        recognizerSetupFailed: error => `Couldn't set up speech recognition: ${error}`,
+        recognizerChanged: 'Speech recognizer changed. Press the microphone to start listening',
+        languageChanged: 'Language changed to English',
+        microphoneBlocked: 'Microphone access is blocked. Allow it in the site settings (the icon left of the address), then press the microphone again',
+        noMicrophone: 'No microphone found. Check that one is connected and not used by another app',
+        languageNotSupported: 'This speech recognizer doesn\'t support English. Try another recognizer',
+        recognitionRetrying: (error, seconds) => `Speech recognition problem (${error}), trying again in ${seconds}s…`,
+        recognitionGaveUp: error => `Listening stopped after an error (${error}). Press the microphone to try again`,
+        microphoneLabel: 'Microphone:',
+        sessionStates: {
+            idle: 'off',
+            starting: 'starting…',
+            listening: 'listening',
+            processing: 'hearing a command',
+            error: 'stopped after an error',
+            restarting: 'reconnecting…'
+        },
+
+        commandProcessed: 'Command processed',
+        noCommand: 'No command to process',
+        commandCancelled: 'Command cancelled',
+        didYouMean: 'Did you mean…?',
+        unrecognized: transcript => `Didn't recognize command: "${transcript}"`,
+
+        added: content => `Added task: "${content}"`,
+        addedItems: items => `Added ${items.length} tasks: ${items.map(item => `"${item}"`).join(', ')}`,
+        noAddContent: 'No task content specified',
+        marked: content => `Marked "${content}" as done`,
+        noMarkTarget: 'No task specified to mark as done',
+        deleted: content => `Deleted "${content}"`,
+        noDeleteTarget: 'No task specified to delete',
+        unmarked: content => `Marked "${content}" as not done`,
+        renamed: (from, to) => `Renamed "${from}" to "${to}"`,
+        updated: content => `Changed task to "${content}"`,
+        moved: (content, position) => `Moved "${content}" to position ${position}`,
+        noMoveTarget: 'Say where to move the task, e.g. "to the top" or "to position 2"',
+        noMatch: spoken => `No task found matching "${spoken}"`,
+        whichOne: options => `Which one: ${options.map((option, index) => `${index + 1}) ${option}`).join(' or ')}?`,
+        whichTaskPrompt: spoken => `Which task did you mean by "${spoken}"? Say or click a number.`,
+
+        nothingToClear: 'There are no tasks to clear',
+        confirmClearPrompt: count => `Clear all ${count} tasks? Say "yes" to confirm or "no" to cancel.`,
+        confirmClear: count => `Clear all ${count} tasks? Say "yes" to confirm`,
+        cleared: 'All tasks cleared. Say "undo" to bring them back',
+        nothingToConfirm: 'Nothing to confirm',
+
+        undone: label => `Undone: ${label}`,
+        nothingToUndo: 'Nothing to undo',
+        redone: label => `Redone: ${label}`,
+        nothingToRedo: 'Nothing to redo',
+
+        commandSummary: (messages, skipped) =>
+            messages.join('. ') + (skipped > 0 ? ` (${skipped} more ${skipped === 1 ? 'command' : 'commands'} not run)` : ''),
+
+        historyAdd: content => `Add "${content}"`,
+        historyMark: (content, completed) => `Mark "${content}" as ${completed ? 'done' : 'not done'}`,
+        historyDelete: content => `Delete "${content}"`,
+        historyEdit: content => `Edit "${content}"`,
+        historyMove: content => `Move "${content}"`,
+        historyImport: count => `Import ${count} ${count === 1 ? 'task' : 'tasks'}`,
+        historyClear: 'Clear all tasks',
+
+        showing: (view, tag) => {
+            switch (view) {
+                case 'active':
+                    return 'Showing tasks still to do';
+                case 'completed':
+                    return 'Showing completed tasks';
+                case 'today':
+                    return 'Showing tasks due today';
+                case 'tag':
+                    return `Showing tasks tagged "${tag}"`;
+                default:
+                    return 'Showing all tasks';
+            }
+        },
+        unknownTag: tag => `No tasks are tagged "${tag}"`,
+        nothingToRead: 'There are no tasks to read',
+        readTasks: items => `${items.length === 1 ? 'One task' : `${items.length} tasks`}: ${items
+            .map(task => (task.completed ? `${task.content}, done` : task.content))
+            .join('; ')}.`,
+        tasksLeft: (left, total) => (left === 0
+            ? (total === 0 ? 'You have no tasks' : `All ${total} tasks are done`)
+            : `${left} of ${total} ${total === 1 ? 'task' : 'tasks'} left`),
+
+        exported: (count, format) => `Downloaded ${count} ${count === 1 ? 'task' : 'tasks'} as ${{ json: 'JSON', markdown: 'a Markdown checklist', ics: 'a calendar file' }[format]}`,
+        nothingToExport: 'There are no tasks to export',
+        imported: (added, duplicates) => (added === 0 && duplicates === 0
+            ? 'No tasks found in the file'
+            : `Imported ${added} ${added === 1 ? 'task' : 'tasks'}${duplicates > 0 ? `, skipped ${duplicates} already on the list` : ''}`),
+        unknownFileFormat: fileName => `Can't import "${fileName}". Use a JSON, Markdown or .ics file`,
+        importFailed: error => `Import failed: ${error}`,
+
+        tasksTitle: count => `Tasks (${count})`,
+        tasksLabel: 'Tasks',
+        exportLabel: 'Export tasks',
+        exportPlaceholder: 'Export…',
+        exportFormats: { json: 'JSON (backup)', markdown: 'Markdown checklist', ics: 'Calendar (.ics)' },
+        importTitle: 'Import tasks from a JSON, Markdown or .ics file',
+        importLabel: 'Import tasks from a file',
+        undoButton: 'Undo',
+        redoButton: 'Redo',
+        sortLabel: 'Sort tasks',
+        sorts: { created: 'Sort: own order', due: 'Sort: due date', priority: 'Sort: priority', content: 'Sort: name' },
+        statusFilterLabel: 'Filter by status',
+        statusFilters: { all: 'All tasks', active: 'Active', completed: 'Completed' },
+        listFilterLabel: 'Filter by list',
+        allLists: 'All lists',
+        tagFilterLabel: 'Filter by tag',
+        allTags: 'All tags',
+        priorityFilterLabel: 'Filter by priority',
+        anyPriority: 'Any priority',
+        priorities: { high: 'High', medium: 'Medium', low: 'Low' },
+        overdueOnly: 'Overdue only',
+        dueToday: 'Due today',
+        loadingTasks: 'Loading saved tasks...',
+        noTasks: 'No tasks yet. Try adding one using your voice!',
+        noMatchingTasks: 'No tasks match the current filters.',
+
+        toggleTask: content => `Mark "${content}" as done`,
+        moveTask: content => `Move "${content}"`,
+        moveTaskHint: 'Drag, or press the up and down arrow keys, to move',
+        editTask: content => `Edit "${content}"`,
+        editTaskTitle: 'Edit task',
+        deleteTask: content => `Delete "${content}"`,
+        deleteTaskTitle: 'Delete task',
+        taskText: 'Task text',
+        taskDone: '(done)',
+        overdue: 'overdue',
+        priorityBadges: { high: 'high priority', medium: 'medium priority', low: 'low priority' },
+
+        syncServerLabel: 'Sync server',
+        syncServerPlaceholder: 'https://tasks.example.com/api (leave empty to keep tasks on this device)',
+        invalidSyncUrl: 'Enter an http:// or https:// address.',
+        syncStates: {
+            off: 'not synced',
+            syncing: 'syncing…',
+            synced: 'synced',
+            offline: 'offline, changes are kept',
+            error: 'sync failed, retrying'
+        },
+        syncPending: count => `${count} waiting`,
+        lastSynced: time => `Last synced ${time}`,
+
+        customCommandsTitle: count => `Custom commands (${count})`,
+        synonymsTitle: 'Own phrasings',
+        synonymsHelp: 'Other words for a built-in command. A "*" stands for what you say there, e.g. "tick off *" for ' +
+            'marking a task as done. Commands on a task can name a fixed one instead, like "the last task".',
+        synonymIntents: {
+            add: 'Add a task',
+            mark: 'Mark a task as done',
+            unmark: 'Mark a task as not done',
+            delete: 'Delete a task',
+            rename: 'Rename a task',
+            append: 'Add text to a task',
+            change: 'Change a task\'s details',
+            clear: 'Clear all tasks',
+            undo: 'Undo',
+            redo: 'Redo',
+            read: 'Read the tasks aloud',
+            count: 'Count the tasks left',
+            export: 'Export the tasks'
+        },
+        synonymPhraseLabel: 'Phrase',
+        synonymPhrasePlaceholder: 'e.g. scratch that',
+        synonymIntentLabel: 'Built-in command',
+        fixedTaskLabel: 'Fixed task',
+        fixedTaskPlaceholder: intent => (intent === 'add' ? 'Task to add, unless the phrase has a "*"' : 'Which task, e.g. the last task'),
+        addSynonym: 'Add',
+        macrosTitle: 'Macros',
+        macrosHelp: 'One phrase that runs several commands in order, e.g. "morning routine".',
+        macroCommandCount: count => `${count} ${count === 1 ? 'command' : 'commands'}`,
+        macroPhraseLabel: 'Macro phrase',
+        macroPhrasePlaceholder: 'e.g. morning routine',
+        macroCommandsLabel: 'Macro commands',
+        macroCommandsPlaceholder: 'One command per line, e.g.\nadd make the bed\nadd stretch for ten minutes',
+        addMacro: 'Add macro',
+        removeCustomCommand: phrase => `Remove "${phrase}"`,
+        phraseMissing: 'Enter the words to say.',
+        phraseHasReservedCharacters: 'Use only letters, numbers, spaces, apostrophes and "*".',
+        wildcardNotAlone: 'Put "*" on its own, with spaces around it.',
+        phraseSplits: 'The phrase would be split into several commands; leave out words like "and" or "then".',
+        phraseTaken: phrase => `"${phrase}" is already a custom command.`,
+        takesNoTask: 'This command doesn\'t take a task.',
+        takesNoWildcard: 'This command takes no "*".',
+        wildcardsNeeded: count => `Use ${count === 1 ? 'one "*"' : `${count} "*"`} for the ${count === 1 ? 'text' : 'texts'} this command needs.`,
+        macroHasWildcard: 'Macro phrases can\'t contain "*".',
+        macroEmpty: 'Enter at least one command.',
+        macroTooLong: max => `A macro can run at most ${max} commands.`,
+        notACommand: command => `"${command}" isn't a command.`,
+
+        shortcutsTitle: 'Keyboard shortcuts',
+        shortcuts: {
+            microphone: 'Start or stop the microphone',
+            typeCommand: 'Type a command',
+            runCommand: 'Run the heard command',
+            cancel: 'Cancel the current command or question',
+            undoRedo: 'Undo / redo',
+            moveTask: 'On a task\'s move handle: move the task'
+        },
+
+        commandLogTitle: count => `Command log (${count})`,
+        commandLogEmpty: 'No commands yet. Spoken and typed commands show up here.',
+        commandStatsTitle: 'Stats',
+        commandStats: { total: 'Commands', recognized: 'Recognized', succeeded: 'Carried out' },
+        failingMostOften: 'Failing most often:',
+        pastCommandsTitle: 'Commands',
+        pastCommandsLabel: 'Past commands, newest first',
+        clearLog: 'Clear log',
+        commandSources: { voice: 'voice', edited: 'edited', typed: 'typed', replay: 'replay' },
+        commandOutcomes: { done: 'done', asked: 'asked back', failed: 'failed', unrecognized: 'not recognized' },
+        heardConfidence: percent => `${percent} sure`,
+        alsoHeard: 'Also heard',
+        runAgain: 'Run again',
+        runAgainLabel: transcript => `Run "${transcript}" again`,
+        runAgainOtherLanguage: language => `Said in ${language}. Switch to ${language} to run it again`,
+        correctCommand: 'Correct and run',
+        correctCommandLabel: transcript => `Correct "${transcript}"`,
+
+        describeIntent: (type, content, { value, view, position, format }) => {
+            switch (type) {
+                case 'add':
+                    return `Add task "${content}"`;
+                case 'mark':
+                    return `Mark "${content}" as done`;
+                case 'delete':
+                    return `Delete "${content}"`;
+                case 'unmark':
+                    return `Mark "${content}" as not done`;
+                case 'rename':
+                    return `Rename "${content}" to "${value}"`;
+                case 'append':
+                    return `Append "${value}" to "${content}"`;
+                case 'change':
+                    return `Change "${content}" to "${value}"`;
+                case 'move':
+                    return `Move "${content}" ${position ? (position === 'up' || position === 'down' ? position : `to the ${position}`) : `to position ${value}`}`;
+                case 'clear':
+                    return 'Clear all tasks';
+                case 'undo':
+                    return 'Undo';
+                case 'redo':
+                    return 'Redo';
+                case 'show':
+                    return view === 'tag' ? `Show tasks tagged "${content}"` : `Show ${view === 'today' ? 'tasks due today' : `${view} tasks`}`;
+                case 'read':
+                    return 'Read my tasks';
+                case 'count':
+                    return 'How many are left';
+                case 'export':
+                    return `Export tasks as ${{ json: 'JSON', markdown: 'Markdown', ics: 'a calendar' }[format || 'json']}`;
+                case 'macro':
+                    return `Run "${content}"`;
+                case 'confirm':
+                    return 'Yes';
+                case 'cancel':
+                    return 'Cancel';
+                default:
+                    return content;
+            }
+        }
+    }
+};
+
+export default en;
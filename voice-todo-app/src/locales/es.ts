@@ -0,0 +1,472 @@
+import { LocalePack } from './types';
+
+const es: LocalePack = {
+    id: 'es',
+    label: 'Español',
+    recognitionLang: 'es-ES',
+
+    patterns: [
+        { intent: 'add', pattern: /(?:añade|añadir|agrega|agregar)\s+(?:la\s+)?tarea\s+(.+)/i, weight: 1, slot: 'content' },
+        { intent: 'add', pattern: /(?:crea|crear)\s+(?:la\s+)?tarea\s+(.+)/i, weight: 0.9, slot: 'content' },
+        { intent: 'add', pattern: /nueva\s+tarea\s+(.+)/i, weight: 0.9, slot: 'content' },
+        { intent: 'add', pattern: /(?:añade|agrega|apunta)\s+(.+)/i, weight: 0.7, slot: 'content', list: true },
+
+        { intent: 'mark', pattern: /(?:marca|marcar)\s+(.+)\s+como\s+(?:hecha|hecho|completada|completado|terminada|terminado)/i, weight: 1, slot: 'content' },
+        { intent: 'mark', pattern: /(?:completa|completar)\s+(.+)/i, weight: 0.8, slot: 'content' },
+        { intent: 'mark', pattern: /(?:termina|terminar)\s+(.+)/i, weight: 0.8, slot: 'content' },
+
+        { intent: 'delete', pattern: /(?:borra|borrar)\s+(?:la\s+)?tarea\s+(.+)/i, weight: 1, slot: 'content' },
+        { intent: 'delete', pattern: /(?:elimina|eliminar)\s+(?:la\s+)?tarea\s+(.+)/i, weight: 0.9, slot: 'content' },
+        { intent: 'delete', pattern: /(?:borra|elimina|quita)\s+(.+)/i, weight: 0.7, slot: 'content' },
+
+        { intent: 'unmark', pattern: /(?:marca|marcar)\s+(.+)\s+como\s+(?:pendiente|no\s+(?:hecha|hecho|completada|completado|terminada|terminado)|sin\s+hacer)/i, weight: 1, slot: 'content' },
+        { intent: 'unmark', pattern: /(?:desmarca|desmarcar)\s+(.+)/i, weight: 0.9, slot: 'content' },
+        { intent: 'unmark', pattern: /(?:reabre|reabrir)\s+(.+)/i, weight: 0.8, slot: 'content' },
+
+        // Editar tareas existentes
+        { intent: 'rename', pattern: /^(?:renombra|renombrar)\s+(.+?)\s+(?:a|como|por)\s+(.+)$/i, weight: 1, slots: ['content', 'value'] },
+        { intent: 'rename', pattern: /^cambia\s+el\s+(?:nombre|texto)\s+de\s+(.+?)\s+(?:a|por)\s+(.+)$/i, weight: 1, slots: ['content', 'value'] },
+        { intent: 'append', pattern: /^(?:añade|agrega)\s+(.+?)\s+al\s+final\s+de\s+(.+)$/i, weight: 1, slots: ['value', 'content'] },
+        { intent: 'change', pattern: /^cambia\s+(.+?)\s+(?:al|a|para)\s+(.+)$/i, weight: 0.9, slots: ['content', 'value'] },
+        { intent: 'change', pattern: /^(?:pasa|aplaza)\s+(.+?)\s+(?:al|a|para)\s+(.+)$/i, weight: 0.8, slots: ['content', 'value'] },
+        { intent: 'move', pattern: /^(?:mueve|pon)\s+(.+?)\s+(?:al\s+principio|arriba\s+del\s+todo|primero)$/i, weight: 1, slot: 'content', position: 'top' },
+        { intent: 'move', pattern: /^(?:mueve|pon)\s+(.+?)\s+(?:al\s+final|abajo\s+del\s+todo|último|ultimo)$/i, weight: 1, slot: 'content', position: 'bottom' },
+        { intent: 'move', pattern: /^(?:sube|mueve\s+arriba)\s+(.+)$/i, weight: 0.9, slot: 'content', position: 'up' },
+        { intent: 'move', pattern: /^(?:baja|mueve\s+abajo)\s+(.+)$/i, weight: 0.9, slot: 'content', position: 'down' },
+        { intent: 'move', pattern: /^(?:mueve|pon)\s+(.+?)\s+(?:a|en)\s+la\s+posici[óo]n\s+(\S+)$/i, weight: 1, slots: ['content', 'value'] },
+
+        { intent: 'clear', pattern: /(?:borra|borrar|elimina|eliminar)\s+todas\s+las\s+tareas/i, weight: 1 },
+        { intent: 'clear', pattern: /(?:limpia|limpiar)\s+(?:todas\s+)?las\s+tareas/i, weight: 0.9 },
+
+        { intent: 'undo', pattern: /^(?:deshacer|deshaz)(?:\s+eso)?$/i, weight: 1 },
+        { intent: 'redo', pattern: /^(?:rehacer|rehaz)(?:\s+eso)?$/i, weight: 1 },
+
+        { intent: 'show', pattern: /^(?:muestra|muéstrame|muestrame|enseña|enséñame|ensename)\s+todas?(?:\s+las\s+tareas)?$/i, weight: 1, view: 'all' },
+        { intent: 'show', pattern: /^(?:muestra|muéstrame|muestrame|enseña|enséñame|ensename)\s+(?:las\s+)?(?:tareas\s+)?(?:pendientes|activas|abiertas)$/i, weight: 1, view: 'active' },
+        { intent: 'show', pattern: /^qu[ée]\s+(?:me\s+)?queda(?:\s+por\s+hacer)?$/i, weight: 1, view: 'active' },
+        { intent: 'show', pattern: /^(?:muestra|muéstrame|muestrame|enseña|enséñame|ensename)\s+(?:las\s+)?(?:tareas\s+)?(?:completadas|hechas|terminadas)$/i, weight: 1, view: 'completed' },
+        { intent: 'show', pattern: /^(?:muestra|muéstrame|muestrame|enseña|enséñame|ensename)\s+(?:las\s+)?tareas\s+(?:de|para)\s+hoy$/i, weight: 1, view: 'today' },
+        { intent: 'show', pattern: /^qu[ée]\s+(?:vence|hay|tengo)\s+(?:para\s+)?hoy$/i, weight: 1, view: 'today' },
+        { intent: 'show', pattern: /^(?:muestra|muéstrame|muestrame|enseña|enséñame|ensename)\s+(?:las\s+)?tareas\s+con\s+(?:la\s+)?etiqueta\s+#?(\S+)$/i, weight: 1, slot: 'content', view: 'tag' },
+        { intent: 'read', pattern: /^(?:lee|léeme|leeme|leer)\s+(?:mis\s+|las\s+|la\s+)?(?:tareas|lista)$/i, weight: 1 },
+        { intent: 'read', pattern: /^qu[ée]\s+hay\s+en\s+mi\s+lista$/i, weight: 0.9 },
+        { intent: 'count', pattern: /^cu[áa]ntas\s+(?:tareas\s+)?(?:me\s+)?quedan(?:\s+pendientes)?$/i, weight: 1 },
+        { intent: 'count', pattern: /^cu[áa]ntas\s+tareas\s+tengo(?:\s+pendientes)?$/i, weight: 0.9 },
+        { intent: 'export', pattern: /^(?:exporta|descarga|guarda)\s+(?:mis\s+|las\s+|todas\s+las\s+)?(?:tareas|lista)(?:\s+(?:como|en)\s+json)?$/i, weight: 1, format: 'json' },
+        { intent: 'export', pattern: /^(?:exporta|descarga)\s+(?:mis\s+|las\s+|todas\s+las\s+)?(?:tareas|lista)\s+(?:como|en)\s+(?:markdown|lista\s+de\s+verificaci[óo]n)$/i, weight: 1, format: 'markdown' },
+        { intent: 'export', pattern: /^(?:exporta|descarga)\s+(?:mis\s+|las\s+|todas\s+las\s+)?(?:tareas|lista)\s+(?:como|en|al)\s+(?:ics|ical|calendario|archivo\s+de\s+calendario)$/i, weight: 1, format: 'ics' },
+
+        { intent: 'confirm', pattern: /^(?:sí|si|confirmar|confirmo|hazlo|claro)(?:\s+(?:bórralas|borrar\s+todo|estoy\s+seguro|estoy\s+segura))?$/i, weight: 1 },
+        { intent: 'cancel', pattern: /^(?:no|cancela|cancelar|olvídalo|olvidalo|ninguna|ninguno)$/i, weight: 1 }
+    ],
+
+    fillerPattern: /^(?:por\s+favor\s+|puedes\s+|podrías\s+|vale\s+)+|\s+por\s+favor$/gi,
+
+    numberWords: {
+        uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10,
+        primera: 1, primero: 1, primer: 1, segunda: 2, segundo: 2, tercera: 3, tercero: 3, tercer: 3,
+        cuarta: 4, cuarto: 4, quinta: 5, quinto: 5, sexta: 6, sexto: 6, séptima: 7, séptimo: 7,
+        octava: 8, octavo: 8, novena: 9, noveno: 9, décima: 10, décimo: 10
+    },
+    numberMishearings: {},
+    stopWords: [
+        'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'y', 'o', 'de', 'del', 'a', 'al', 'para',
+        'con', 'en', 'por', 'mi', 'mis', 'tu', 'tus', 'tarea'
+    ],
+
+    lastPattern: /^(?:la\s+|el\s+)?(?:última|ultima|último|ultimo)(?:\s+tarea)?$/,
+    positionPattern: /^(?:la\s+|el\s+)?(?:(?:tarea|número|numero|opción|opcion)\s+)?(?:número\s+|numero\s+)?(\S+)(?:\s+tarea)?$/,
+
+    commandSeparator: /\s*,\s*(?:y\s+)?(?:luego\s+)?|\s+(?:y\s+luego|y\s+después|y|luego|después|entonces)\s+/i,
+    listSeparator: /\s*,\s*(?:y\s+)?|\s+[ye]\s+/i,
+
+    taskDetails: {
+        datePrefix: '(?:(?:el|este|próximo|para)\\s+)*',
+        relativeDays: { hoy: 0, mañana: 1, 'pasado mañana': 2 },
+        weekdays: ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'],
+        namedTimes: { mediodía: '12:00', 'por la mañana': '09:00', 'por la tarde': '17:00', 'por la noche': '20:00', 'esta noche': '20:00' },
+        timePatterns: [
+            /(?:^|\s)a\s+las?\s+(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?(?=\s|$)/
+        ],
+        priorities: [
+            { pattern: /(?:^|\s)(?:con\s+)?(?:prioridad\s+alta|alta\s+prioridad)(?=\s|$)|(?:^|\s)urgente(?=\s|$)/, priority: 'high' },
+            { pattern: /(?:^|\s)(?:con\s+)?(?:prioridad\s+media|media\s+prioridad)(?=\s|$)/, priority: 'medium' },
+            { pattern: /(?:^|\s)(?:con\s+)?(?:prioridad\s+baja|baja\s+prioridad)(?=\s|$)/, priority: 'low' }
+        ],
+        listPattern: /(?:^|\s)(?:a|en)\s+(?:la\s+|mi\s+)?lista\s+(?:de\s+)?(\S+)(?=\s|$)/,
+        tagPattern: /(?:^|\s)(?:(?:con\s+)?(?:etiqueta|hashtag)\s+|#)(\S+)/g
+    },
+
+    grammars: [
+        '#JSGF V1.0; grammar add; public <add> = añade tarea [<item>];',
+        '#JSGF V1.0; grammar mark; public <mark> = marca [<item>] como hecha;',
+        '#JSGF V1.0; grammar delete; public <delete> = borra tarea [<item>];',
+        '#JSGF V1.0; grammar clear; public <clear> = borra todas las tareas;',
+        '#JSGF V1.0; grammar edit; public <edit> = renombra [<item>] a [<item>] | mueve [<item>] (al principio | al final) | marca [<item>] como pendiente | cambia [<item>] al [<item>];',
+        '#JSGF V1.0; grammar history; public <history> = deshacer | rehacer;',
+        '#JSGF V1.0; grammar query; public <query> = muestra las tareas (pendientes | completadas) | muestra todas | lee mis tareas | cuántas quedan;',
+        '#JSGF V1.0; grammar export; public <export> = exporta mis tareas [como (json | markdown | calendario)];'
+    ],
+
+    wakeWords: ['oye lista', 'hola lista', 'oiga lista'],
+
+    examples: [
+        'Añade tarea comprar leche',
+        'Añade tarea llamar al dentista mañana a las 3 pm prioridad alta en la lista personal',
+        'Marca comprar leche como hecha',
+        'Borra tarea comprar leche',
+        'Marca tarea 3 como hecha',
+        'Renombra comprar leche por comprar leche de avena / Añade dos litros al final de comprar leche',
+        'Mueve llamar a mamá al principio / Marca la compra como pendiente',
+        'Cambia dentista al viernes',
+        'Borra todas las tareas',
+        'Deshacer / Rehacer',
+        'Muestra las tareas completadas / ¿Qué vence hoy?',
+        'Lee mis tareas / ¿Cuántas quedan?',
+        'Exporta mis tareas / Exporta mis tareas como markdown / como calendario'
+    ],
+
+    messages: {
+        appTitle: 'Lista de tareas por voz',
+        voiceCommandsTitle: 'Comandos de voz (Español)',
+        trySaying: 'Prueba a decir:',
+        listening: 'Escuchando... (Idioma: Español)',
+        listeningStopped: 'Escucha detenida',
+        waitingForWakeWord: wakeWord => `Esperando «${wakeWord}»… (Idioma: Español)`,
+        wakeWordHeard: '¿Sí? Di un comando',
+        notSupported: 'El reconocimiento de voz no está disponible en este navegador',
+        notInitialized: 'El reconocimiento de voz no está inicializado',
+        offlineTypeInstead: 'Estás sin conexión y este reconocedor la necesita. Escribe los comandos en su lugar',
+        offline: 'Sin conexión',
+        updateAvailable: 'Hay una nueva versión de la aplicación.',
+        reload: 'Recargar',
+        typeCommand: 'Escribe un comando, p. ej. "añade comprar leche"',
+        listeningModeLabel: 'Modo de escucha',
+        listeningModeOption: (mode, wakeWord) => ({
+            auto: 'Ejecutar los comandos automáticamente',
+            wakeword: `Palabra de activación («${wakeWord}, …»)`,
+            pushtotalk: 'Mantener pulsado para hablar (espacio)',
+            manual: 'Revisar cada comando antes de ejecutarlo'
+        }[mode]),
+        listeningModeHint: (mode, wakeWord) => ({
+            auto: 'Los comandos se ejecutan cuando haces una pausa.',
+            wakeword: `Empieza cada comando con «${wakeWord}». Todo lo demás se ignora.`,
+            pushtotalk: 'Mantén pulsada la barra espaciadora o el botón del micrófono mientras hablas',
+            manual: 'Revisa o corrige lo que se ha oído y pulsa el botón cuadrado.'
+        }[mode]),
+        holdToTalkButton: 'Mantén pulsado para hablar',
+        startListening: 'Empezar a escuchar',
+        stopListening: 'Dejar de escuchar',
+        microphoneButton: 'Micrófono',
+        editTranscript: 'Editar el texto reconocido',
+        processCommand: 'Ejecutar el comando actual',
+        commandField: 'Comando',
+        runTypedCommand: 'Ejecutar',
+        languageLabel: 'Idioma',
+        recognizerLabel: 'Reconocimiento de voz',
+        recognizers: {
+            webspeech: {
+                label: 'Navegador (Web Speech API)',
+                description: 'Usa el reconocimiento del navegador. Chrome y Edge envían el audio a un servicio en la nube.'
+            },
+            vosk: {
+                label: 'Sin conexión (Vosk)',
+                description: 'Ejecuta un modelo de voz dentro del navegador. El audio nunca sale de este dispositivo.'
+            },
+            fake: {
+                label: 'Demo guionizada',
+                description: 'Reproduce comandos fijos en lugar de escuchar. Para desarrollo y pruebas.'
+            }
+        },
+        speechFeedbackLabel: 'Respuestas habladas',
+        speechVerbosities: {
+            off: 'Desactivadas',
+            answers: 'Solo respuestas («lee mis tareas»)',
+            results: 'Respuestas y resultados de comandos',
+            all: 'Todo, incluidos los mensajes de estado'
+        },
+        voiceLabel: 'Voz',
+        defaultVoice: 'Voz predeterminada',
+        speechRate: 'Velocidad',
+        statusLabel: 'Estado:',
+        speaking: 'Hablando…',
+        speakingHint: 'Hablando; la entrada de voz se ignora hasta que termine',
+        yes: 'Sí',
+        no: 'No',
+        cancel: 'Cancelar',
+        heard: 'Oído:',
+        editTranscriptHint: 'Corrige el texto de arriba si no se reconoció bien',
+        editText: 'Editar texto',
+        doneEditing: 'Terminar de editar',
+        processCommandButton: 'Ejecutar comando',
+        grammarsReady: 'Gramáticas de comandos de voz cargadas',
+        grammarsUnavailable: 'Este navegador no admite gramáticas',
+        recognizerSetupFailed: error => `No se pudo configurar el reconocimiento de voz: ${error}`,
+        recognizerChanged: 'Reconocedor cambiado. Pulsa el micrófono para empezar a escuchar',
+        languageChanged: 'Idioma cambiado a español',
+        microphoneBlocked: 'El acceso al micrófono está bloqueado. Permítelo en la configuración del sitio (el icono a la izquierda de la dirección) y vuelve a pulsar el micrófono',
+        noMicrophone: 'No se encontró ningún micrófono. Comprueba que hay uno conectado y que no lo usa otra aplicación',
+        languageNotSupported: 'Este reconocedor no admite español. Prueba con otro',
+        recognitionRetrying: (error, seconds) => `Problema con el reconocimiento de voz (${error}), reintentando en ${seconds} s…`,
+        recognitionGaveUp: error => `Escucha detenida por un error (${error}). Pulsa el micrófono para volver a intentarlo`,
+        microphoneLabel: 'Micrófono:',
+        sessionStates: {
+            idle: 'apagado',
+            starting: 'iniciando…',
+            listening: 'escuchando',
+            processing: 'oyendo un comando',
+            error: 'detenido tras un error',
+            restarting: 'reconectando…'
+        },
+
+        commandProcessed: 'Comando ejecutado',
+        noCommand: 'No hay ningún comando que ejecutar',
+        commandCancelled: 'Comando cancelado',
+        didYouMean: '¿Querías decir…?',
+        unrecognized: transcript => `Comando no reconocido: «${transcript}»`,
+
+        added: content => `Tarea añadida: «${content}»`,
+        addedItems: items => `${items.length} tareas añadidas: ${items.map(item => `«${item}»`).join(', ')}`,
+        noAddContent: 'No se indicó el texto de la tarea',
+        marked: content => `«${content}» marcada como hecha`,
+        noMarkTarget: 'No se indicó qué tarea marcar como hecha',
+        deleted: content => `«${content}» borrada`,
+        unmarked: content => `«${content}» marcada como pendiente`,
+        renamed: (from, to) => `«${from}» renombrada a «${to}»`,
+        updated: content => `Tarea cambiada a «${content}»`,
+        moved: (content, position) => `«${content}» movida a la posición ${position}`,
+        noMoveTarget: 'Di adónde mover la tarea, por ejemplo «al principio» o «a la posición 2»',
+        noDeleteTarget: 'No se indicó qué tarea borrar',
+        noMatch: spoken => `Ninguna tarea coincide con «${spoken}»`,
+        whichOne: options => `¿Cuál: ${options.map((option, index) => `${index + 1}) ${option}`).join(' o ')}?`,
+        whichTaskPrompt: spoken => `¿Qué tarea querías decir con «${spoken}»? Di o pulsa un número.`,
+
+        nothingToClear: 'No hay tareas que borrar',
+        confirmClearPrompt: count => `¿Borrar las ${count} tareas? Di «sí» para confirmar o «no» para cancelar.`,
+        confirmClear: count => `¿Borrar las ${count} tareas? Di «sí» para confirmar`,
+        cleared: 'Todas las tareas borradas. Di «deshacer» para recuperarlas',
+        nothingToConfirm: 'No hay nada que confirmar',
+
+        undone: label => `Deshecho: ${label}`,
+        nothingToUndo: 'No hay nada que deshacer',
+        redone: label => `Rehecho: ${label}`,
+        nothingToRedo: 'No hay nada que rehacer',
+
+        commandSummary: (messages, skipped) =>
+            messages.join('. ') + (skipped > 0 ? ` (${skipped} ${skipped === 1 ? 'comando más sin ejecutar' : 'comandos más sin ejecutar'})` : ''),
+
+        historyAdd: content => `Añadir «${content}»`,
+        historyMark: (content, completed) => `Marcar «${content}» como ${completed ? 'hecha' : 'pendiente'}`,
+        historyDelete: content => `Borrar «${content}»`,
+        historyEdit: content => `Editar «${content}»`,
+        historyMove: content => `Mover «${content}»`,
+        historyImport: count => `Importar ${count} ${count === 1 ? 'tarea' : 'tareas'}`,
+        historyClear: 'Borrar todas las tareas',
+
+        showing: (view, tag) => {
+            switch (view) {
+                case 'active':
+                    return 'Mostrando tareas pendientes';
+                case 'completed':
+                    return 'Mostrando tareas completadas';
+                case 'today':
+                    return 'Mostrando tareas para hoy';
+                case 'tag':
+                    return `Mostrando tareas con la etiqueta «${tag}»`;
+                default:
+                    return 'Mostrando todas las tareas';
+            }
+        },
+        unknownTag: tag => `Ninguna tarea tiene la etiqueta «${tag}»`,
+        nothingToRead: 'No hay tareas que leer',
+        readTasks: items => `${items.length === 1 ? 'Una tarea' : `${items.length} tareas`}: ${items
+            .map(task => (task.completed ? `${task.content}, hecha` : task.content))
+            .join('; ')}.`,
+        tasksLeft: (left, total) => (left === 0
+            ? (total === 0 ? 'No tienes tareas' : `Las ${total} tareas están hechas`)
+            : `${left === 1 ? 'Queda' : 'Quedan'} ${left} de ${total} ${total === 1 ? 'tarea' : 'tareas'}`),
+
+        exported: (count, format) => `${count} ${count === 1 ? 'tarea descargada' : 'tareas descargadas'} como ${{ json: 'JSON', markdown: 'lista de verificación Markdown', ics: 'archivo de calendario' }[format]}`,
+        nothingToExport: 'No hay tareas que exportar',
+        imported: (added, duplicates) => (added === 0 && duplicates === 0
+            ? 'No se encontraron tareas en el archivo'
+            : `${added} ${added === 1 ? 'tarea importada' : 'tareas importadas'}${duplicates > 0 ? `, ${duplicates} ya estaban en la lista` : ''}`),
+        unknownFileFormat: fileName => `No se puede importar «${fileName}». Usa un archivo JSON, Markdown o .ics`,
+        importFailed: error => `Error al importar: ${error}`,
+
+        tasksTitle: count => `Tareas (${count})`,
+        tasksLabel: 'Tareas',
+        exportLabel: 'Exportar tareas',
+        exportPlaceholder: 'Exportar…',
+        exportFormats: { json: 'JSON (copia de seguridad)', markdown: 'Lista de Markdown', ics: 'Calendario (.ics)' },
+        importTitle: 'Importar tareas de un archivo JSON, Markdown o .ics',
+        importLabel: 'Importar tareas de un archivo',
+        undoButton: 'Deshacer',
+        redoButton: 'Rehacer',
+        sortLabel: 'Ordenar tareas',
+        sorts: { created: 'Orden: propio', due: 'Orden: fecha límite', priority: 'Orden: prioridad', content: 'Orden: nombre' },
+        statusFilterLabel: 'Filtrar por estado',
+        statusFilters: { all: 'Todas las tareas', active: 'Pendientes', completed: 'Hechas' },
+        listFilterLabel: 'Filtrar por lista',
+        allLists: 'Todas las listas',
+        tagFilterLabel: 'Filtrar por etiqueta',
+        allTags: 'Todas las etiquetas',
+        priorityFilterLabel: 'Filtrar por prioridad',
+        anyPriority: 'Cualquier prioridad',
+        priorities: { high: 'Alta', medium: 'Media', low: 'Baja' },
+        overdueOnly: 'Solo vencidas',
+        dueToday: 'Para hoy',
+        loadingTasks: 'Cargando las tareas guardadas...',
+        noTasks: 'Aún no hay tareas. ¡Añade una con tu voz!',
+        noMatchingTasks: 'Ninguna tarea coincide con los filtros actuales.',
+
+        toggleTask: content => `Marcar «${content}» como hecha`,
+        moveTask: content => `Mover «${content}»`,
+        moveTaskHint: 'Arrastra, o pulsa las flechas arriba y abajo, para mover',
+        editTask: content => `Editar «${content}»`,
+        editTaskTitle: 'Editar tarea',
+        deleteTask: content => `Borrar «${content}»`,
+        deleteTaskTitle: 'Borrar tarea',
+        taskText: 'Texto de la tarea',
+        taskDone: '(hecha)',
+        overdue: 'vencida',
+        priorityBadges: { high: 'prioridad alta', medium: 'prioridad media', low: 'prioridad baja' },
+
+        syncServerLabel: 'Servidor de sincronización',
+        syncServerPlaceholder: 'https://tasks.example.com/api (déjalo vacío para guardar las tareas solo en este dispositivo)',
+        invalidSyncUrl: 'Introduce una dirección http:// o https://.',
+        syncStates: {
+            off: 'sin sincronizar',
+            syncing: 'sincronizando…',
+            synced: 'sincronizado',
+            offline: 'sin conexión, los cambios se conservan',
+            error: 'error de sincronización, reintentando'
+        },
+        syncPending: count => `${count} ${count === 1 ? 'pendiente' : 'pendientes'}`,
+        lastSynced: time => `Última sincronización: ${time}`,
+
+        customCommandsTitle: count => `Comandos propios (${count})`,
+        synonymsTitle: 'Frases propias',
+        synonymsHelp: 'Otras palabras para un comando incorporado. Un «*» representa lo que digas ahí, p. ej. «tacha *» ' +
+            'para completar una tarea. Los comandos sobre una tarea pueden nombrar una fija, como «la última tarea».',
+        synonymIntents: {
+            add: 'Añadir una tarea',
+            mark: 'Marcar una tarea como hecha',
+            unmark: 'Marcar una tarea como pendiente',
+            delete: 'Borrar una tarea',
+            rename: 'Renombrar una tarea',
+            append: 'Añadir texto a una tarea',
+            change: 'Cambiar los detalles de una tarea',
+            clear: 'Borrar todas las tareas',
+            undo: 'Deshacer',
+            redo: 'Rehacer',
+            read: 'Leer las tareas en voz alta',
+            count: 'Contar las tareas pendientes',
+            export: 'Exportar las tareas'
+        },
+        synonymPhraseLabel: 'Frase',
+        synonymPhrasePlaceholder: 'p. ej. olvida eso',
+        synonymIntentLabel: 'Comando incorporado',
+        fixedTaskLabel: 'Tarea fija',
+        fixedTaskPlaceholder: intent => (intent === 'add' ? 'Tarea que añadir, si la frase no tiene «*»' : 'Qué tarea, p. ej. la última tarea'),
+        addSynonym: 'Añadir',
+        macrosTitle: 'Macros',
+        macrosHelp: 'Una frase que ejecuta varios comandos en orden, p. ej. «rutina de la mañana».',
+        macroCommandCount: count => `${count} ${count === 1 ? 'comando' : 'comandos'}`,
+        macroPhraseLabel: 'Frase de la macro',
+        macroPhrasePlaceholder: 'p. ej. rutina de la mañana',
+        macroCommandsLabel: 'Comandos de la macro',
+        macroCommandsPlaceholder: 'Un comando por línea, p. ej.\nañade hacer la cama\nañade estirar diez minutos',
+        addMacro: 'Añadir macro',
+        removeCustomCommand: phrase => `Quitar «${phrase}»`,
+        phraseMissing: 'Escribe las palabras que quieres decir.',
+        phraseHasReservedCharacters: 'Usa solo letras, números, espacios, apóstrofos y «*».',
+        wildcardNotAlone: 'Pon el «*» solo, con espacios alrededor.',
+        phraseSplits: 'La frase se dividiría en varios comandos; quita palabras como «y» o «luego».',
+        phraseTaken: phrase => `«${phrase}» ya es un comando propio.`,
+        takesNoTask: 'Este comando no usa ninguna tarea.',
+        takesNoWildcard: 'Este comando no lleva «*».',
+        wildcardsNeeded: count => `Usa ${count === 1 ? 'un «*»' : `${count} «*»`} para ${count === 1 ? 'el texto' : 'los textos'} que necesita este comando.`,
+        macroHasWildcard: 'Las frases de macro no pueden contener «*».',
+        macroEmpty: 'Escribe al menos un comando.',
+        macroTooLong: max => `Una macro puede ejecutar como mucho ${max} comandos.`,
+        notACommand: command => `«${command}» no es un comando.`,
+
+        shortcutsTitle: 'Atajos de teclado',
+        shortcuts: {
+            microphone: 'Encender o apagar el micrófono',
+            typeCommand: 'Escribir un comando',
+            runCommand: 'Ejecutar el comando oído',
+            cancel: 'Cancelar el comando o la pregunta actual',
+            undoRedo: 'Deshacer / rehacer',
+            moveTask: 'En el asa de una tarea: mover la tarea'
+        },
+
+        commandLogTitle: count => `Historial de comandos (${count})`,
+        commandLogEmpty: 'Aún no hay comandos. Aquí aparecen los comandos dichos y escritos.',
+        commandStatsTitle: 'Estadísticas',
+        commandStats: { total: 'Comandos', recognized: 'Reconocidos', succeeded: 'Ejecutados' },
+        failingMostOften: 'Los que más fallan:',
+        pastCommandsTitle: 'Comandos',
+        pastCommandsLabel: 'Comandos anteriores, los más recientes primero',
+        clearLog: 'Vaciar el historial',
+        commandSources: { voice: 'dicho', edited: 'corregido', typed: 'escrito', replay: 'repetido' },
+        commandOutcomes: { done: 'hecho', asked: 'preguntado', failed: 'fallido', unrecognized: 'no reconocido' },
+        heardConfidence: percent => `${percent} de seguridad`,
+        alsoHeard: 'También se oyó',
+        runAgain: 'Ejecutar de nuevo',
+        runAgainLabel: transcript => `Ejecutar «${transcript}» de nuevo`,
+        runAgainOtherLanguage: language => `Dicho en ${language}. Cambia a ${language} para ejecutarlo de nuevo`,
+        correctCommand: 'Corregir y ejecutar',
+        correctCommandLabel: transcript => `Corregir «${transcript}»`,
+
+        describeIntent: (type, content, { value, view, position, format }) => {
+            switch (type) {
+                case 'add':
+                    return `Añadir tarea «${content}»`;
+                case 'mark':
+                    return `Marcar «${content}» como hecha`;
+                case 'delete':
+                    return `Borrar «${content}»`;
+                case 'unmark':
+                    return `Marcar «${content}» como pendiente`;
+                case 'rename':
+                    return `Renombrar «${content}» a «${value}»`;
+                case 'append':
+                    return `Añadir «${value}» al final de «${content}»`;
+                case 'change':
+                    return `Cambiar «${content}» a «${value}»`;
+                case 'move':
+                    return `Mover «${content}» ${position
+                        ? { top: 'al principio', bottom: 'al final', up: 'arriba', down: 'abajo' }[position]
+                        : `a la posición ${value}`}`;
+                case 'clear':
+                    return 'Borrar todas las tareas';
+                case 'undo':
+                    return 'Deshacer';
+                case 'redo':
+                    return 'Rehacer';
+                case 'show':
+                    return view === 'tag'
+                        ? `Mostrar tareas con la etiqueta «${content}»`
+                        : `Mostrar ${{ all: 'todas las tareas', active: 'tareas pendientes', completed: 'tareas completadas', today: 'tareas para hoy' }[view || 'all']}`;
+                case 'read':
+                    return 'Leer mis tareas';
+                case 'count':
+                    return 'Cuántas quedan';
+                case 'export':
+                    return `Exportar tareas como ${{ json: 'JSON', markdown: 'Markdown', ics: 'calendario' }[format || 'json']}`;
+                case 'macro':
+                    return `Ejecutar "${content}"`;
+                case 'confirm':
+                    return 'Sí';
+                case 'cancel':
+                    return 'Cancelar';
+                default:
+                    return content;
+            }
+        }
+    }
+};
+
+export default es;
@@ -0,0 +1,19 @@
+import { getLocale, isLocaleId, locales } from '.';
+
+describe('isLocaleId', () => {
+    it('accepts the ids of the language packs', () => {
+        expect(Object.keys(locales).every(isLocaleId)).toBe(true);
+    });
+
+    it('rejects anything else, including inherited object keys', () => {
+        ['fr', '', 'toString', 'constructor', '__proto__', 'hasOwnProperty', 1, null].forEach(value => {
+            expect(isLocaleId(value)).toBe(false);
+        });
+    });
+});
+
+describe('getLocale', () => {
+    it('returns the pack for an id', () => {
+        expect(getLocale('de').id).toBe('de');
+    });
+});
@@ -0,0 +1,22 @@
+import en from './en';
+import de from './de';
+import es from './es';
+import { LocaleId, LocalePack } from './types';
+
+export type { CommandLanguage, LocaleId, LocalePack, Messages } from './types';
+
+export const locales: Record<LocaleId, LocalePack> = { en, de, es };
+
+export const defaultLocale = en;
+
+// Own keys only, so a stored "toString" or "constructor" isn't taken for a language
+export const isLocaleId = (value: unknown): value is LocaleId =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(locales, value);
+
+export const getLocale = (id: LocaleId): LocalePack => locales[id] || defaultLocale;
+
+// Picks the pack matching the browser's language on first visit, English otherwise
+export const detectLocale = (): LocaleId => {
+    const preferred = (navigator.languages || [navigator.language]).map(lang => lang.slice(0, 2).toLowerCase());
+    return preferred.find(isLocaleId) || defaultLocale.id;
+};
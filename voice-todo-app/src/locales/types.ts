@@ -0,0 +1,312 @@
+import type { CommandPattern, IntentSlots, IntentType } from '../utils/intentParser';
+import type { Priority, Task } from '../types/task';
+import type { TaskSort, TaskStatus, TaskView } from '../utils/taskQueries';
+import type { TaskFileFormat } from '../utils/taskFiles';
+import type { ListeningMode } from '../utils/listeningModes';
+import type { SessionState } from '../services/recognitionSession';
+import type { SyncState } from '../services/taskSync';
+import type { SynonymIntent } from '../utils/customCommands';
+import type { CommandOutcome, CommandSource } from '../utils/commandLog';
+import type { RecognizerEngine } from '../services/recognizers';
+import type { SpeechVerbosity } from '../hooks/useSpeechFeedback';
+
+export type LocaleId = 'en' | 'de' | 'es';
+
+// Everything the command parser and task targeting need to understand one language
+export interface CommandLanguage {
+    patterns: CommandPattern[];
+    // Polite filler around a command ("please", "bitte", "por favor") that shouldn't count against a match
+    fillerPattern: RegExp;
+    // Spoken numbers and ordinals, for "task 3" / "the second one"
+    numberWords: Record<string, number>;
+    // Words often heard instead of a short number ("to" for "two"); only taken as a number where
+    // one is expected, e.g. after "task" or as the answer to "which one?"
+    numberMishearings: Record<string, number>;
+    // Words too common to tell tasks apart ("the", "to"); matching a spoken name against tasks ignores them
+    stopWords: string[];
+    // Matches a spoken position; the first capture group is the number word or digits
+    positionPattern: RegExp;
+    // Matches a reference to the last task in the list ("the last one")
+    lastPattern: RegExp;
+    // Joins commands in one utterance ("and", "then", commas); no capturing groups
+    commandSeparator: RegExp;
+    // Joins the items of a spoken list ("milk, eggs and bread"); no capturing groups
+    listSeparator: RegExp;
+    taskDetails: TaskDetailVocabulary;
+}
+
+// How due dates, priorities, tags and lists are said, for "add task … tomorrow at 3pm high priority".
+// Patterns match with a leading (^|\s) instead of \b, which doesn't work with accented letters.
+export interface TaskDetailVocabulary {
+    // Words that may come before a day ("on", "next", "by")
+    datePrefix: string;
+    // Days relative to today, e.g. { today: 0, tomorrow: 1 }
+    relativeDays: Record<string, number>;
+    // Weekday names, Sunday first, as Date.getDay() numbers them
+    weekdays: string[];
+    // Named times of day ("noon", "tonight") as "HH:mm"; these may imply today
+    namedTimes: Record<string, string>;
+    // Groups: hour, minutes, am/pm marker
+    timePatterns: RegExp[];
+    priorities: { pattern: RegExp, priority: Priority }[];
+    // The first group that matched is the list name
+    listPattern: RegExp;
+    // Must be global; the first group is the tag
+    tagPattern: RegExp;
+}
+
+// Status, help and history strings shown (or later spoken) to the user, and the labels of the UI
+export interface Messages {
+    appTitle: string;
+    voiceCommandsTitle: string;
+    trySaying: string;
+    listening: string;
+    listeningStopped: string;
+    waitingForWakeWord: (wakeWord: string) => string;
+    wakeWordHeard: string;
+    notSupported: string;
+    notInitialized: string;
+    // The recognizer needs a connection; typed commands still work
+    offlineTypeInstead: string;
+    offline: string;
+    // Shown when a new version of the app has been downloaded
+    updateAvailable: string;
+    reload: string;
+    typeCommand: string;
+    // Listening mode picker; the wake word is the language's first one. The push-to-talk hint is
+    // also reported when that mode is picked.
+    listeningModeLabel: string;
+    listeningModeOption: (mode: ListeningMode, wakeWord: string) => string;
+    listeningModeHint: (mode: ListeningMode, wakeWord: string) => string;
+    // Label of the microphone button in push-to-talk mode
+    holdToTalkButton: string;
+
+    // Voice controls and settings
+    startListening: string;
+    stopListening: string;
+    microphoneButton: string;
+    editTranscript: string;
+    processCommand: string;
+    commandField: string;
+    runTypedCommand: string;
+    languageLabel: string;
+    recognizerLabel: string;
+    // Where each recognizer sends the audio is part of its description
+    recognizers: Record<RecognizerEngine, { label: string, description: string }>;
+    speechFeedbackLabel: string;
+    speechVerbosities: Record<SpeechVerbosity, string>;
+    voiceLabel: string;
+    defaultVoice: string;
+    speechRate: string;
+    statusLabel: string;
+    speaking: string;
+    speakingHint: string;
+    yes: string;
+    no: string;
+    cancel: string;
+    heard: string;
+    editTranscriptHint: string;
+    editText: string;
+    doneEditing: string;
+    processCommandButton: string;
+    grammarsReady: string;
+    grammarsUnavailable: string;
+    recognizerSetupFailed: (error: string) => string;
+    recognizerChanged: string;
+    languageChanged: string;
+    // Recognition errors; retrying ones are temporary, the others stop listening
+    microphoneBlocked: string;
+    noMicrophone: string;
+    languageNotSupported: string;
+    recognitionRetrying: (error: string, seconds: number) => string;
+    recognitionGaveUp: (error: string) => string;
+    // What the microphone is doing, shown under the controls
+    microphoneLabel: string;
+    sessionStates: Record<SessionState, string>;
+
+    commandProcessed: string;
+    noCommand: string;
+    commandCancelled: string;
+    didYouMean: string;
+    unrecognized: (transcript: string) => string;
+
+    added: (content: string) => string;
+    addedItems: (items: string[]) => string;
+    noAddContent: string;
+    marked: (content: string) => string;
+    noMarkTarget: string;
+    deleted: (content: string) => string;
+    noDeleteTarget: string;
+    unmarked: (content: string) => string;
+    renamed: (from: string, to: string) => string;
+    // Feedback for append and change, with the task as it is now
+    updated: (content: string) => string;
+    // position is 1-based
+    moved: (content: string, position: number) => string;
+    noMoveTarget: string;
+    noMatch: (spoken: string) => string;
+    whichOne: (options: string[]) => string;
+    whichTaskPrompt: (spoken: string) => string;
+
+    nothingToClear: string;
+    confirmClearPrompt: (count: number) => string;
+    confirmClear: (count: number) => string;
+    cleared: string;
+    nothingToConfirm: string;
+
+    undone: (label: string) => string;
+    nothingToUndo: string;
+    redone: (label: string) => string;
+    nothingToRedo: string;
+
+    // Feedback for an utterance with several commands; skipped ones came after a question
+    commandSummary: (messages: string[], skipped: number) => string;
+
+    // Labels recorded in the undo history
+    historyAdd: (content: string) => string;
+    historyMark: (content: string, completed: boolean) => string;
+    historyDelete: (content: string) => string;
+    historyEdit: (content: string) => string;
+    historyMove: (content: string) => string;
+    historyImport: (count: number) => string;
+    historyClear: string;
+
+    // Answers to queries; readTasks and tasksLeft are also spoken aloud
+    showing: (view: TaskView, tag?: string) => string;
+    unknownTag: (tag: string) => string;
+    nothingToRead: string;
+    readTasks: (tasks: Task[]) => string;
+    tasksLeft: (left: number, total: number) => string;
+
+    // Import and export of task files
+    exported: (count: number, format: TaskFileFormat) => string;
+    nothingToExport: string;
+    imported: (added: number, duplicates: number) => string;
+    unknownFileFormat: (fileName: string) => string;
+    importFailed: (error: string) => string;
+
+    // Task list, its toolbar and its filters
+    tasksTitle: (count: number) => string;
+    tasksLabel: string;
+    exportLabel: string;
+    exportPlaceholder: string;
+    exportFormats: Record<TaskFileFormat, string>;
+    importTitle: string;
+    importLabel: string;
+    undoButton: string;
+    redoButton: string;
+    sortLabel: string;
+    sorts: Record<TaskSort, string>;
+    statusFilterLabel: string;
+    statusFilters: Record<TaskStatus, string>;
+    listFilterLabel: string;
+    allLists: string;
+    tagFilterLabel: string;
+    allTags: string;
+    priorityFilterLabel: string;
+    anyPriority: string;
+    priorities: Record<Priority, string>;
+    overdueOnly: string;
+    dueToday: string;
+    loadingTasks: string;
+    noTasks: string;
+    noMatchingTasks: string;
+
+    // One task in the list; the task text is part of every button's name
+    toggleTask: (content: string) => string;
+    moveTask: (content: string) => string;
+    moveTaskHint: string;
+    editTask: (content: string) => string;
+    editTaskTitle: string;
+    deleteTask: (content: string) => string;
+    deleteTaskTitle: string;
+    taskText: string;
+    // Read after the text of a completed task, for screen readers
+    taskDone: string;
+    overdue: string;
+    priorityBadges: Record<Priority, string>;
+
+    // Sync server setting, and the sync status next to the task list heading
+    syncServerLabel: string;
+    syncServerPlaceholder: string;
+    invalidSyncUrl: string;
+    syncStates: Record<SyncState, string>;
+    syncPending: (count: number) => string;
+    // time is already formatted for the user's locale
+    lastSynced: (time: string) => string;
+
+    // Custom command editor and the reasons a new phrasing or macro can't be added
+    customCommandsTitle: (count: number) => string;
+    synonymsTitle: string;
+    synonymsHelp: string;
+    synonymIntents: Record<SynonymIntent, string>;
+    synonymPhraseLabel: string;
+    synonymPhrasePlaceholder: string;
+    synonymIntentLabel: string;
+    fixedTaskLabel: string;
+    fixedTaskPlaceholder: (intent: SynonymIntent) => string;
+    addSynonym: string;
+    macrosTitle: string;
+    macrosHelp: string;
+    macroCommandCount: (count: number) => string;
+    macroPhraseLabel: string;
+    macroPhrasePlaceholder: string;
+    macroCommandsLabel: string;
+    macroCommandsPlaceholder: string;
+    addMacro: string;
+    removeCustomCommand: (phrase: string) => string;
+    phraseMissing: string;
+    phraseHasReservedCharacters: string;
+    wildcardNotAlone: string;
+    phraseSplits: string;
+    phraseTaken: (phrase: string) => string;
+    takesNoTask: string;
+    takesNoWildcard: string;
+    wildcardsNeeded: (count: number) => string;
+    macroHasWildcard: string;
+    macroEmpty: string;
+    macroTooLong: (max: number) => string;
+    notACommand: (command: string) => string;
+
+    // Keyboard shortcut help; shortcuts don't fire while typing in a text field
+    shortcutsTitle: string;
+    shortcuts: Record<'microphone' | 'typeCommand' | 'runCommand' | 'cancel' | 'undoRedo' | 'moveTask', string>;
+
+    // Command log panel; percentages come formatted ("85%")
+    commandLogTitle: (count: number) => string;
+    commandLogEmpty: string;
+    commandStatsTitle: string;
+    commandStats: Record<'total' | 'recognized' | 'succeeded', string>;
+    failingMostOften: string;
+    pastCommandsTitle: string;
+    pastCommandsLabel: string;
+    clearLog: string;
+    commandSources: Record<CommandSource, string>;
+    commandOutcomes: Record<CommandOutcome, string>;
+    heardConfidence: (percent: string) => string;
+    alsoHeard: string;
+    runAgain: string;
+    runAgainLabel: (transcript: string) => string;
+    // Replay only runs commands in the language they were said in; language is that pack's label
+    runAgainOtherLanguage: (language: string) => string;
+    correctCommand: string;
+    correctCommandLabel: (transcript: string) => string;
+
+    // Short summary of an intent, e.g. for the "Did you mean…?" picker
+    describeIntent: (type: IntentType, content: string, slots: IntentSlots) => string;
+}
+
+export interface LocalePack extends CommandLanguage {
+    id: LocaleId;
+    // Name of the language in that language, for the picker
+    label: string;
+    // BCP 47 tag handed to the recognizer
+    recognitionLang: string;
+    // JSGF grammars that hint the recognizer towards our command phrases
+    grammars: string[];
+    // Lowercase phrases that start a command in wake-word mode; the first one is shown to the user
+    wakeWords: string[];
+    // Phrases listed under "Try saying"
+    examples: string[];
+    messages: Messages;
+}
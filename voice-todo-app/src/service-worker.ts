@@ -0,0 +1,53 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Built by react-scripts (Workbox InjectManifest) into build/service-worker.js. It caches the
+// app shell so the app opens without a connection; tasks themselves live in IndexedDB.
+// Registered from services/serviceWorkerRegistration in production builds only.
+
+import { clientsClaim } from 'workbox-core';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { CacheFirst, StaleWhileRevalidate } from 'workbox-strategies';
+
+declare const self: ServiceWorkerGlobalScope;
+
+clientsClaim();
+
+// Every file of the build, listed by the build step
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Page loads get index.html from the cache, except for files and the service worker's own paths
+const fileExtension = /\/[^/?]+\.[^/]+$/;
+registerRoute(
+    ({ request, url }) =>
+        request.mode === 'navigate' && !url.pathname.startsWith('/_') && !fileExtension.test(url.pathname),
+    createHandlerBoundToURL(`${process.env.PUBLIC_URL}/index.html`)
+);
+
+// Offline speech models are large and versioned by name, so once downloaded they are kept.
+// This is what lets the Vosk recognizer work offline after its first use.
+registerRoute(
+    ({ url }) => url.pathname.endsWith('.tar.gz'),
+    new CacheFirst({
+        cacheName: 'speech-models',
+        plugins: [new ExpirationPlugin({ maxEntries: 3 })]
+    })
+);
+
+// Icons and other files from public/ that aren't part of the build
+registerRoute(
+    ({ url, request }) => url.origin === self.location.origin && request.destination === 'image',
+    new StaleWhileRevalidate({
+        cacheName: 'images',
+        plugins: [new ExpirationPlugin({ maxEntries: 50 })]
+    })
+);
+
+// Sent by the update prompt; the new version takes over and the page reloads
+self.addEventListener('message', event => {
+    if (event.data && event.data.type === 'SKIP_WAITING') {
+        self.skipWaiting();
+    }
+});
@@ -0,0 +1,13 @@
+// Hands text to the browser as a file download, e.g. for task exports
+
+export const downloadTextFile = (fileName: string, text: string, mimeType: string): void => {
+    const url = URL.createObjectURL(new Blob([text], { type: `${mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
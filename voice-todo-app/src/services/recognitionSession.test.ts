@@ -0,0 +1,240 @@
+import { RecognitionSession, SessionFailure, SessionState } from './recognitionSession';
+import { FakeSpeechRecognition } from './recognizers';
+
+const setup = () => {
+    const recognition = new FakeSpeechRecognition();
+    recognition.continuous = true;
+    const states: SessionState[] = [];
+    const failures: SessionFailure[] = [];
+    const onStart = jest.fn();
+    const onResult = jest.fn();
+    const onEnd = jest.fn();
+    const session = new RecognitionSession(recognition, {
+        onStateChange: state => states.push(state),
+        onError: failure => failures.push(failure),
+        onStart,
+        onResult,
+        onEnd
+    });
+    return { recognition, session, states, failures, onStart, onResult, onEnd };
+};
+
+beforeEach(() => {
+    jest.useFakeTimers();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('RecognitionSession', () => {
+    it('goes through starting, listening and processing', () => {
+        const { recognition, session, states, onResult } = setup();
+
+        session.start();
+        expect(session.state).toBe('starting');
+        jest.advanceTimersByTime(0);
+        expect(session.state).toBe('listening');
+
+        recognition.say('add task buy milk');
+        expect(session.state).toBe('processing');
+        expect(onResult).toHaveBeenCalledTimes(1);
+
+        session.finishUtterance();
+        expect(session.state).toBe('listening');
+
+        session.stop();
+        expect(session.state).toBe('idle');
+        expect(recognition.stopCount).toBe(1);
+        expect(states).toEqual(['starting', 'listening', 'processing', 'listening', 'idle']);
+    });
+
+    it('never runs two recognizer sessions at once', () => {
+        const { recognition, session } = setup();
+
+        session.start();
+        session.start();
+        jest.advanceTimersByTime(0);
+        session.start();
+
+        expect(recognition.startCount).toBe(1);
+    });
+
+    it('restarts right away when the browser ends the session on its own', () => {
+        const { recognition, session, states, onStart, onEnd } = setup();
+        session.start();
+        jest.advanceTimersByTime(0);
+
+        recognition.end();
+        expect(onEnd).toHaveBeenCalledTimes(1);
+        expect(states.slice(-2)).toEqual(['restarting', 'starting']);
+        expect(recognition.startCount).toBe(2);
+
+        jest.advanceTimersByTime(0);
+        expect(session.state).toBe('listening');
+        expect(onStart).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not restart after stop()', () => {
+        const { recognition, session, onEnd } = setup();
+        session.start();
+        jest.advanceTimersByTime(0);
+
+        session.stop();
+        jest.advanceTimersByTime(10000);
+
+        expect(onEnd).toHaveBeenCalledTimes(1);
+        expect(recognition.startCount).toBe(1);
+        expect(session.state).toBe('idle');
+    });
+
+    it('backs off after network errors', () => {
+        const { recognition, session, failures } = setup();
+        session.start();
+        jest.advanceTimersByTime(0);
+
+        recognition.fail('network');
+        expect(failures).toEqual([{ error: 'network', fatal: false, retryIn: 500 }]);
+        expect(session.state).toBe('restarting');
+        jest.advanceTimersByTime(499);
+        expect(recognition.startCount).toBe(1);
+        jest.advanceTimersByTime(1);
+        expect(recognition.startCount).toBe(2);
+
+        jest.advanceTimersByTime(0);
+        recognition.fail('network');
+        expect(failures[1].retryIn).toBe(1000);
+        jest.advanceTimersByTime(1000);
+        expect(recognition.startCount).toBe(3);
+    });
+
+    it('gives up after too many network errors in a row', () => {
+        const { recognition, session, failures } = setup();
+        session.start();
+
+        for (let attempt = 0; attempt < 5; attempt++) {
+            jest.advanceTimersByTime(0);
+            recognition.fail('network');
+            jest.runOnlyPendingTimers();
+        }
+        jest.advanceTimersByTime(0);
+        recognition.fail('network');
+
+        expect(failures.map(failure => failure.retryIn)).toEqual([500, 1000, 2000, 4000, 8000, null]);
+        expect(failures[failures.length - 1].fatal).toBe(true);
+        expect(session.state).toBe('error');
+        jest.runOnlyPendingTimers();
+        expect(recognition.startCount).toBe(6);
+    });
+
+    it('keeps retrying through silence, with a shorter cap', () => {
+        const { recognition, session, failures } = setup();
+        session.start();
+
+        for (let attempt = 0; attempt < 8; attempt++) {
+            jest.advanceTimersByTime(0);
+            recognition.fail('no-speech');
+            jest.runOnlyPendingTimers();
+        }
+
+        expect(failures.every(failure => !failure.fatal)).toBe(true);
+        expect(failures.map(failure => failure.retryIn)).toEqual([500, 1000, 2000, 2000, 2000, 2000, 2000, 2000]);
+        expect(session.active).toBe(true);
+    });
+
+    it('resets the backoff once something is heard', () => {
+        const { recognition, session, failures } = setup();
+        session.start();
+        jest.advanceTimersByTime(0);
+        recognition.fail('network');
+        jest.runOnlyPendingTimers();
+        jest.advanceTimersByTime(0);
+
+        recognition.say('undo');
+        recognition.fail('network');
+
+        expect(failures.map(failure => failure.retryIn)).toEqual([500, 500]);
+    });
+
+    it('stops for good when the microphone is blocked', () => {
+        const { recognition, session, failures } = setup();
+        session.start();
+        jest.advanceTimersByTime(0);
+
+        recognition.fail('not-allowed');
+        jest.advanceTimersByTime(10000);
+
+        expect(failures).toEqual([{ error: 'not-allowed', fatal: true, retryIn: null }]);
+        expect(session.state).toBe('error');
+        expect(recognition.startCount).toBe(1);
+
+        // The user can try again once they have allowed the microphone
+        session.start();
+        expect(recognition.startCount).toBe(2);
+    });
+
+    it('cancels a pending retry on stop()', () => {
+        const { recognition, session } = setup();
+        session.start();
+        jest.advanceTimersByTime(0);
+        recognition.fail('network');
+
+        session.stop();
+        jest.advanceTimersByTime(10000);
+
+        expect(recognition.startCount).toBe(1);
+        expect(session.state).toBe('idle');
+    });
+
+    it('waits for the previous session to end when started again too early', () => {
+        const { recognition, session } = setup();
+        session.start();
+        jest.advanceTimersByTime(0);
+        // A real recognizer ends asynchronously after stop(); simulate that by not ending yet
+        const stop = jest.spyOn(recognition, 'stop').mockImplementation(() => undefined);
+        session.stop();
+        session.start();
+        expect(session.state).toBe('restarting');
+
+        stop.mockRestore();
+        recognition.end();
+        jest.advanceTimersByTime(0);
+        expect(session.state).toBe('listening');
+        expect(recognition.startCount).toBe(2);
+    });
+
+    it('still delivers the last result after stop(), but not after abort()', () => {
+        const { recognition, session, onResult } = setup();
+        session.start();
+        jest.advanceTimersByTime(0);
+        // Keep the fake running after stop(), as a real recognizer finishing the last phrase would
+        const stop = jest.spyOn(recognition, 'stop').mockImplementation(() => undefined);
+        session.stop();
+        recognition.say('add task milk');
+        expect(onResult).toHaveBeenCalledTimes(1);
+        expect(session.state).toBe('idle');
+        stop.mockRestore();
+        recognition.end();
+
+        session.start();
+        jest.advanceTimersByTime(0);
+        const abort = jest.spyOn(recognition, 'abort').mockImplementation(() => undefined);
+        session.abort();
+        recognition.say('add task eggs');
+        expect(onResult).toHaveBeenCalledTimes(1);
+        abort.mockRestore();
+    });
+
+    it('ignores results after dispose()', () => {
+        const { recognition, session, onResult } = setup();
+        session.start();
+        jest.advanceTimersByTime(0);
+
+        session.dispose();
+        recognition.start();
+        jest.advanceTimersByTime(0);
+        recognition.say('add task milk');
+
+        expect(onResult).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,238 @@
+// Owns the lifecycle of one SpeechRecognition object: starting, stopping, restarting after the
+// browser ends a session on its own, and retrying with backoff after recoverable errors.
+//
+//   idle ──start()──> starting ──onstart──> listening ──result──> processing
+//                        ^                      ^                     │
+//                        │                      └─finishUtterance()───┘
+//                    restarting <──onend (still wanted, maybe after a backoff delay)
+//   error: a fatal error (e.g. microphone blocked) or too many failed retries; start() again to retry
+
+import { SpeechRecognition, SpeechRecognitionErrorEvent, SpeechRecognitionEvent } from '../types/speech-recognition';
+
+export type SessionState = 'idle' | 'starting' | 'listening' | 'processing' | 'error' | 'restarting';
+
+export interface SessionFailure {
+    // The SpeechRecognitionErrorEvent error code, e.g. 'not-allowed' or 'network'
+    error: string;
+    // Listening has stopped and won't resume by itself
+    fatal: boolean;
+    // Milliseconds until the next attempt, for recoverable errors
+    retryIn: number | null;
+}
+
+export interface SessionHandlers {
+    onStateChange?: (state: SessionState) => void;
+    // Each time the recognizer (re)starts; result indexes start again at 0
+    onStart?: () => void;
+    onResult?: (event: SpeechRecognitionEvent) => void;
+    onError?: (failure: SessionFailure) => void;
+    // The recognizer ended, whether or not it is about to restart
+    onEnd?: () => void;
+}
+
+export interface SessionOptions {
+    // First retry delay; doubles with every failed attempt in a row
+    baseRetryDelay: number;
+    maxRetryDelay: number;
+    // Silence is normal while cooking or driving, so it never gives up and waits at most this long
+    maxNoSpeechDelay: number;
+    // Failed attempts in a row before giving up
+    maxRetries: number;
+}
+
+export const DEFAULT_SESSION_OPTIONS: SessionOptions = {
+    baseRetryDelay: 500,
+    maxRetryDelay: 8000,
+    maxNoSpeechDelay: 2000,
+    maxRetries: 5
+};
+
+// Errors that retrying won't fix; the user has to do something first
+const FATAL_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture', 'language-not-supported'];
+
+export const isActiveSessionState = (state: SessionState): boolean =>
+    state !== 'idle' && state !== 'error';
+
+export class RecognitionSession {
+    state: SessionState = 'idle';
+    // Whether the user wants to be listening; a recognizer that ends on its own is restarted while true
+    private wanted = false;
+    // Cleared by abort() so that whatever the recognizer still delivers is dropped
+    private acceptResults = false;
+    private failures = 0;
+    private retryDelay: number | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private options: SessionOptions;
+
+    constructor(
+        private recognition: SpeechRecognition,
+        private handlers: SessionHandlers = {},
+        options: Partial<SessionOptions> = {}
+    ) {
+        this.options = { ...DEFAULT_SESSION_OPTIONS, ...options };
+        recognition.onstart = () => this.handleStart();
+        recognition.onresult = (event: SpeechRecognitionEvent) => this.handleResult(event);
+        recognition.onerror = (event: SpeechRecognitionErrorEvent) => this.handleError(event.error);
+        recognition.onend = () => this.handleEnd();
+    }
+
+    get active(): boolean {
+        return isActiveSessionState(this.state);
+    }
+
+    start(): void {
+        if (this.active) {
+            return;
+        }
+        this.wanted = true;
+        this.failures = 0;
+        this.retryDelay = null;
+        this.begin();
+    }
+
+    // Stops listening; what was being said is still recognized and delivered before onEnd
+    stop(): void {
+        this.wanted = false;
+        this.clearRetryTimer();
+        this.setState('idle');
+        this.recognition.stop();
+    }
+
+    // Stops listening and drops anything not yet delivered
+    abort(): void {
+        this.wanted = false;
+        this.acceptResults = false;
+        this.clearRetryTimer();
+        this.setState('idle');
+        this.recognition.abort();
+    }
+
+    // The app has dealt with what was heard and is waiting for the next command
+    finishUtterance(): void {
+        if (this.state === 'processing') {
+            this.setState('listening');
+        }
+    }
+
+    // Stops listening and detaches from the recognizer for good
+    dispose(): void {
+        this.abort();
+        this.handlers = {};
+        this.recognition.onstart = null;
+        this.recognition.onresult = null;
+        this.recognition.onerror = null;
+        this.recognition.onend = null;
+    }
+
+    private begin(): void {
+        this.retryTimer = null;
+        this.acceptResults = true;
+        this.setState('starting');
+        try {
+            this.recognition.start();
+        } catch (error) {
+            if (error instanceof Error && (error.name === 'InvalidStateError' || /already/i.test(error.message))) {
+                // The previous session hasn't ended yet; its end event restarts us
+                this.setState('restarting');
+                return;
+            }
+            this.wanted = false;
+            this.setState('error');
+            this.handlers.onError?.({
+                error: error instanceof Error ? error.message : String(error),
+                fatal: true,
+                retryIn: null
+            });
+        }
+    }
+
+    private handleStart(): void {
+        if (!this.wanted) {
+            return;
+        }
+        this.setState('listening');
+        this.handlers.onStart?.();
+    }
+
+    private handleResult(event: SpeechRecognitionEvent): void {
+        if (!this.acceptResults) {
+            return;
+        }
+        if (this.wanted) {
+            // Hearing something means the connection and microphone work again
+            this.failures = 0;
+            this.setState('processing');
+        }
+        this.handlers.onResult?.(event);
+    }
+
+    private handleError(error: string): void {
+        // Caused by our own stop()/abort()
+        if (error === 'aborted' || !this.wanted) {
+            return;
+        }
+
+        const giveUp = FATAL_ERRORS.includes(error) ||
+            (error !== 'no-speech' && this.failures >= this.options.maxRetries);
+        if (giveUp) {
+            this.wanted = false;
+            this.setState('error');
+            this.handlers.onError?.({ error, fatal: true, retryIn: null });
+            return;
+        }
+
+        const delay = this.nextRetryDelay(error === 'no-speech' ? this.options.maxNoSpeechDelay : this.options.maxRetryDelay);
+        this.retryDelay = delay;
+        this.handlers.onError?.({ error, fatal: false, retryIn: delay });
+    }
+
+    private nextRetryDelay(maxDelay: number): number {
+        const delay = Math.min(this.options.baseRetryDelay * 2 ** this.failures, maxDelay);
+        this.failures++;
+        return delay;
+    }
+
+    private handleEnd(): void {
+        this.handlers.onEnd?.();
+        if (!this.wanted) {
+            if (this.state !== 'error') {
+                this.setState('idle');
+            }
+            return;
+        }
+
+        // Browsers end continuous sessions after a while even without errors, so restart.
+        // Ending before it ever started is a failure too, or we would restart in a tight loop.
+        let delay = this.retryDelay;
+        this.retryDelay = null;
+        if (delay === null && this.state === 'starting') {
+            if (this.failures >= this.options.maxRetries) {
+                this.wanted = false;
+                this.setState('error');
+                this.handlers.onError?.({ error: 'ended', fatal: true, retryIn: null });
+                return;
+            }
+            delay = this.nextRetryDelay(this.options.maxRetryDelay);
+        }
+        this.setState('restarting');
+        if (delay) {
+            this.retryTimer = setTimeout(() => this.begin(), delay);
+        } else {
+            this.begin();
+        }
+    }
+
+    private clearRetryTimer(): void {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    private setState(state: SessionState): void {
+        if (state !== this.state) {
+            this.state = state;
+            this.handlers.onStateChange?.(state);
+        }
+    }
+}
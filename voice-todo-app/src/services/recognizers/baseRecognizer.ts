@@ -0,0 +1,93 @@
+import {
+    SpeechRecognition,
+    SpeechRecognitionAlternative,
+    SpeechRecognitionErrorEvent,
+    SpeechRecognitionEvent,
+    SpeechRecognitionResult,
+    SpeechRecognitionResultList
+} from '../../types/speech-recognition';
+
+// One recognized phrase, as our own recognizers produce it
+export interface RecognitionResultInit {
+    alternatives: SpeechRecognitionAlternative[];
+    isFinal: boolean;
+}
+
+// Builds the array-like result objects the Web Speech API hands to onresult
+export const createResultList = (results: RecognitionResultInit[]): SpeechRecognitionResultList => {
+    const list = results.map(({ alternatives, isFinal }) => {
+        const result = alternatives.map(alternative => ({ ...alternative }));
+        return Object.assign(result, {
+            isFinal,
+            item: (index: number) => result[index]
+        }) as unknown as SpeechRecognitionResult;
+    });
+    return Object.assign(list, {
+        item: (index: number) => list[index]
+    }) as unknown as SpeechRecognitionResultList;
+};
+
+export const createResultEvent = (results: RecognitionResultInit[], resultIndex: number): SpeechRecognitionEvent =>
+    Object.assign(new Event('result'), {
+        resultIndex,
+        results: createResultList(results)
+    });
+
+export const createErrorEvent = (error: string, message = ''): SpeechRecognitionErrorEvent =>
+    Object.assign(new Event('error'), { error, message });
+
+// Events without data of their own, each with its on* handler property
+type SimpleEventType = 'start' | 'end' | 'audiostart' | 'audioend' | 'soundstart' | 'soundend' | 'speechstart' | 'speechend';
+
+// Shared plumbing for recognizers that aren't the browser's own: the on* handler
+// properties and dispatching events to both them and addEventListener listeners.
+export abstract class BaseRecognizer extends EventTarget implements SpeechRecognition {
+    continuous = false;
+    grammars: any = null;
+    interimResults = false;
+    lang = 'en-US';
+    maxAlternatives = 1;
+
+    onaudioend: ((this: SpeechRecognition, ev: Event) => any) | null = null;
+    onaudiostart: ((this: SpeechRecognition, ev: Event) => any) | null = null;
+    onend: ((this: SpeechRecognition, ev: Event) => any) | null = null;
+    onerror: ((this: SpeechRecognition, ev: SpeechRecognitionErrorEvent) => any) | null = null;
+    onnomatch: ((this: SpeechRecognition, ev: SpeechRecognitionEvent) => any) | null = null;
+    onresult: ((this: SpeechRecognition, ev: SpeechRecognitionEvent) => any) | null = null;
+    onsoundend: ((this: SpeechRecognition, ev: Event) => any) | null = null;
+    onsoundstart: ((this: SpeechRecognition, ev: Event) => any) | null = null;
+    onspeechend: ((this: SpeechRecognition, ev: Event) => any) | null = null;
+    onspeechstart: ((this: SpeechRecognition, ev: Event) => any) | null = null;
+    onstart: ((this: SpeechRecognition, ev: Event) => any) | null = null;
+
+    abstract start(): void;
+    abstract stop(): void;
+    abstract abort(): void;
+
+    protected emitSimple(type: SimpleEventType): void {
+        const event = new Event(type);
+        const handlers: Record<SimpleEventType, ((this: SpeechRecognition, ev: Event) => any) | null> = {
+            start: this.onstart,
+            end: this.onend,
+            audiostart: this.onaudiostart,
+            audioend: this.onaudioend,
+            soundstart: this.onsoundstart,
+            soundend: this.onsoundend,
+            speechstart: this.onspeechstart,
+            speechend: this.onspeechend
+        };
+        handlers[type]?.call(this, event);
+        this.dispatchEvent(event);
+    }
+
+    protected emitResult(event: SpeechRecognitionEvent): void {
+        this.onresult?.call(this, event);
+        this.dispatchEvent(event);
+    }
+
+    protected emitError(error: string, message = ''): void {
+        const event = createErrorEvent(error, message);
+        this.onerror?.call(this, event);
+        this.dispatchEvent(event);
+    }
+}
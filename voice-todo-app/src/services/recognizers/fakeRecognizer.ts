@@ -0,0 +1,105 @@
+import { BaseRecognizer, RecognitionResultInit, createResultEvent } from './baseRecognizer';
+import { SpeechRecognitionAlternative } from '../../types/speech-recognition';
+
+// A step of a scripted session: something "heard", or an error
+export type FakeScriptStep =
+    | { say: string | SpeechRecognitionAlternative[], isFinal?: boolean, delay?: number }
+    | { error: string, delay?: number };
+
+const toAlternatives = (say: string | SpeechRecognitionAlternative[]): SpeechRecognitionAlternative[] =>
+    typeof say === 'string' ? [{ transcript: say, confidence: 0.9 }] : say;
+
+// A recognizer that never touches the microphone. It plays back a script when started,
+// and tests can also drive it by hand with say(), fail() and end().
+export class FakeSpeechRecognition extends BaseRecognizer {
+    started = false;
+    startCount = 0;
+    stopCount = 0;
+    private results: RecognitionResultInit[] = [];
+    private timers: ReturnType<typeof setTimeout>[] = [];
+
+    constructor(private script: FakeScriptStep[] = []) {
+        super();
+    }
+
+    start(): void {
+        if (this.started) {
+            // Same as the real API, which throws InvalidStateError
+            throw new Error('Recognition has already started');
+        }
+        this.started = true;
+        this.startCount++;
+        this.results = [];
+        this.later(0, () => this.emitSimple('start'));
+
+        let elapsed = 0;
+        for (const step of this.script) {
+            elapsed += step.delay ?? 500;
+            this.later(elapsed, () => {
+                if ('error' in step) {
+                    this.fail(step.error);
+                } else {
+                    this.say(step.say, step.isFinal ?? true);
+                }
+            });
+        }
+    }
+
+    stop(): void {
+        this.stopCount++;
+        this.end();
+    }
+
+    abort(): void {
+        this.stopCount++;
+        this.end();
+    }
+
+    // Delivers a result as the recognizer would; interim results are replaced by the next one
+    say(say: string | SpeechRecognitionAlternative[], isFinal = true): void {
+        if (!this.started) {
+            return;
+        }
+        const last = this.results[this.results.length - 1];
+        if (last && !last.isFinal) {
+            this.results.pop();
+        }
+        const alternatives = toAlternatives(say).slice(0, Math.max(1, this.maxAlternatives));
+        if (!isFinal && !this.interimResults) {
+            return;
+        }
+        this.results.push({ alternatives, isFinal });
+        this.emitResult(createResultEvent(this.results, this.results.length - 1));
+
+        if (isFinal && !this.continuous) {
+            this.end();
+        }
+    }
+
+    // Fires an error followed by end, like the real API does
+    fail(error: string, message = ''): void {
+        if (!this.started) {
+            return;
+        }
+        this.emitError(error, message);
+        this.end();
+    }
+
+    end(): void {
+        if (!this.started) {
+            return;
+        }
+        this.started = false;
+        this.clearTimers();
+        this.emitSimple('end');
+    }
+
+    private later(delay: number, action: () => void): void {
+        this.timers.push(setTimeout(action, delay));
+    }
+
+    private clearTimers(): void {
+        this.timers.forEach(clearTimeout);
+        this.timers = [];
+    }
+}
@@ -0,0 +1,69 @@
+import { SpeechRecognition } from '../../types/speech-recognition';
+import { createWebSpeechRecognizer, isWebSpeechSupported } from './webSpeechRecognizer';
+import { VoskSpeechRecognition, isVoskSupported } from './voskRecognizer';
+import { FakeSpeechRecognition } from './fakeRecognizer';
+
+export { FakeSpeechRecognition } from './fakeRecognizer';
+export type { FakeScriptStep } from './fakeRecognizer';
+
+export type RecognizerEngine = 'webspeech' | 'vosk' | 'fake';
+
+export interface RecognizerOption {
+    engine: RecognizerEngine;
+    // Can't recognize anything without a connection
+    needsNetwork: boolean;
+    isSupported: () => boolean;
+    create: () => SpeechRecognition;
+}
+
+// Played by the scripted engine so the app can be tried without a microphone
+const DEMO_SCRIPT = [
+    { say: 'add task buy groceries', delay: 1000 },
+    { say: 'add task call mom', delay: 2000 },
+    { say: 'mark buy groceries as done', delay: 2000 }
+];
+
+export const recognizerOptions: RecognizerOption[] = [
+    {
+        engine: 'webspeech',
+        needsNetwork: true,
+        isSupported: isWebSpeechSupported,
+        create: createWebSpeechRecognizer
+    },
+    {
+        engine: 'vosk',
+        needsNetwork: false,
+        isSupported: isVoskSupported,
+        create: () => new VoskSpeechRecognition()
+    },
+    {
+        engine: 'fake',
+        needsNetwork: false,
+        isSupported: () => process.env.NODE_ENV !== 'production',
+        create: () => new FakeSpeechRecognition(DEMO_SCRIPT)
+    }
+];
+
+export const isRecognizerEngine = (value: unknown): value is RecognizerEngine =>
+    recognizerOptions.some(option => option.engine === value);
+
+export const getAvailableRecognizers = (): RecognizerOption[] =>
+    recognizerOptions.filter(option => option.isSupported());
+
+// The first supported engine, preferring the browser's own when it exists
+export const getDefaultRecognizerEngine = (): RecognizerEngine | null =>
+    getAvailableRecognizers()[0]?.engine ?? null;
+
+export const recognizerNeedsNetwork = (engine: RecognizerEngine): boolean =>
+    recognizerOptions.some(option => option.engine === engine && option.needsNetwork);
+
+export const createRecognizer = (engine: RecognizerEngine): SpeechRecognition => {
+    const option = recognizerOptions.find(o => o.engine === engine);
+    if (!option || !option.isSupported()) {
+        throw new Error(`Speech recognition engine "${engine}" is not available in this browser`);
+    }
+    return option.create();
+};
+
+export const isAvailableRecognizerEngine = (value: unknown): value is RecognizerEngine =>
+    isRecognizerEngine(value) && recognizerOptions.some(option => option.engine === value && option.isSupported());
@@ -0,0 +1,209 @@
+import type { KaldiRecognizer, Model } from 'vosk-browser';
+import { BaseRecognizer, RecognitionResultInit, createResultEvent } from './baseRecognizer';
+
+// Vosk runs a Kaldi model compiled to WASM in a worker, so audio never leaves the browser.
+// Model archives have to be served by the app itself (see README) for this to work offline.
+const MODEL_BASE_URL = process.env.REACT_APP_VOSK_MODEL_BASE_URL || `${process.env.PUBLIC_URL}/models`;
+
+// One model per recognition language, keyed by the primary language subtag
+export const VOSK_MODELS: Record<string, string> = {
+    en: 'vosk-model-small-en-us-0.15.tar.gz',
+    de: 'vosk-model-small-de-0.15.tar.gz',
+    es: 'vosk-model-small-es-0.42.tar.gz'
+};
+
+class UnsupportedLanguageError extends Error {
+    constructor(lang: string) {
+        super(`No offline speech model for language "${lang}"`);
+        this.name = 'UnsupportedLanguageError';
+    }
+}
+
+export const getVoskModelUrl = (lang: string): string => {
+    const model = VOSK_MODELS[lang.slice(0, 2).toLowerCase()];
+    if (!model) {
+        throw new UnsupportedLanguageError(lang);
+    }
+    return `${MODEL_BASE_URL}/${model}`;
+};
+
+// Loading a model takes a few seconds and tens of MB, so each one is shared by all sessions
+const modelPromises = new Map<string, Promise<Model>>();
+
+const loadModel = (url: string): Promise<Model> => {
+    let modelPromise = modelPromises.get(url);
+    if (!modelPromise) {
+        // Imported lazily so the WASM bundle is only fetched when this engine is picked
+        modelPromise = import('vosk-browser')
+            .then(({ createModel }) => createModel(url))
+            .catch(error => {
+                modelPromises.delete(url);
+                throw error;
+            });
+        modelPromises.set(url, modelPromise);
+    }
+    return modelPromise;
+};
+
+export const isVoskSupported = (): boolean =>
+    typeof WebAssembly !== 'undefined' &&
+    typeof Worker !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia;
+
+// Maps microphone/model failures onto the Web Speech API error codes the app already handles
+const toErrorCode = (error: unknown): string => {
+    if (error instanceof UnsupportedLanguageError) {
+        return 'language-not-supported';
+    }
+    if (error instanceof DOMException) {
+        if (error.name === 'NotAllowedError' || error.name === 'SecurityError') {
+            return 'not-allowed';
+        }
+        if (error.name === 'NotFoundError' || error.name === 'NotReadableError') {
+            return 'audio-capture';
+        }
+    }
+    // Anything else is most likely the model download failing
+    return 'network';
+};
+
+export class VoskSpeechRecognition extends BaseRecognizer {
+    private active = false;
+    private results: RecognitionResultInit[] = [];
+    private stream: MediaStream | null = null;
+    private audioContext: AudioContext | null = null;
+    private processor: ScriptProcessorNode | null = null;
+    private recognizer: KaldiRecognizer | null = null;
+    private stopTimer: ReturnType<typeof setTimeout> | null = null;
+
+    start(): void {
+        if (this.active) {
+            throw new Error('Recognition has already started');
+        }
+        this.active = true;
+        this.results = [];
+
+        this.connect().catch(error => {
+            console.error('Offline recognizer failed to start:', error);
+            if (this.active) {
+                this.emitError(toErrorCode(error), error instanceof Error ? error.message : String(error));
+                this.finish();
+            }
+        });
+    }
+
+    stop(): void {
+        if (!this.recognizer) {
+            this.finish();
+            return;
+        }
+        // Flush whatever is still buffered as a final result, and end once it arrives
+        // (or shortly after, if the model had nothing left)
+        this.recognizer.retrieveFinalResult();
+        if (!this.stopTimer) {
+            this.stopTimer = setTimeout(() => this.finish(), 500);
+        }
+    }
+
+    abort(): void {
+        this.finish();
+    }
+
+    private async connect(): Promise<void> {
+        const model = await loadModel(getVoskModelUrl(this.lang));
+        const stream = await navigator.mediaDevices.getUserMedia({
+            audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 }
+        });
+        if (!this.active) {
+            // Stopped while the model or microphone was loading
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+
+        const audioContext = new AudioContext();
+        const recognizer = new model.KaldiRecognizer(audioContext.sampleRate);
+        recognizer.setWords(true);
+        recognizer.on('result', message => {
+            if (message.event === 'result' && message.result.text) {
+                const words = message.result.result || [];
+                const confidence = words.length
+                    ? words.reduce((sum, word) => sum + word.conf, 0) / words.length
+                    : 0;
+                this.pushResult({ alternatives: [{ transcript: message.result.text, confidence }], isFinal: true });
+            }
+            if (this.stopTimer) {
+                this.finish();
+            }
+        });
+        recognizer.on('partialresult', message => {
+            if (message.event === 'partialresult' && message.result.partial && this.interimResults) {
+                this.pushResult({ alternatives: [{ transcript: message.result.partial, confidence: 0 }], isFinal: false });
+            }
+        });
+
+        // ScriptProcessorNode is deprecated but is what vosk-browser's examples use and works everywhere
+        const source = audioContext.createMediaStreamSource(stream);
+        const processor = audioContext.createScriptProcessor(4096, 1, 1);
+        processor.onaudioprocess = event => {
+            try {
+                recognizer.acceptWaveform(event.inputBuffer);
+            } catch (error) {
+                console.error('Offline recognizer rejected audio:', error);
+            }
+        };
+        source.connect(processor);
+        processor.connect(audioContext.destination);
+
+        this.stream = stream;
+        this.audioContext = audioContext;
+        this.processor = processor;
+        this.recognizer = recognizer;
+        this.emitSimple('start');
+        this.emitSimple('audiostart');
+    }
+
+    private pushResult(result: RecognitionResultInit): void {
+        if (!this.active) {
+            return;
+        }
+        const last = this.results[this.results.length - 1];
+        if (last && !last.isFinal) {
+            this.results.pop();
+        }
+        this.results.push(result);
+        this.emitResult(createResultEvent(this.results, this.results.length - 1));
+
+        if (result.isFinal && !this.continuous) {
+            this.finish();
+        }
+    }
+
+    private finish(): void {
+        if (!this.active) {
+            return;
+        }
+        this.active = false;
+
+        if (this.stopTimer) {
+            clearTimeout(this.stopTimer);
+            this.stopTimer = null;
+        }
+        if (this.processor) {
+            this.processor.onaudioprocess = null;
+            this.processor.disconnect();
+        }
+        this.stream?.getTracks().forEach(track => track.stop());
+        this.audioContext?.close().catch(() => undefined);
+        this.recognizer?.remove();
+        const hadAudio = !!this.stream;
+        this.processor = null;
+        this.stream = null;
+        this.audioContext = null;
+        this.recognizer = null;
+
+        if (hadAudio) {
+            this.emitSimple('audioend');
+        }
+        this.emitSimple('end');
+    }
+}
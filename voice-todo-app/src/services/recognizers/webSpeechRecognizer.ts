@@ -0,0 +1,15 @@
+import { SpeechRecognition, SpeechRecognitionConstructor } from '../../types/speech-recognition';
+
+// The browser's built-in recognizer. Chrome and Edge send the audio to a cloud service.
+const getConstructor = (): SpeechRecognitionConstructor | undefined =>
+    window.SpeechRecognition || window.webkitSpeechRecognition;
+
+export const isWebSpeechSupported = (): boolean => !!getConstructor();
+
+export const createWebSpeechRecognizer = (): SpeechRecognition => {
+    const SpeechRecognitionImpl = getConstructor();
+    if (!SpeechRecognitionImpl) {
+        throw new Error('Speech recognition not supported in this browser');
+    }
+    return new SpeechRecognitionImpl();
+};
@@ -0,0 +1,84 @@
+import { activateWaitingServiceWorker, registerServiceWorker } from './serviceWorkerRegistration';
+
+// Just enough of the service worker API to drive an install
+class FakeWorker extends EventTarget {
+    state = 'installing';
+    postMessage = jest.fn();
+
+    setState(state: string): void {
+        this.state = state;
+        this.dispatchEvent(new Event('statechange'));
+    }
+}
+
+class FakeRegistration extends EventTarget {
+    installing: FakeWorker | null = null;
+    waiting: FakeWorker | null = null;
+
+    findUpdate(): FakeWorker {
+        this.installing = new FakeWorker();
+        this.dispatchEvent(new Event('updatefound'));
+        return this.installing;
+    }
+}
+
+const installFakeServiceWorker = (controller: object | null) => {
+    const registration = new FakeRegistration();
+    const container = Object.assign(new EventTarget(), {
+        controller,
+        register: jest.fn(() => Promise.resolve(registration))
+    });
+    Object.defineProperty(navigator, 'serviceWorker', { value: container, configurable: true });
+    return { registration, container };
+};
+
+afterEach(() => {
+    delete (navigator as { serviceWorker?: unknown }).serviceWorker;
+});
+
+describe('registerServiceWorker', () => {
+    it('reports an update once a new version is installed', async () => {
+        const { registration } = installFakeServiceWorker({});
+        const onUpdate = jest.fn();
+
+        await registerServiceWorker({ onUpdate }, '/service-worker.js');
+        const worker = registration.findUpdate();
+        expect(onUpdate).not.toHaveBeenCalled();
+
+        worker.setState('installed');
+        expect(onUpdate).toHaveBeenCalledWith(registration);
+    });
+
+    it('does not prompt on the first install', async () => {
+        const { registration } = installFakeServiceWorker(null);
+        const onUpdate = jest.fn();
+
+        await registerServiceWorker({ onUpdate }, '/service-worker.js');
+        registration.findUpdate().setState('installed');
+        expect(onUpdate).not.toHaveBeenCalled();
+    });
+
+    it('reports an update left waiting from an earlier visit', async () => {
+        const { registration } = installFakeServiceWorker({});
+        registration.waiting = new FakeWorker();
+        const onUpdate = jest.fn();
+
+        await registerServiceWorker({ onUpdate }, '/service-worker.js');
+        expect(onUpdate).toHaveBeenCalledWith(registration);
+    });
+
+    it('does nothing where service workers are not supported', async () => {
+        await expect(registerServiceWorker({ onUpdate: jest.fn() })).resolves.toBeNull();
+    });
+});
+
+describe('activateWaitingServiceWorker', () => {
+    it('asks the waiting version to take over', () => {
+        const { registration } = installFakeServiceWorker({});
+        const waiting = new FakeWorker();
+        registration.waiting = waiting;
+
+        activateWaitingServiceWorker(registration as unknown as ServiceWorkerRegistration);
+        expect(waiting.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+    });
+});
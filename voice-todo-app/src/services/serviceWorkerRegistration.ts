@@ -0,0 +1,51 @@
+// Registers the service worker built from src/service-worker.ts, which makes the app
+// installable and lets it open offline. Development builds have no service worker, so
+// nothing is cached while working on the app.
+
+export interface ServiceWorkerHandlers {
+    // A new version is installed and waits for the open tabs to let it take over
+    onUpdate: (registration: ServiceWorkerRegistration) => void;
+}
+
+const watchInstalling = (registration: ServiceWorkerRegistration, handlers: ServiceWorkerHandlers): void => {
+    const worker = registration.installing;
+    if (!worker) {
+        return;
+    }
+    worker.addEventListener('statechange', () => {
+        // Without a controller this is the first install, which needs no prompt
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+            handlers.onUpdate(registration);
+        }
+    });
+};
+
+export const registerServiceWorker = async (
+    handlers: ServiceWorkerHandlers,
+    scriptUrl = `${process.env.PUBLIC_URL}/service-worker.js`
+): Promise<ServiceWorkerRegistration | null> => {
+    if (!('serviceWorker' in navigator)) {
+        return null;
+    }
+    try {
+        const registration = await navigator.serviceWorker.register(scriptUrl);
+        // An update installed during an earlier visit may still be waiting
+        if (registration.waiting && navigator.serviceWorker.controller) {
+            handlers.onUpdate(registration);
+        }
+        registration.addEventListener('updatefound', () => watchInstalling(registration, handlers));
+        return registration;
+    } catch (error) {
+        console.error('Error registering the service worker:', error);
+        return null;
+    }
+};
+
+// Lets the waiting version take over; the page reloads once it controls it
+export const activateWaitingServiceWorker = (registration: ServiceWorkerRegistration): void => {
+    if (!registration.waiting) {
+        return;
+    }
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    registration.waiting.postMessage({ type: 'SKIP_WAITING' });
+};
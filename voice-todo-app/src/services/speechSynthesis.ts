@@ -0,0 +1,54 @@
+// Reads feedback aloud with the browser's speech synthesis, for hands-free use
+
+export interface SpeakOptions {
+    lang: string;
+    // voiceURI of the voice to use; the browser's default for the language when missing
+    voiceURI?: string | null;
+    // 1 is normal speed
+    rate?: number;
+    onStart?: () => void;
+    // Called when the utterance finishes, fails or is cut off
+    onEnd?: () => void;
+}
+
+export const isSpeechSynthesisSupported = (): boolean =>
+    typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined';
+
+// Installed voices for a language tag, matched on the primary language ("de" for "de-DE")
+export const getVoices = (lang: string): SpeechSynthesisVoice[] => {
+    if (!isSpeechSynthesisSupported()) {
+        return [];
+    }
+    const primary = lang.split('-')[0].toLowerCase();
+    return window.speechSynthesis.getVoices().filter(voice => voice.lang.toLowerCase().split(/[-_]/)[0] === primary);
+};
+
+// Speaks the text, cutting off anything still being read.
+// Returns false when the browser can't speak, so callers can rely on the on-screen text alone.
+export const speak = (text: string, options: SpeakOptions): boolean => {
+    if (!isSpeechSynthesisSupported()) {
+        return false;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = options.lang;
+    utterance.rate = options.rate ?? 1;
+    // A stored voice from another language would read the text with the wrong pronunciation
+    const voice = getVoices(options.lang).find(item => item.voiceURI === options.voiceURI);
+    if (voice) {
+        utterance.voice = voice;
+    }
+    utterance.onstart = () => options.onStart?.();
+    utterance.onend = () => options.onEnd?.();
+    utterance.onerror = () => options.onEnd?.();
+
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+    return true;
+};
+
+export const stopSpeaking = (): void => {
+    if (isSpeechSynthesisSupported()) {
+        window.speechSynthesis.cancel();
+    }
+};
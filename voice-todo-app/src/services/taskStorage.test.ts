@@ -0,0 +1,120 @@
+import { TASK_SCHEMA_VERSION, createTaskStore, migrateStoredTasks } from './taskStorage';
+
+const STORAGE_KEY = 'voice-todo-app:tasks';
+
+const task = {
+    id: '3b241101-e2bb-4255-8caf-4136c566a962',
+    content: 'buy milk',
+    completed: false,
+    due: null,
+    priority: null,
+    tags: [],
+    list: null
+};
+
+afterEach(() => {
+    window.localStorage.clear();
+    jest.restoreAllMocks();
+});
+
+describe('migrateStoredTasks', () => {
+    it('brings an unversioned task array up to the current schema', () => {
+        const data = migrateStoredTasks([{ id: 'a', content: 'buy milk', completed: true }]);
+        expect(data.version).toBe(TASK_SCHEMA_VERSION);
+        expect(data.tasks).toEqual([
+            { id: 'a', content: 'buy milk', completed: true, due: null, priority: null, tags: [], list: null }
+        ]);
+    });
+
+    it('gives legacy numeric ids fixed UUID-shaped ids', () => {
+        const legacy = { version: 2, updatedAt: 1, tasks: [{ ...task, id: 1700000000000 }, { ...task, id: 1700000000000 }] };
+        const ids = migrateStoredTasks(legacy).tasks.map(migrated => migrated.id);
+        expect(ids[0]).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+        expect(ids[1]).not.toBe(ids[0]);
+        expect(migrateStoredTasks(legacy).tasks.map(migrated => migrated.id)).toEqual(ids);
+    });
+
+    it('keeps data that is already current', () => {
+        const stored = { version: TASK_SCHEMA_VERSION, updatedAt: 42, tasks: [task] };
+        expect(migrateStoredTasks(stored)).toEqual(stored);
+    });
+
+    it('starts empty when nothing was saved', () => {
+        expect(migrateStoredTasks(null)).toEqual({ version: TASK_SCHEMA_VERSION, updatedAt: 0, tasks: [] });
+    });
+
+    it('drops damaged tasks and keeps the rest', () => {
+        const data = migrateStoredTasks({
+            version: TASK_SCHEMA_VERSION,
+            updatedAt: 1,
+            tasks: [task, null, 'buy eggs', { ...task, id: 'b', content: 7 }, { ...task, id: 'c', priority: 'urgent' }]
+        });
+        expect(data.tasks).toEqual([task]);
+    });
+
+    it('rejects data that is no task list or from a newer app', () => {
+        expect(() => migrateStoredTasks('tasks')).toThrow('not a task list');
+        expect(() => migrateStoredTasks({ version: TASK_SCHEMA_VERSION + 1, tasks: [] })).toThrow('newer schema');
+    });
+});
+
+describe('createTaskStore', () => {
+    it('saves tasks and loads them back', async () => {
+        await createTaskStore().save([task]);
+        await expect(createTaskStore().load()).resolves.toEqual([task]);
+    });
+
+    it('upgrades tasks saved by an older version', async () => {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify([{ id: 'a', content: 'buy milk', completed: false }]));
+        const [loaded] = await createTaskStore().load();
+        expect(loaded).toMatchObject({ id: 'a', content: 'buy milk', tags: [] });
+    });
+
+    it('gives version 2 tasks the same ids on every load', async () => {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify({
+            version: 2,
+            updatedAt: 1,
+            tasks: [{ ...task, id: 1700000000000 }, { ...task, id: 1700000000001, content: 'buy eggs' }]
+        }));
+        const first = await createTaskStore().load();
+        const second = await createTaskStore().load();
+        expect(second.map(loaded => loaded.id)).toEqual(first.map(loaded => loaded.id));
+        expect(new Set(first.map(loaded => loaded.id)).size).toBe(2);
+    });
+
+    it('fails to load unreadable data instead of treating it as empty', async () => {
+        window.localStorage.setItem(STORAGE_KEY, '{not json');
+        await expect(createTaskStore().load()).rejects.toThrow();
+    });
+
+    it('passes on valid updates from other tabs and ignores malformed ones', () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const listener = jest.fn();
+        const unsubscribe = createTaskStore().subscribe(listener);
+
+        window.dispatchEvent(new StorageEvent('storage', { key: STORAGE_KEY, newValue: '{not json' }));
+        expect(listener).not.toHaveBeenCalled();
+
+        const update = { version: TASK_SCHEMA_VERSION, updatedAt: Date.now(), tasks: [task] };
+        window.dispatchEvent(new StorageEvent('storage', { key: STORAGE_KEY, newValue: JSON.stringify(update) }));
+        expect(listener).toHaveBeenCalledWith([task]);
+
+        unsubscribe();
+    });
+
+    it('closes its broadcast channel on unsubscribe', () => {
+        const close = jest.fn();
+        class FakeBroadcastChannel extends EventTarget {
+            postMessage = jest.fn();
+            close = close;
+        }
+        const original = (window as { BroadcastChannel?: unknown }).BroadcastChannel;
+        Object.defineProperty(window, 'BroadcastChannel', { value: FakeBroadcastChannel, configurable: true, writable: true });
+        try {
+            createTaskStore().subscribe(jest.fn())();
+            expect(close).toHaveBeenCalled();
+        } finally {
+            Object.defineProperty(window, 'BroadcastChannel', { value: original, configurable: true, writable: true });
+        }
+    });
+});
@@ -0,0 +1,287 @@
+import { Priority, Task } from '../types/task';
+
+// Bump this whenever the saved shape changes and add a matching migration below
+export const TASK_SCHEMA_VERSION = 3;
+
+const DB_NAME = 'voice-todo-app';
+const DB_STORE = 'tasks';
+const RECORD_KEY = 'task-list';
+const LOCAL_STORAGE_KEY = 'voice-todo-app:tasks';
+const CHANNEL_NAME = 'voice-todo-app:tasks';
+
+// What actually gets written to IndexedDB / localStorage
+export interface StoredTaskList {
+    version: number;
+    updatedAt: number;
+    tasks: Task[];
+}
+
+// A storage backend only needs to read and write the whole snapshot
+interface StorageBackend {
+    read(): Promise<unknown>;
+    write(data: StoredTaskList): Promise<void>;
+}
+
+export interface TaskStore {
+    load(): Promise<Task[]>;
+    save(tasks: Task[]): Promise<void>;
+    // Called with the new task list whenever another tab saves
+    subscribe(listener: (tasks: Task[]) => void): () => void;
+}
+
+// Saved data of any version, as far as the migrations rely on it: task fields are only checked
+// once the data has been brought up to the current version
+interface VersionedTaskList {
+    version: number;
+    updatedAt: number;
+    tasks: Record<string, unknown>[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toRecords = (value: unknown): Record<string, unknown>[] =>
+    Array.isArray(value) ? value.filter(isRecord) : [];
+
+const isPriority = (value: unknown): value is Priority =>
+    value === 'low' || value === 'medium' || value === 'high';
+
+const isTask = (value: Record<string, unknown>): value is Record<string, unknown> & Task =>
+    typeof value.id === 'string' && typeof value.content === 'string' && typeof value.completed === 'boolean' &&
+    (value.due === null || typeof value.due === 'string') &&
+    (value.priority === null || isPriority(value.priority)) &&
+    Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string') &&
+    (value.list === null || typeof value.list === 'string');
+
+// Version 0 is the unversioned shape: a bare array of tasks
+const toVersionedTaskList = (raw: unknown): VersionedTaskList => {
+    if (Array.isArray(raw)) {
+        return { version: 0, updatedAt: Date.now(), tasks: toRecords(raw) };
+    }
+    if (!isRecord(raw)) {
+        throw new Error('Saved tasks are not a task list');
+    }
+    return {
+        version: typeof raw.version === 'number' ? raw.version : 0,
+        updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : 0,
+        tasks: toRecords(raw.tasks)
+    };
+};
+
+// Version 2 ids were Date.now() numbers. Each maps to a fixed UUID-shaped id, so migrated tasks
+// get the same ids on every load, before the list is saved again, and on every device with
+// the same list. Tasks without a usable id go by their position; repeats get their own variant.
+const legacyTaskIds = (tasks: Record<string, unknown>[]): string[] => {
+    const seen = new Map<number, number>();
+    return tasks.map((task, index) => {
+        const legacy = typeof task.id === 'number' && Number.isSafeInteger(task.id) && task.id >= 0 ? task.id : index;
+        const repeat = seen.get(legacy) ?? 0;
+        seen.set(legacy, repeat + 1);
+        return `00000000-0000-4000-${(0x8000 + repeat).toString(16)}-${legacy.toString(16).padStart(12, '0').slice(-12)}`;
+    });
+};
+
+// Each migration upgrades data saved at version N to version N + 1
+const migrations: Record<number, (data: VersionedTaskList) => VersionedTaskList> = {
+    0: data => ({ ...data, version: 1 }),
+    // Version 2 added due dates, priorities, tags and lists
+    1: data => ({
+        ...data,
+        version: 2,
+        tasks: data.tasks.map(task => ({
+            due: null,
+            priority: null,
+            tags: [],
+            list: null,
+            ...task
+        }))
+    }),
+    // Version 3 replaced Date.now() ids, which collide between devices, with UUIDs
+    2: data => {
+        const ids = legacyTaskIds(data.tasks);
+        return {
+            ...data,
+            version: 3,
+            tasks: data.tasks.map((task, index) => ({
+                ...task,
+                id: typeof task.id === 'string' ? task.id : ids[index]
+            }))
+        };
+    }
+};
+
+const migrateToCurrentVersion = (raw: unknown): VersionedTaskList => {
+    if (raw === null || raw === undefined) {
+        return { version: TASK_SCHEMA_VERSION, updatedAt: 0, tasks: [] };
+    }
+
+    let data = toVersionedTaskList(raw);
+    while (data.version < TASK_SCHEMA_VERSION) {
+        const migrate = migrations[data.version];
+        if (!migrate) {
+            throw new Error(`No migration for task schema version ${data.version}`);
+        }
+        data = migrate(data);
+    }
+
+    if (data.version > TASK_SCHEMA_VERSION) {
+        throw new Error(`Saved tasks use a newer schema (${data.version}) than this app supports (${TASK_SCHEMA_VERSION})`);
+    }
+    return data;
+};
+
+// The task records of saved data, migrated but unchecked, for callers that fill in missing fields themselves
+export const migrateTaskRecords = (raw: unknown): Record<string, unknown>[] => migrateToCurrentVersion(raw).tasks;
+
+export const migrateStoredTasks = (raw: unknown): StoredTaskList => {
+    const data = migrateToCurrentVersion(raw);
+    // Damaged entries are dropped rather than breaking the whole list
+    return { version: data.version, updatedAt: data.updatedAt, tasks: data.tasks.filter(isTask) };
+};
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+        request.result.createObjectStore(DB_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const createIndexedDbBackend = (): StorageBackend => {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    const getDb = () => {
+        if (!dbPromise) {
+            dbPromise = openDatabase();
+        }
+        return dbPromise;
+    };
+
+    const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> =>
+        getDb().then(db => new Promise<T>((resolve, reject) => {
+            const request = action(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }));
+
+    return {
+        read: () => run<unknown>('readonly', store => store.get(RECORD_KEY)),
+        write: (data) => run<void>('readwrite', store => store.put(data, RECORD_KEY))
+    };
+};
+
+const createLocalStorageBackend = (): StorageBackend => ({
+    read: async () => {
+        const raw = window.localStorage.getItem(LOCAL_STORAGE_KEY);
+        return raw ? JSON.parse(raw) : null;
+    },
+    write: async (data) => {
+        window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(data));
+    }
+});
+
+// Keeps working in memory if neither IndexedDB nor localStorage is usable (e.g. private mode)
+const createMemoryBackend = (): StorageBackend => {
+    let snapshot: StoredTaskList | null = null;
+    return {
+        read: async () => snapshot,
+        write: async (data) => {
+            snapshot = data;
+        }
+    };
+};
+
+const isLocalStorageAvailable = (): boolean => {
+    try {
+        const probe = `${LOCAL_STORAGE_KEY}:probe`;
+        window.localStorage.setItem(probe, probe);
+        window.localStorage.removeItem(probe);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const createTaskStore = (): TaskStore => {
+    const fallback = isLocalStorageAvailable() ? createLocalStorageBackend() : createMemoryBackend();
+    let backend: StorageBackend = 'indexedDB' in window && window.indexedDB ? createIndexedDbBackend() : fallback;
+
+    // Switch to the fallback the first time IndexedDB fails (Safari private mode, blocked storage...)
+    const withFallback = async <T>(action: (b: StorageBackend) => Promise<T>): Promise<T> => {
+        try {
+            return await action(backend);
+        } catch (error) {
+            if (backend === fallback) {
+                throw error;
+            }
+            console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+            backend = fallback;
+            return action(backend);
+        }
+    };
+
+    let channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+    // Only the most recent snapshot we know about wins, so late messages don't roll tabs back
+    let lastUpdatedAt = 0;
+
+    return {
+        load: async () => {
+            const data = migrateStoredTasks(await withFallback(b => b.read()));
+            lastUpdatedAt = data.updatedAt;
+            return data.tasks;
+        },
+
+        save: async (tasks) => {
+            const data: StoredTaskList = {
+                version: TASK_SCHEMA_VERSION,
+                updatedAt: Math.max(Date.now(), lastUpdatedAt + 1),
+                tasks
+            };
+            lastUpdatedAt = data.updatedAt;
+            await withFallback(b => b.write(data));
+            channel?.postMessage(data);
+        },
+
+        subscribe: (listener) => {
+            const handleSnapshot = (raw: unknown) => {
+                try {
+                    const data = migrateStoredTasks(raw);
+                    if (data.updatedAt > lastUpdatedAt) {
+                        lastUpdatedAt = data.updatedAt;
+                        listener(data.tasks);
+                    }
+                } catch (error) {
+                    console.error('Ignoring task update from another tab:', error);
+                }
+            };
+
+            const handleMessage = (event: MessageEvent) => handleSnapshot(event.data);
+
+            // Without BroadcastChannel, the native storage event still covers the localStorage backend
+            const handleStorage = (event: StorageEvent) => {
+                if (event.key !== LOCAL_STORAGE_KEY || !event.newValue) {
+                    return;
+                }
+                let raw: unknown;
+                try {
+                    raw = JSON.parse(event.newValue);
+                } catch (error) {
+                    console.error('Ignoring unreadable task update from another tab:', error);
+                    return;
+                }
+                handleSnapshot(raw);
+            };
+
+            channel?.addEventListener('message', handleMessage);
+            window.addEventListener('storage', handleStorage);
+
+            // Unsubscribing ends the store's use; later saves are no longer broadcast
+            return () => {
+                channel?.removeEventListener('message', handleMessage);
+                channel?.close();
+                channel = null;
+                window.removeEventListener('storage', handleStorage);
+            };
+        }
+    };
+};
@@ -0,0 +1,281 @@
+import { SyncStatus, TaskSyncClient } from './taskSync';
+import { SyncRecord, mergeRecords } from '../utils/syncRecords';
+import { Task, emptyTaskDetails } from '../types/task';
+
+const URL = 'https://sync.test/api';
+
+// An in-memory server implementing the documented API
+const createServer = () => {
+    const stored = new Map<string, { record: SyncRecord, version: number }>();
+    let version = 0;
+    let failing = false;
+
+    const answer = (status: number, body?: unknown) => Promise.resolve({
+        ok: status < 400,
+        status,
+        json: () => Promise.resolve(body)
+    } as Response);
+
+    const fetch = jest.fn((url: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        if (failing) {
+            return answer(503);
+        }
+        const { pathname, searchParams } = new window.URL(String(url));
+        if (pathname !== '/api/tasks') {
+            return answer(404);
+        }
+        if (init?.method === 'PATCH') {
+            const { records } = JSON.parse(String(init.body)) as { records: SyncRecord[] };
+            const merged = records.map(record => {
+                const next = mergeRecords(stored.get(record.id)?.record, record);
+                stored.set(record.id, { record: next, version: ++version });
+                return next;
+            });
+            return answer(200, { version, records: merged });
+        }
+        const since = Number(searchParams.get('since'));
+        const records = Array.from(stored.values()).filter(entry => entry.version > since).map(entry => entry.record);
+        return answer(200, { version, records });
+    });
+
+    return {
+        fetch: fetch as unknown as typeof window.fetch,
+        calls: fetch.mock.calls,
+        stored,
+        setFailing: (value: boolean) => {
+            failing = value;
+        }
+    };
+};
+
+const createStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            items.set(key, value);
+        }
+    };
+};
+
+type Server = ReturnType<typeof createServer>;
+
+// One device: its task list, its own storage and clock, and a sync client
+const createDevice = (server: Server, options: { storage?: ReturnType<typeof createStorage>, online?: boolean } = {}) => {
+    const device = {
+        tasks: [] as Task[],
+        online: options.online ?? true,
+        clock: 1000,
+        storage: options.storage ?? createStorage(),
+        statuses: [] as SyncStatus[],
+        client: null as unknown as TaskSyncClient,
+        // Changes the task list like the app does, then tells the client
+        edit: (update: (tasks: Task[]) => Task[]) => {
+            device.clock += 10;
+            device.tasks = update(device.tasks);
+            device.client.localChange(device.tasks);
+        }
+    };
+    device.client = new TaskSyncClient(URL, {
+        getTasks: () => device.tasks,
+        onRemoteTasks: tasks => {
+            device.tasks = tasks;
+        },
+        onStatusChange: status => device.statuses.push(status)
+    }, {
+        fetch: server.fetch,
+        storage: device.storage,
+        now: () => device.clock,
+        isOnline: () => device.online
+    });
+    return device;
+};
+
+const task = (id: string, content: string, extra: Partial<Task> = {}): Task => ({
+    id,
+    content,
+    completed: false,
+    ...emptyTaskDetails(),
+    ...extra
+});
+
+const contents = (tasks: Task[]) => tasks.map(({ content, completed }) => [content, completed]);
+
+beforeEach(() => {
+    jest.useFakeTimers();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('TaskSyncClient', () => {
+    it('brings two devices to the same tasks', async () => {
+        const server = createServer();
+        const phone = createDevice(server);
+        const laptop = createDevice(server);
+
+        phone.edit(() => [task('a', 'buy milk'), task('b', 'call mom')]);
+        await phone.client.sync();
+        await laptop.client.sync();
+        expect(contents(laptop.tasks)).toEqual([['buy milk', false], ['call mom', false]]);
+
+        laptop.edit(tasks => [...tasks, task('c', 'water plants')]);
+        await laptop.client.sync();
+        await phone.client.sync();
+        expect(contents(phone.tasks)).toEqual(contents(laptop.tasks));
+        expect(phone.client.status).toMatchObject({ state: 'synced', pending: 0, error: null });
+    });
+
+    it('sends a burst of edits in one request after a short delay', async () => {
+        const server = createServer();
+        const phone = createDevice(server);
+
+        phone.edit(() => [task('a', 'buy milk')]);
+        phone.edit(tasks => [...tasks, task('b', 'call mom')]);
+        expect(server.calls).toHaveLength(0);
+
+        jest.advanceTimersByTime(1000);
+        await phone.client.sync();
+        const patches = server.calls.filter(([, init]) => init?.method === 'PATCH');
+        expect(patches).toHaveLength(1);
+        expect(server.stored.size).toBe(2);
+    });
+
+    it('queues changes while offline and sends them when back online', async () => {
+        const server = createServer();
+        const phone = createDevice(server, { online: false });
+
+        phone.edit(() => [task('a', 'buy milk')]);
+        await phone.client.sync();
+        expect(server.calls).toHaveLength(0);
+        expect(phone.client.status).toMatchObject({ state: 'offline', pending: 1 });
+
+        phone.online = true;
+        await phone.client.sync();
+        expect(server.stored.get('a')?.record.values.content).toBe('buy milk');
+        expect(phone.client.status).toMatchObject({ state: 'synced', pending: 0 });
+    });
+
+    it('keeps both edits when two devices change different fields', async () => {
+        const server = createServer();
+        const phone = createDevice(server);
+        const laptop = createDevice(server);
+        phone.edit(() => [task('a', 'buy milk')]);
+        await phone.client.sync();
+        await laptop.client.sync();
+
+        phone.edit(tasks => tasks.map(item => ({ ...item, completed: true })));
+        laptop.edit(tasks => tasks.map(item => ({ ...item, content: 'buy oat milk' })));
+        await phone.client.sync();
+        await laptop.client.sync();
+        await phone.client.sync();
+
+        expect(contents(phone.tasks)).toEqual([['buy oat milk', true]]);
+        expect(contents(laptop.tasks)).toEqual([['buy oat milk', true]]);
+    });
+
+    it('lets the later edit win when both devices change the same field', async () => {
+        const server = createServer();
+        const phone = createDevice(server);
+        const laptop = createDevice(server);
+        phone.edit(() => [task('a', 'buy milk')]);
+        await phone.client.sync();
+        await laptop.client.sync();
+
+        laptop.clock = phone.clock + 100;
+        laptop.edit(tasks => tasks.map(item => ({ ...item, content: 'buy bread' })));
+        phone.edit(tasks => tasks.map(item => ({ ...item, content: 'buy eggs' })));
+        // The earlier edit reaches the server last and still loses
+        await laptop.client.sync();
+        await phone.client.sync();
+        await laptop.client.sync();
+
+        expect(contents(phone.tasks)).toEqual([['buy bread', false]]);
+        expect(contents(laptop.tasks)).toEqual([['buy bread', false]]);
+    });
+
+    it('passes deletions on to other devices', async () => {
+        const server = createServer();
+        const phone = createDevice(server);
+        const laptop = createDevice(server);
+        phone.edit(() => [task('a', 'buy milk'), task('b', 'call mom')]);
+        await phone.client.sync();
+        await laptop.client.sync();
+
+        laptop.edit(tasks => tasks.filter(item => item.id !== 'a'));
+        await laptop.client.sync();
+        await phone.client.sync();
+
+        expect(contents(phone.tasks)).toEqual([['call mom', false]]);
+        expect(server.stored.get('a')?.record.values.deleted).toBe(true);
+    });
+
+    it('keeps the queue and backs off when the server fails', async () => {
+        const server = createServer();
+        const phone = createDevice(server);
+        server.setFailing(true);
+
+        phone.edit(() => [task('a', 'buy milk')]);
+        await phone.client.sync();
+        expect(phone.client.status).toMatchObject({ state: 'error', pending: 1, error: 'Sync server answered 503' });
+
+        server.setFailing(false);
+        jest.advanceTimersByTime(2000);
+        await Promise.resolve();
+        await phone.client.sync();
+        expect(phone.client.status).toMatchObject({ state: 'synced', pending: 0 });
+        expect(server.stored.size).toBe(1);
+    });
+
+    it('remembers queued changes across reloads', async () => {
+        const server = createServer();
+        const storage = createStorage();
+        const before = createDevice(server, { storage, online: false });
+        before.edit(() => [task('a', 'buy milk')]);
+        before.edit(() => []);
+        before.client.dispose();
+
+        // The task was deleted before it ever reached the server; the tombstone still goes out
+        const after = createDevice(server, { storage });
+        await after.client.sync();
+        expect(server.stored.get('a')?.record.values.deleted).toBe(true);
+        expect(after.tasks).toEqual([]);
+    });
+
+    it('ignores malformed records from the server', async () => {
+        const server = createServer();
+        const phone = createDevice(server);
+        phone.edit(() => [task('a', 'buy milk')]);
+        await phone.client.sync();
+
+        const good = server.stored.get('a')!.record;
+        const broken = [
+            { ...good, id: 'b', values: { ...good.values, content: 5 } },
+            { ...good, id: 'c', values: { ...good.values, tags: 'home' } },
+            { ...good, id: 'd', values: { ...good.values, priority: 'urgent' } },
+            { ...good, id: 'e', changedAt: { ...good.changedAt, list: 'yesterday' } },
+            { id: 'f', values: good.values }
+        ];
+        broken.forEach((record, index) => {
+            server.stored.set(record.id, { record: record as unknown as SyncRecord, version: 10 + index });
+        });
+
+        const laptop = createDevice(server);
+        await laptop.client.sync();
+        expect(laptop.tasks.map(({ id }) => id)).toEqual(['a']);
+        expect(laptop.client.status).toMatchObject({ state: 'synced', error: null });
+    });
+
+    it('starts over when the saved sync state is damaged', async () => {
+        const server = createServer();
+        const storage = createStorage();
+        storage.setItem('voice-todo-app:sync', JSON.stringify({ url: URL, version: 3, records: { a: { id: 'a' } }, pending: 'a' }));
+
+        const phone = createDevice(server, { storage });
+        phone.edit(() => [task('a', 'buy milk')]);
+        await phone.client.sync();
+        expect(server.stored.get('a')?.record.values.content).toBe('buy milk');
+        expect(phone.client.status).toMatchObject({ state: 'synced', pending: 0 });
+    });
+});
@@ -0,0 +1,325 @@
+// Keeps the task list in sync with a self-hosted server through a small REST API:
+//
+//   GET   {url}/tasks?since=<version>  -> { version, records }  every record changed after `since`
+//   PATCH {url}/tasks  { records }     -> { version, records }  the sent records as merged and stored
+//
+// `version` is a counter the server increases with every stored change; 0 asks for everything.
+// Records carry a timestamp per field and are merged field by field on both sides
+// (see utils/syncRecords). Changes made while offline are queued and sent once the server
+// can be reached again; the queue survives reloads.
+
+import { PRIORITIES, Priority, Task } from '../types/task';
+import {
+    SYNCED_FIELDS,
+    SyncRecord,
+    SyncedField,
+    SyncedValues,
+    applyRecords,
+    mergeRecords,
+    recordLocalChanges,
+    sameRecord
+} from '../utils/syncRecords';
+
+export type SyncState = 'off' | 'syncing' | 'synced' | 'offline' | 'error';
+
+export interface SyncStatus {
+    state: SyncState;
+    // Changed tasks not on the server yet
+    pending: number;
+    lastSyncedAt: number | null;
+    error: string | null;
+}
+
+export interface SyncHandlers {
+    // The task list as it is now
+    getTasks: () => Task[];
+    // Other devices changed tasks; this list should replace the current one
+    onRemoteTasks: (tasks: Task[]) => void;
+    onStatusChange?: (status: SyncStatus) => void;
+}
+
+export interface SyncOptions {
+    fetch: typeof fetch;
+    // Where the queue and the last known records are kept between sessions
+    storage: Pick<Storage, 'getItem' | 'setItem'> | null;
+    now: () => number;
+    isOnline: () => boolean;
+    // Local changes are sent after this delay, so a burst of edits goes in one request
+    pushDelay: number;
+    // How often to look for changes from other devices
+    pollInterval: number;
+    // First retry delay after a failed sync; doubles with every failure in a row
+    baseRetryDelay: number;
+    maxRetryDelay: number;
+}
+
+interface SyncResponse {
+    version: number;
+    records: SyncRecord[];
+}
+
+interface StoredSyncState {
+    // The server this state belongs to; another server starts from scratch
+    url: string;
+    version: number;
+    records: Record<string, SyncRecord>;
+    // Ids of records with changes the server hasn't confirmed yet
+    pending: string[];
+}
+
+const STATE_KEY = 'voice-todo-app:sync';
+
+export const OFF_SYNC_STATUS: SyncStatus = { state: 'off', pending: 0, lastSyncedAt: null, error: null };
+
+const defaultStorage = (): SyncOptions['storage'] => {
+    try {
+        return window.localStorage;
+    } catch {
+        return null;
+    }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Field by field like a saved task (see taskStorage), since the values end up in the task list
+const isSyncedValues = (value: unknown): value is SyncedValues =>
+    isObject(value) &&
+    typeof value.content === 'string' && typeof value.completed === 'boolean' &&
+    (value.due === null || typeof value.due === 'string') &&
+    (value.priority === null || PRIORITIES.includes(value.priority as Priority)) &&
+    Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string') &&
+    (value.list === null || typeof value.list === 'string') &&
+    typeof value.deleted === 'boolean';
+
+const isFieldTimes = (value: unknown): value is Record<SyncedField, number> =>
+    isObject(value) && SYNCED_FIELDS.every(field => typeof value[field] === 'number' && Number.isFinite(value[field]));
+
+const isSyncRecord = (value: unknown): value is SyncRecord =>
+    isObject(value) && typeof value.id === 'string' && isSyncedValues(value.values) && isFieldTimes(value.changedAt);
+
+const isStoredSyncState = (value: unknown): value is StoredSyncState =>
+    isObject(value) && typeof value.url === 'string' && typeof value.version === 'number' &&
+    isObject(value.records) &&
+    Object.entries(value.records).every(([id, record]) => isSyncRecord(record) && record.id === id) &&
+    Array.isArray(value.pending) && value.pending.every(id => typeof id === 'string');
+
+export class TaskSyncClient {
+    status: SyncStatus = { ...OFF_SYNC_STATUS };
+    private url: string;
+    private options: SyncOptions;
+    private state: StoredSyncState;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private running: Promise<void> | null = null;
+    // Another sync was asked for while one was running
+    private syncAgain = false;
+    private failures = 0;
+    private disposed = false;
+
+    constructor(url: string, private handlers: SyncHandlers, options: Partial<SyncOptions> = {}) {
+        this.url = url.replace(/\/+$/, '');
+        this.options = {
+            fetch: (...args) => window.fetch(...args),
+            storage: defaultStorage(),
+            now: () => Date.now(),
+            isOnline: () => typeof navigator === 'undefined' || navigator.onLine !== false,
+            pushDelay: 1000,
+            pollInterval: 30000,
+            baseRetryDelay: 2000,
+            maxRetryDelay: 60000,
+            ...options
+        };
+        this.state = this.loadState();
+    }
+
+    // Syncs now and then keeps polling; also syncs as soon as the browser is back online
+    start(): void {
+        window.addEventListener('online', this.handleOnline);
+        window.addEventListener('offline', this.handleOffline);
+        this.sync();
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        this.clearTimer();
+        window.removeEventListener('online', this.handleOnline);
+        window.removeEventListener('offline', this.handleOffline);
+    }
+
+    // Records what changed in the task list; it is sent after a short delay
+    localChange(tasks: Task[]): void {
+        if (this.recordChanges(tasks) && !this.running) {
+            this.schedule(this.options.pushDelay);
+        }
+    }
+
+    // Sends queued changes and fetches other devices' changes. Never rejects; see status.
+    sync(): Promise<void> {
+        if (this.running) {
+            this.syncAgain = true;
+            return this.running;
+        }
+        this.running = this.run().finally(() => {
+            this.running = null;
+            if (this.syncAgain && !this.disposed) {
+                this.syncAgain = false;
+                this.sync();
+            }
+        });
+        return this.running;
+    }
+
+    private handleOnline = (): void => {
+        this.sync();
+    };
+
+    private handleOffline = (): void => {
+        this.setStatus('offline');
+    };
+
+    private async run(): Promise<void> {
+        this.clearTimer();
+        if (this.disposed) {
+            return;
+        }
+        this.recordChanges(this.handlers.getTasks());
+        if (!this.options.isOnline()) {
+            // The online event starts the next attempt
+            this.setStatus('offline');
+            return;
+        }
+
+        this.setStatus('syncing');
+        try {
+            const sent = this.state.pending.map(id => this.state.records[id]).filter(Boolean);
+            if (sent.length > 0) {
+                const stored = await this.request('PATCH', '/tasks', { records: sent });
+                this.applyServerRecords(stored.records);
+            }
+            const changes = await this.request('GET', `/tasks?since=${this.state.version}`);
+            this.applyServerRecords(changes.records);
+            this.state = { ...this.state, version: Math.max(this.state.version, changes.version) };
+            this.saveState();
+
+            this.failures = 0;
+            this.setStatus('synced', null, this.options.now());
+            this.schedule(this.options.pollInterval);
+        } catch (error) {
+            if (this.disposed) {
+                return;
+            }
+            const delay = Math.min(this.options.baseRetryDelay * 2 ** this.failures, this.options.maxRetryDelay);
+            this.failures++;
+            this.setStatus(
+                this.options.isOnline() ? 'error' : 'offline',
+                error instanceof Error ? error.message : String(error)
+            );
+            this.schedule(delay);
+        }
+    }
+
+    private async request(method: 'GET' | 'PATCH', path: string, body?: unknown): Promise<SyncResponse> {
+        const response = await this.options.fetch(`${this.url}${path}`, {
+            method,
+            headers: body ? { 'Content-Type': 'application/json' } : undefined,
+            body: body ? JSON.stringify(body) : undefined
+        });
+        if (!response.ok) {
+            throw new Error(`Sync server answered ${response.status}`);
+        }
+        const data = await response.json();
+        if (typeof data?.version !== 'number' || !Array.isArray(data.records)) {
+            throw new Error('Unexpected answer from the sync server');
+        }
+        return { version: data.version, records: data.records.filter(isSyncRecord) };
+    }
+
+    // Merges what the server has into the local records and the task list
+    private applyServerRecords(records: SyncRecord[]): void {
+        if (records.length === 0) {
+            return;
+        }
+        // Edits made while the request was on its way must not be lost
+        this.recordChanges(this.handlers.getTasks());
+
+        const nextRecords = { ...this.state.records };
+        const confirmed = new Set<string>();
+        const merged = records.map(serverRecord => {
+            const record = mergeRecords(nextRecords[serverRecord.id], serverRecord);
+            nextRecords[record.id] = record;
+            // Still pending if we have something newer than the server
+            if (sameRecord(record, serverRecord)) {
+                confirmed.add(record.id);
+            }
+            return record;
+        });
+        this.state = {
+            ...this.state,
+            records: nextRecords,
+            pending: this.state.pending.filter(id => !confirmed.has(id))
+        };
+        this.saveState();
+
+        const tasks = this.handlers.getTasks();
+        const next = applyRecords(tasks, merged);
+        if (next !== tasks) {
+            this.handlers.onRemoteTasks(next);
+        }
+    }
+
+    // Returns whether anything changed
+    private recordChanges(tasks: Task[]): boolean {
+        const { records, changed } = recordLocalChanges(this.state.records, tasks, this.options.now());
+        if (changed.length === 0) {
+            return false;
+        }
+        const pending = this.state.pending.concat(changed.filter(id => !this.state.pending.includes(id)));
+        this.state = { ...this.state, records, pending };
+        this.saveState();
+        this.setStatus(this.status.state === 'off' ? 'synced' : this.status.state);
+        return true;
+    }
+
+    private loadState(): StoredSyncState {
+        const fresh: StoredSyncState = { url: this.url, version: 0, records: {}, pending: [] };
+        try {
+            const raw = this.options.storage?.getItem(STATE_KEY);
+            const saved: unknown = raw ? JSON.parse(raw) : null;
+            // A damaged state starts over; the next change records every task again
+            return isStoredSyncState(saved) && saved.url === this.url ? saved : fresh;
+        } catch {
+            return fresh;
+        }
+    }
+
+    private saveState(): void {
+        try {
+            this.options.storage?.setItem(STATE_KEY, JSON.stringify(this.state));
+        } catch (error) {
+            console.warn('Couldn\'t save the sync queue:', error);
+        }
+    }
+
+    private schedule(delay: number): void {
+        this.clearTimer();
+        if (!this.disposed) {
+            this.timer = setTimeout(() => this.sync(), delay);
+        }
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private setStatus(
+        state: SyncState,
+        error: string | null = state === 'error' ? this.status.error : null,
+        lastSyncedAt: number | null = this.status.lastSyncedAt
+    ): void {
+        this.status = { state, pending: this.state.pending.length, lastSyncedAt, error };
+        this.handlers.onStatusChange?.(this.status);
+    }
+}
@@ -3,3 +3,8 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+
+// jest-axe adds toHaveNoViolations, for the automated accessibility checks in component tests
+import { toHaveNoViolations } from 'jest-axe';
+
+expect.extend(toHaveNoViolations);
@@ -0,0 +1,53 @@
+// Shared task model used by the component, storage and command handling
+
+export type Priority = 'low' | 'medium' | 'high';
+
+// Highest first, the order the priority filter lists them in
+export const PRIORITIES: Priority[] = ['high', 'medium', 'low'];
+
+export interface Task {
+    // Random UUID, so tasks created on different devices never share an id
+    id: string;
+    content: string;
+    completed: boolean;
+    // Local date ("2026-10-20") or local date and time ("2026-10-20T15:00"), so it sorts as a string
+    due: string | null;
+    priority: Priority | null;
+    tags: string[];
+    // Named list the task belongs to, e.g. "personal"; null for no list
+    list: string | null;
+}
+
+// The optional fields, as parsed from speech or edited in the UI
+export type TaskDetails = Pick<Task, 'due' | 'priority' | 'tags' | 'list'>;
+
+export const emptyTaskDetails = (): TaskDetails => ({
+    due: null,
+    priority: null,
+    tags: [],
+    list: null
+});
+
+const toHex = (bytes: Uint8Array): string =>
+    Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Version 4 UUID; falls back to getRandomValues (or Math.random) where randomUUID is missing,
+// e.g. on plain http or older Safari
+export const createTaskId = (): string => {
+    const cryptoApi = typeof crypto !== 'undefined' ? crypto : null;
+    if (cryptoApi && typeof cryptoApi.randomUUID === 'function') {
+        return cryptoApi.randomUUID();
+    }
+    const bytes = new Uint8Array(16);
+    if (cryptoApi && typeof cryptoApi.getRandomValues === 'function') {
+        cryptoApi.getRandomValues(bytes);
+    } else {
+        bytes.forEach((_, index) => {
+            bytes[index] = Math.floor(Math.random() * 256);
+        });
+    }
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = toHex(bytes);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
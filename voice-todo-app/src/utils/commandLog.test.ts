@@ -0,0 +1,86 @@
+import {
+    CommandLogEntry,
+    MAX_LOG_ENTRIES,
+    appendLogEntry,
+    commandOutcome,
+    commandStats,
+    isCommandLog
+} from './commandLog';
+
+const entry = (transcript: string, overrides: Partial<CommandLogEntry> = {}): CommandLogEntry => ({
+    time: 0,
+    locale: 'en',
+    source: 'voice',
+    transcript,
+    alternatives: [{ transcript, confidence: 0.9 }],
+    confidence: 0.9,
+    intents: ['add'],
+    outcome: 'done',
+    result: '',
+    ...overrides
+});
+
+describe('commandOutcome', () => {
+    it('tells what became of a command', () => {
+        expect(commandOutcome({ intents: ['add'], failed: false, asked: false })).toBe('done');
+        expect(commandOutcome({ intents: ['delete'], failed: false, asked: true })).toBe('asked');
+        expect(commandOutcome({ intents: ['mark'], failed: true, asked: false })).toBe('failed');
+        expect(commandOutcome({ intents: ['unknown'], failed: true, asked: false })).toBe('unrecognized');
+        expect(commandOutcome({ intents: [], failed: false, asked: false })).toBe('unrecognized');
+    });
+
+    it('counts a sequence as failed when one of its commands was not recognized', () => {
+        expect(commandOutcome({ intents: ['add', 'unknown'], failed: true, asked: false })).toBe('failed');
+    });
+
+    it('counts a "did you mean" question as recognized', () => {
+        expect(commandOutcome({ intents: [], failed: false, asked: true })).toBe('asked');
+    });
+});
+
+describe('appendLogEntry', () => {
+    it('keeps only the newest entries', () => {
+        const log = Array.from({ length: MAX_LOG_ENTRIES }, (_, index) => entry(`add ${index}`));
+        const appended = appendLogEntry(log, entry('add last'));
+        expect(appended).toHaveLength(MAX_LOG_ENTRIES);
+        expect(appended[0].transcript).toBe('add 1');
+        expect(appended[MAX_LOG_ENTRIES - 1].transcript).toBe('add last');
+    });
+});
+
+describe('commandStats', () => {
+    it('counts recognized and successful commands', () => {
+        const stats = commandStats([
+            entry('add milk'),
+            entry('delete eggs', { intents: ['delete'], outcome: 'asked' }),
+            entry('mark bread', { intents: ['mark'], outcome: 'failed' }),
+            entry('sing a song', { intents: ['unknown'], outcome: 'unrecognized' })
+        ]);
+        expect(stats).toMatchObject({ total: 4, recognized: 3, succeeded: 2 });
+    });
+
+    it('lists the phrasings that fail most often', () => {
+        const stats = commandStats([
+            entry('Sing a song.', { outcome: 'unrecognized' }),
+            entry('mark bread', { outcome: 'failed' }),
+            entry('sing a song', { outcome: 'unrecognized' }),
+            entry('add milk')
+        ]);
+        expect(stats.failing).toEqual([
+            { phrase: 'sing a song', count: 2 },
+            { phrase: 'mark bread', count: 1 }
+        ]);
+    });
+});
+
+describe('isCommandLog', () => {
+    it('checks the stored shape', () => {
+        expect(isCommandLog([entry('add milk'), entry('add eggs', { source: 'typed', alternatives: [], confidence: null })])).toBe(true);
+        expect(isCommandLog([])).toBe(true);
+        expect(isCommandLog([{ ...entry('add milk'), outcome: 'maybe' }])).toBe(false);
+        expect(isCommandLog([{ ...entry('add milk'), locale: 'xx' }])).toBe(false);
+        expect(isCommandLog({})).toBe(false);
+        expect(isCommandLog([null, 'add milk'])).toBe(false);
+        expect(isCommandLog([{ ...entry('add milk'), result: undefined }])).toBe(false);
+    });
+});
@@ -0,0 +1,119 @@
+// A record of the commands that were run: what the recognizer heard, which intents matched
+// and how it went. It backs the command log (replay, fix) and the recognition stats, which
+// show the phrasings that fail most often.
+
+import type { IntentType } from './intentParser';
+import { normalizePhrase } from './customCommands';
+import { LocaleId, isLocaleId } from '../locales';
+
+// Oldest entries are dropped past this many commands
+export const MAX_LOG_ENTRIES = 200;
+
+// Phrasings listed in the stats
+const MAX_FAILING_PHRASINGS = 5;
+
+export type CommandSource = 'voice' | 'edited' | 'typed' | 'replay';
+
+// done: carried out; asked: waits for an answer ("which one?", "are you sure?");
+// failed: understood but couldn't be carried out (e.g. no such task); unrecognized: no command matched
+export type CommandOutcome = 'done' | 'asked' | 'failed' | 'unrecognized';
+
+export interface LoggedAlternative {
+    transcript: string;
+    confidence: number;
+}
+
+export interface CommandLogEntry {
+    time: number;
+    locale: LocaleId;
+    source: CommandSource;
+    transcript: string;
+    // Every reading the recognizer offered, best first; empty for typed commands
+    alternatives: LoggedAlternative[];
+    // The recognizer's confidence in the reading that ran, or null for typed commands
+    confidence: number | null;
+    // Intents that ran, more than one for a command sequence or macro
+    intents: IntentType[];
+    outcome: CommandOutcome;
+    // What was reported back to the user
+    result: string;
+}
+
+export interface FailingPhrasing {
+    phrase: string;
+    count: number;
+}
+
+export interface CommandStats {
+    total: number;
+    // Commands that matched an intent
+    recognized: number;
+    // Commands that were carried out or asked a follow-up question
+    succeeded: number;
+    // Most frequent first
+    failing: FailingPhrasing[];
+}
+
+// What is known about a command once it has run
+export interface CommandRun {
+    intents: IntentType[];
+    failed: boolean;
+    asked: boolean;
+}
+
+const OUTCOMES: CommandOutcome[] = ['done', 'asked', 'failed', 'unrecognized'];
+const SOURCES: CommandSource[] = ['voice', 'edited', 'typed', 'replay'];
+
+const isObject = (value: unknown): value is object => typeof value === 'object' && value !== null;
+
+const isLoggedAlternative = (value: unknown): value is LoggedAlternative =>
+    isObject(value) &&
+    'transcript' in value && typeof value.transcript === 'string' &&
+    'confidence' in value && typeof value.confidence === 'number';
+
+const isCommandLogEntry = (value: unknown): value is CommandLogEntry =>
+    isObject(value) &&
+    'time' in value && typeof value.time === 'number' &&
+    'locale' in value && isLocaleId(value.locale) &&
+    'source' in value && SOURCES.some(source => source === value.source) &&
+    'transcript' in value && typeof value.transcript === 'string' &&
+    'alternatives' in value && Array.isArray(value.alternatives) && value.alternatives.every(isLoggedAlternative) &&
+    'confidence' in value && (value.confidence === null || typeof value.confidence === 'number') &&
+    'intents' in value && Array.isArray(value.intents) && value.intents.every((intent: unknown) => typeof intent === 'string') &&
+    'outcome' in value && OUTCOMES.some(outcome => outcome === value.outcome) &&
+    'result' in value && typeof value.result === 'string';
+
+// Shape check for the stored log
+export const isCommandLog = (value: unknown): value is CommandLogEntry[] =>
+    Array.isArray(value) && value.every(isCommandLogEntry);
+
+export const commandOutcome = ({ intents, failed, asked }: CommandRun): CommandOutcome => {
+    if (!asked && intents.every(intent => intent === 'unknown')) {
+        return 'unrecognized';
+    }
+    if (failed) {
+        return 'failed';
+    }
+    return asked ? 'asked' : 'done';
+};
+
+// Adds an entry at the end, dropping the oldest ones past MAX_LOG_ENTRIES
+export const appendLogEntry = (log: CommandLogEntry[], entry: CommandLogEntry): CommandLogEntry[] =>
+    [...log, entry].slice(-MAX_LOG_ENTRIES);
+
+export const commandStats = (log: CommandLogEntry[]): CommandStats => {
+    const failures = new Map<string, number>();
+    log.filter(entry => entry.outcome === 'failed' || entry.outcome === 'unrecognized').forEach(entry => {
+        const phrase = normalizePhrase(entry.transcript);
+        failures.set(phrase, (failures.get(phrase) ?? 0) + 1);
+    });
+
+    return {
+        total: log.length,
+        recognized: log.filter(entry => entry.outcome !== 'unrecognized').length,
+        succeeded: log.filter(entry => entry.outcome === 'done' || entry.outcome === 'asked').length,
+        failing: Array.from(failures, ([phrase, count]) => ({ phrase, count }))
+            .sort((a, b) => b.count - a.count)
+            .slice(0, MAX_FAILING_PHRASINGS)
+    };
+};
@@ -0,0 +1,71 @@
+import { CommandCandidate, ambiguousCandidates, rankCandidates, readingKey } from './commandMatcher';
+import { Task, emptyTaskDetails } from '../types/task';
+
+const task = (id: string, content: string): Task => ({ id, content, completed: false, ...emptyTaskDetails() });
+
+const tasks = [task('1', 'buy milk'), task('2', 'call mom')];
+
+describe('rankCandidates', () => {
+    it('prefers the alternative that names an existing task', () => {
+        const [best] = rankCandidates([
+            { transcript: 'delete by silk', confidence: 0.8 },
+            { transcript: 'delete buy milk', confidence: 0.7 }
+        ], tasks);
+        expect(best.intent).toMatchObject({ type: 'delete', slots: { content: 'buy milk' } });
+        expect(best.alternativeIndex).toBe(1);
+    });
+
+    it('lets recognition confidence decide between readings that fit equally well', () => {
+        const [best] = rankCandidates([
+            { transcript: 'add task buy bread', confidence: 0.9 },
+            { transcript: 'add task buy red', confidence: 0.4 }
+        ], tasks);
+        expect(best.intent.slots.content).toBe('buy bread');
+    });
+
+    it('counts a command heard in several alternatives once', () => {
+        const candidates = rankCandidates([
+            { transcript: 'delete buy milk', confidence: 0.9 },
+            { transcript: 'Delete buy milk.', confidence: 0.6 }
+        ], tasks);
+        const keys = candidates.map(candidate => readingKey(candidate.intent));
+        expect(new Set(keys).size).toBe(keys.length);
+        expect(candidates[0].alternativeIndex).toBe(0);
+    });
+
+    it('falls back to the rank of alternatives without a confidence', () => {
+        const [best] = rankCandidates([
+            { transcript: 'add task first', confidence: 0 },
+            { transcript: 'add task second', confidence: 0 }
+        ], tasks);
+        expect(best.intent.slots.content).toBe('first');
+    });
+
+    it('returns nothing when no alternative is a command', () => {
+        expect(rankCandidates([{ transcript: 'sing a song', confidence: 0.9 }], tasks)).toEqual([]);
+    });
+});
+
+describe('ambiguousCandidates', () => {
+    const candidate = (content: string, score: number): CommandCandidate => ({
+        intent: { type: 'add', slots: { content }, confidence: 1, transcript: `add ${content}` },
+        alternativeIndex: 0,
+        score
+    });
+
+    it('offers the candidates close to the best one', () => {
+        const close = ambiguousCandidates([candidate('a', 0.8), candidate('b', 0.75), candidate('c', 0.4)]);
+        expect(close.map(({ intent }) => intent.slots.content)).toEqual(['a', 'b']);
+    });
+
+    it('offers nothing when the best candidate is a clear winner', () => {
+        expect(ambiguousCandidates([candidate('a', 0.9), candidate('b', 0.5)])).toEqual([]);
+        expect(ambiguousCandidates([candidate('a', 0.9)])).toEqual([]);
+    });
+
+    it('offers at most the limit', () => {
+        const all = [0.9, 0.89, 0.88, 0.87].map((score, index) => candidate(String(index), score));
+        expect(ambiguousCandidates(all)).toHaveLength(3);
+        expect(ambiguousCandidates(all, 2)).toHaveLength(2);
+    });
+});
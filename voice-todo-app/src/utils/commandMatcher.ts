@@ -0,0 +1,79 @@
+// Picks the best reading of an utterance across all recognition alternatives.
+// Each alternative is parsed into intents, then scored by recognition confidence, intent
+// confidence and, for commands that target a task, how well the spoken name fits an existing task.
+
+import { Intent, rankIntents } from './intentParser';
+import { targetScore } from './taskTargeting';
+import { SpeechRecognitionAlternative } from '../types/speech-recognition';
+import { Task } from '../types/task';
+import { defaultLocale } from '../locales';
+import type { CommandLanguage } from '../locales';
+
+export interface CommandCandidate {
+    intent: Intent;
+    // Index of the recognition alternative this reading came from
+    alternativeIndex: number;
+    score: number;
+}
+
+// Candidates closer than this to the best one are worth asking about
+export const AMBIGUITY_MARGIN = 0.1;
+
+const TARGETED_INTENTS = ['mark', 'delete', 'unmark', 'rename', 'append', 'change', 'move'];
+
+// Some browsers report 0 confidence for every alternative but the first,
+// so fall back to the alternative's rank in that case
+const recognitionConfidence = (alternative: SpeechRecognitionAlternative, index: number): number =>
+    alternative.confidence > 0 ? alternative.confidence : Math.max(0.3, 0.9 - index * 0.15);
+
+const scoreCandidate = (intent: Intent, confidence: number, tasks: Task[], language: CommandLanguage): number => {
+    let score = intent.confidence * (0.4 + 0.6 * confidence);
+
+    if (TARGETED_INTENTS.includes(intent.type) && intent.slots.content) {
+        // A reading that names a task we don't have is much less likely to be right
+        score *= 0.3 + 0.7 * targetScore(intent.slots.content, tasks, language);
+    }
+
+    return score;
+};
+
+// Identifies what a reading does, so the same command from several alternatives counts once
+export const readingKey = ({ type, slots }: Intent): string =>
+    [type, slots.view, slots.position, slots.format, slots.content, slots.value].map(part => part || '').join(':');
+
+export const rankCandidates = (
+    alternatives: SpeechRecognitionAlternative[],
+    tasks: Task[],
+    language: CommandLanguage = defaultLocale
+): CommandCandidate[] => {
+    const byReading = new Map<string, CommandCandidate>();
+
+    alternatives.forEach((alternative, alternativeIndex) => {
+        const confidence = recognitionConfidence(alternative, alternativeIndex);
+        for (const intent of rankIntents(alternative.transcript, language)) {
+            const candidate = {
+                intent,
+                alternativeIndex,
+                score: scoreCandidate(intent, confidence, tasks, language)
+            };
+            // Different alternatives often parse to the same command; keep the best score
+            const key = readingKey(intent);
+            const existing = byReading.get(key);
+            if (!existing || candidate.score > existing.score) {
+                byReading.set(key, candidate);
+            }
+        }
+    });
+
+    return Array.from(byReading.values()).sort((a, b) => b.score - a.score);
+};
+
+// The candidates to offer in a "Did you mean…?" prompt, or an empty list when the best one is a clear winner
+export const ambiguousCandidates = (candidates: CommandCandidate[], limit = 3): CommandCandidate[] => {
+    if (candidates.length < 2) {
+        return [];
+    }
+    const [best] = candidates;
+    const close = candidates.filter(candidate => best.score - candidate.score <= AMBIGUITY_MARGIN);
+    return close.length > 1 ? close.slice(0, limit) : [];
+};
@@ -0,0 +1,75 @@
+import { splitCommands, splitListItems } from './commandSplitter';
+import { locales } from '../locales';
+
+describe('splitCommands', () => {
+    it('splits at "then" and "and" when a new command follows', () => {
+        expect(splitCommands('add task call mom then mark laundry as done')).toEqual([
+            'add task call mom',
+            'mark laundry as done'
+        ]);
+        expect(splitCommands('delete task milk and add task buy bread')).toEqual([
+            'delete task milk',
+            'add task buy bread'
+        ]);
+        expect(splitCommands('add task a, add task b and then read my tasks')).toEqual([
+            'add task a',
+            'add task b',
+            'read my tasks'
+        ]);
+    });
+
+    it('keeps "and" inside a task', () => {
+        expect(splitCommands('add milk and eggs and bread')).toEqual(['add milk and eggs and bread']);
+        expect(splitCommands('add task salt and pepper')).toEqual(['add task salt and pepper']);
+        expect(splitCommands('add task call mom and dad')).toEqual(['add task call mom and dad']);
+    });
+
+    it('needs an explicit command after a plain "and"', () => {
+        expect(splitCommands('add task pick up kids and finish homework')).toEqual([
+            'add task pick up kids and finish homework'
+        ]);
+        expect(splitCommands('add task pick up kids then finish homework')).toEqual([
+            'add task pick up kids',
+            'finish homework'
+        ]);
+        expect(splitCommands('add task pick up kids and mark homework as done')).toEqual([
+            'add task pick up kids',
+            'mark homework as done'
+        ]);
+    });
+
+    it('leaves a single command alone', () => {
+        expect(splitCommands('undo')).toEqual(['undo']);
+        expect(splitCommands('  add task buy milk ')).toEqual(['add task buy milk']);
+    });
+
+    it('understands the other languages', () => {
+        expect(splitCommands('füge Aufgabe Mama anrufen hinzu und dann lösche Aufgabe Milch', locales.de)).toHaveLength(2);
+        expect(splitCommands('añade tarea llamar a mamá y luego borra la tarea leche', locales.es)).toHaveLength(2);
+    });
+});
+
+describe('splitListItems', () => {
+    it('splits a list with commas', () => {
+        expect(splitListItems('milk, eggs and bread')).toEqual(['milk', 'eggs', 'bread']);
+        expect(splitListItems('milk, eggs, and bread')).toEqual(['milk', 'eggs', 'bread']);
+        expect(splitListItems('buy milk')).toEqual(['buy milk']);
+    });
+
+    it('keeps a phrase joined by "and" whole', () => {
+        expect(splitListItems('call mom and dad')).toEqual(['call mom and dad']);
+        expect(splitListItems('salt and pepper')).toEqual(['salt and pepper']);
+        expect(splitListItems('Mama und Papa anrufen', locales.de)).toEqual(['Mama und Papa anrufen']);
+    });
+
+    it('splits at "and" when the content was said as a list', () => {
+        expect(splitListItems('milk and eggs and bread', undefined, true)).toEqual(['milk', 'eggs', 'bread']);
+        expect(splitListItems('Milch und Eier', locales.de, true)).toEqual(['Milch', 'Eier']);
+        expect(splitListItems('buy milk', undefined, true)).toEqual(['buy milk']);
+    });
+
+    it('understands the other languages', () => {
+        expect(splitListItems('Milch, Eier und Brot', locales.de)).toEqual(['Milch', 'Eier', 'Brot']);
+        expect(splitListItems('leche, huevos y pan', locales.es)).toEqual(['leche', 'huevos', 'pan']);
+    });
+});
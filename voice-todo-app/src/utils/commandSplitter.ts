@@ -0,0 +1,69 @@
+// Splits an utterance that contains several commands, e.g.
+// "add task call mom then mark laundry as done" -> ["add task call mom", "mark laundry as done"],
+// and a spoken list into its items: "milk, eggs and bread" -> ["milk", "eggs", "bread"].
+// "and" on its own also joins words inside a task ("add task call mom and dad"), so it only
+// splits where the rest clearly is another command, the phrase is a comma list, or it was
+// said as a list ("add milk and eggs", without the word "task").
+
+import { parseIntent } from './intentParser';
+import { defaultLocale } from '../locales';
+import type { CommandLanguage } from '../locales';
+
+// A piece after "and"/"then" must read at least this well as a command to be split off,
+// so "add milk and eggs" stays one command
+const MIN_COMMAND_CONFIDENCE = 0.6;
+
+// After a plain "and" the piece needs an explicit phrasing ("add task", "mark … as done"), so
+// "add task pick up kids and finish homework" stays one task
+const MIN_COMMAND_CONFIDENCE_AFTER_AND = 0.9;
+
+// Splits around the separator, keeping the separators at odd indexes
+const splitKeepingSeparators = (text: string, separator: RegExp): string[] =>
+    text.split(new RegExp(`(${separator.source})`, separator.flags.replace('g', '')));
+
+// A separator that would also join list items, i.e. a plain "and" rather than "then" or a comma
+const isPlainAnd = (separator: string, language: CommandLanguage): boolean =>
+    !separator.includes(',') && new RegExp(`^(?:${language.listSeparator.source})$`, 'i').test(separator);
+
+const startsCommand = (text: string, minConfidence: number, language: CommandLanguage): boolean => {
+    const intent = parseIntent(text, language);
+    // "yes"/"no" only make sense as answers, never in the middle of an utterance
+    return !['unknown', 'confirm', 'cancel'].includes(intent.type) && intent.confidence >= minConfidence;
+};
+
+export const splitCommands = (transcript: string, language: CommandLanguage = defaultLocale): string[] => {
+    const pieces = splitKeepingSeparators(transcript.trim(), language.commandSeparator);
+    const commands: string[] = [];
+    let current = pieces[0];
+
+    for (let i = 1; i < pieces.length; i += 2) {
+        const separator = pieces[i];
+        const next = pieces[i + 1];
+        const minConfidence = isPlainAnd(separator, language) ? MIN_COMMAND_CONFIDENCE_AFTER_AND : MIN_COMMAND_CONFIDENCE;
+        if (next.trim() && startsCommand(next, minConfidence, language)) {
+            commands.push(current);
+            current = next;
+        } else {
+            current += separator + next;
+        }
+    }
+    commands.push(current);
+
+    return commands.map(command => command.trim()).filter(Boolean);
+};
+
+// A list with commas is always split; a plain "and" only separates items when the content
+// was said as a list
+export const splitListItems = (
+    content: string,
+    language: CommandLanguage = defaultLocale,
+    list = false
+): string[] => {
+    if (!list && !content.includes(',')) {
+        return [content.trim()].filter(Boolean);
+    }
+    return content
+        .split(language.listSeparator)
+        .map(item => item.trim())
+        .filter(Boolean);
+};
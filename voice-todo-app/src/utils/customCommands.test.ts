@@ -0,0 +1,131 @@
+import {
+    CustomCommands,
+    customGrammar,
+    emptyCustomCommands,
+    findMacro,
+    isCustomCommandSettings,
+    macroCommandLanguage,
+    validateMacro,
+    validateSynonym,
+    withCustomCommands
+} from './customCommands';
+import { parseIntent } from './intentParser';
+import { resolveTaskTarget } from './taskTargeting';
+import { Task, emptyTaskDetails } from '../types/task';
+import { locales } from '../locales';
+
+const { en } = locales;
+
+const custom: CustomCommands = {
+    synonyms: [
+        { phrase: 'scratch that', intent: 'delete', content: 'the last task' },
+        { phrase: 'tick off *', intent: 'mark' },
+        { phrase: 'call * from now on *', intent: 'rename' }
+    ],
+    macros: [
+        { phrase: 'morning routine', commands: ['add make the bed', 'tick off stretching', 'read my tasks'] }
+    ]
+};
+
+const language = withCustomCommands(en, custom);
+
+const task = (id: string, content: string): Task => ({ id, content, completed: false, ...emptyTaskDetails() });
+
+describe('withCustomCommands', () => {
+    it('understands custom phrasings of built-in intents', () => {
+        expect(parseIntent('Scratch that.', language)).toMatchObject({ type: 'delete', slots: { content: 'the last task' }, confidence: 1 });
+        expect(parseIntent('tick off buy milk', language)).toMatchObject({ type: 'mark', slots: { content: 'buy milk' } });
+        expect(parseIntent('call milk from now on oat milk', language)).toMatchObject({
+            type: 'rename',
+            slots: { content: 'milk', value: 'oat milk' }
+        });
+        // Built-in phrasings keep working
+        expect(parseIntent('delete task buy milk', language)).toMatchObject({ type: 'delete', slots: { content: 'buy milk' } });
+    });
+
+    it('turns macro phrases into a macro intent', () => {
+        const intent = parseIntent('morning routine', language);
+        expect(intent).toMatchObject({ type: 'macro', slots: { content: 'morning routine' } });
+        expect(findMacro(custom, intent.slots.content || '')?.commands).toHaveLength(3);
+    });
+
+    it('adds a grammar with every custom phrase', () => {
+        expect(language.grammars).toHaveLength(en.grammars.length + 1);
+        expect(customGrammar(custom)).toBe(
+            '#JSGF V1.0; grammar custom; public <custom> = scratch that | tick off [<item>] | call [<item>] from now on [<item>] | morning routine;'
+        );
+        expect(customGrammar(emptyCustomCommands())).toBeNull();
+    });
+
+    it('leaves the pack alone without custom commands', () => {
+        expect(withCustomCommands(en, undefined)).toBe(en);
+        expect(withCustomCommands(en, emptyCustomCommands())).toBe(en);
+    });
+
+    it('parses macro commands with synonyms but without macros', () => {
+        const macroLanguage = macroCommandLanguage(en, custom);
+        expect(parseIntent('tick off stretching', macroLanguage).type).toBe('mark');
+        expect(parseIntent('morning routine', macroLanguage).type).toBe('unknown');
+    });
+});
+
+describe('"the last task"', () => {
+    it('targets the last task in the list', () => {
+        const tasks = [task('1', 'buy milk'), task('2', 'call mom')];
+        expect(resolveTaskTarget('the last task', tasks, en)).toEqual({ kind: 'match', task: tasks[1] });
+        expect(resolveTaskTarget('letzte aufgabe', tasks, locales.de)).toEqual({ kind: 'match', task: tasks[1] });
+        expect(resolveTaskTarget('la última tarea', tasks, locales.es)).toEqual({ kind: 'match', task: tasks[1] });
+    });
+});
+
+describe('validateSynonym', () => {
+    it('accepts a phrase with what the intent needs', () => {
+        expect(validateSynonym({ phrase: 'cross out *', intent: 'mark' }, custom, en)).toBeNull();
+        expect(validateSynonym({ phrase: 'oops', intent: 'undo' }, custom, en)).toBeNull();
+        expect(validateSynonym({ phrase: 'done with that', intent: 'mark', content: 'the last task' }, custom, en)).toBeNull();
+    });
+
+    it('rejects phrases that are empty, taken, split or malformed', () => {
+        expect(validateSynonym({ phrase: '  ', intent: 'undo' }, custom, en)).toMatch('Enter the words');
+        expect(validateSynonym({ phrase: 'Scratch  that', intent: 'undo' }, custom, en)).toMatch('already a custom command');
+        expect(validateSynonym({ phrase: 'oops and undo', intent: 'undo' }, custom, en)).toMatch('split into several commands');
+        expect(validateSynonym({ phrase: 'oops (again)', intent: 'undo' }, custom, en)).toMatch('Use only letters');
+        expect(validateSynonym({ phrase: 'cross out*', intent: 'mark' }, custom, en)).toMatch('on its own');
+    });
+
+    it('checks the "*" against the slots of the intent', () => {
+        expect(validateSynonym({ phrase: 'cross out', intent: 'mark' }, custom, en)).toMatch('one "*"');
+        expect(validateSynonym({ phrase: 'retitle *', intent: 'rename' }, custom, en)).toMatch('2 "*"');
+        expect(validateSynonym({ phrase: 'oops *', intent: 'undo' }, custom, en)).toMatch('takes no "*"');
+        expect(validateSynonym({ phrase: 'oops', intent: 'undo', content: 'milk' }, custom, en)).toMatch('doesn\'t take a task');
+    });
+
+    it('explains the problem in the language of the pack', () => {
+        expect(validateSynonym({ phrase: '  ', intent: 'undo' }, emptyCustomCommands(), locales.de)).toMatch('Gib die Wörter');
+        expect(validateSynonym({ phrase: 'tacha', intent: 'mark' }, emptyCustomCommands(), locales.es)).toMatch('un «*»');
+    });
+});
+
+describe('validateMacro', () => {
+    it('accepts built-in and custom commands', () => {
+        expect(validateMacro({ phrase: 'evening', commands: ['tick off dishes', 'show active tasks'] }, custom, en)).toBeNull();
+    });
+
+    it('rejects macros without valid commands', () => {
+        expect(validateMacro({ phrase: 'evening', commands: [' '] }, custom, en)).toMatch('at least one command');
+        expect(validateMacro({ phrase: 'evening', commands: ['sing a song'] }, custom, en)).toBe('"sing a song" isn\'t a command.');
+        expect(validateMacro({ phrase: 'evening', commands: ['morning routine'] }, custom, en)).toMatch('isn\'t a command');
+        expect(validateMacro({ phrase: 'evening *', commands: ['undo'] }, custom, en)).toMatch('can\'t contain "*"');
+        expect(validateMacro({ phrase: 'evening', commands: Array(21).fill('undo') }, custom, en)).toMatch('at most 20');
+    });
+});
+
+describe('isCustomCommandSettings', () => {
+    it('checks the stored shape', () => {
+        expect(isCustomCommandSettings({ en: custom, de: emptyCustomCommands() })).toBe(true);
+        expect(isCustomCommandSettings({})).toBe(true);
+        expect(isCustomCommandSettings({ en: { synonyms: [{ phrase: 'x', intent: 'fly' }], macros: [] } })).toBe(false);
+        expect(isCustomCommandSettings({ en: { synonyms: [], macros: [{ phrase: 'x', commands: [1] }] } })).toBe(false);
+        expect(isCustomCommandSettings([])).toBe(false);
+    });
+});
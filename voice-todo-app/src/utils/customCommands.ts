@@ -0,0 +1,210 @@
+// User-defined voice commands: extra phrasings of built-in intents ("scratch that" -> delete
+// the last task) and macros that run several commands ("morning routine" -> add five tasks).
+// They are kept per language and turned into extra patterns and a JSGF grammar for the locale pack.
+
+import { CommandPattern, SlotName, parseIntent } from './intentParser';
+import { splitCommands } from './commandSplitter';
+import type { LocaleId, LocalePack } from '../locales';
+
+// Built-in intents a custom phrasing can stand for, with the slots each one needs
+export const SYNONYM_INTENTS = {
+    add: ['content'],
+    mark: ['content'],
+    unmark: ['content'],
+    delete: ['content'],
+    rename: ['content', 'value'],
+    append: ['content', 'value'],
+    change: ['content', 'value'],
+    clear: [],
+    undo: [],
+    redo: [],
+    read: [],
+    count: [],
+    export: []
+} as const;
+
+export type SynonymIntent = keyof typeof SYNONYM_INTENTS;
+
+export interface CustomSynonym {
+    // Words to say; each "*" stands for spoken text that fills the intent's slots in order
+    phrase: string;
+    intent: SynonymIntent;
+    // Fixed task for the first slot, e.g. "the last task", when the phrase doesn't say it
+    content?: string;
+}
+
+export interface CustomMacro {
+    phrase: string;
+    // Built-in or custom commands, run in order
+    commands: string[];
+}
+
+export interface CustomCommands {
+    synonyms: CustomSynonym[];
+    macros: CustomMacro[];
+}
+
+export type CustomCommandSettings = Partial<Record<LocaleId, CustomCommands>>;
+
+export const MAX_MACRO_COMMANDS = 20;
+
+export const emptyCustomCommands = (): CustomCommands => ({ synonyms: [], macros: [] });
+
+// Characters that would break a JSGF rule or the phrase pattern
+const RESERVED_CHARACTERS = /[;|()[\]{}<>=/\\"#+?^$.!,¿¡]/;
+
+const isSynonymIntent = (value: unknown): value is SynonymIntent =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(SYNONYM_INTENTS, value);
+
+const isObject = (value: unknown): value is object => typeof value === 'object' && value !== null;
+
+const isCustomSynonym = (value: unknown): value is CustomSynonym =>
+    isObject(value) &&
+    'phrase' in value && typeof value.phrase === 'string' &&
+    'intent' in value && isSynonymIntent(value.intent) &&
+    (!('content' in value) || value.content === undefined || typeof value.content === 'string');
+
+const isCustomMacro = (value: unknown): value is CustomMacro =>
+    isObject(value) &&
+    'phrase' in value && typeof value.phrase === 'string' &&
+    'commands' in value && Array.isArray(value.commands) &&
+    value.commands.every((command: unknown) => typeof command === 'string');
+
+const isCustomCommands = (value: unknown): value is CustomCommands =>
+    isObject(value) &&
+    'synonyms' in value && Array.isArray(value.synonyms) && value.synonyms.every(isCustomSynonym) &&
+    'macros' in value && Array.isArray(value.macros) && value.macros.every(isCustomMacro);
+
+// Shape check for the stored setting; the phrases themselves were validated when they were added
+export const isCustomCommandSettings = (value: unknown): value is CustomCommandSettings =>
+    isObject(value) && !Array.isArray(value) && Object.values(value).every(isCustomCommands);
+
+// Same clean-up as transcripts get, so "Scratch that!" matches what the recognizer hears
+export const normalizePhrase = (phrase: string): string =>
+    phrase
+        .toLowerCase()
+        .trim()
+        .replace(/^[¿¡]+/, '')
+        .replace(/[.,!?]+$/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+const wildcardCount = (phrase: string): number => (phrase.match(/\*/g) || []).length;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "tick off *" -> /^tick\s+off\s+(.+)$/i
+const phrasePattern = (phrase: string): RegExp =>
+    new RegExp(`^${normalizePhrase(phrase)
+        .split(' ')
+        .map(word => (word === '*' ? '(.+)' : escapeRegExp(word)))
+        .join('\\s+')}$`, 'i');
+
+// Slots the wildcards of a synonym fill; a fixed content takes the first one
+const wildcardSlots = ({ intent, content }: CustomSynonym): SlotName[] =>
+    (SYNONYM_INTENTS[intent] as readonly SlotName[]).slice(content?.trim() ? 1 : 0);
+
+export const customPatterns = ({ synonyms, macros }: CustomCommands): CommandPattern[] => [
+    ...synonyms.map(synonym => ({
+        intent: synonym.intent,
+        pattern: phrasePattern(synonym.phrase),
+        weight: 1,
+        slots: wildcardSlots(synonym),
+        content: synonym.content?.trim() || undefined
+    })),
+    ...macros.map(macro => ({
+        intent: 'macro' as const,
+        pattern: phrasePattern(macro.phrase),
+        weight: 1,
+        content: normalizePhrase(macro.phrase)
+    }))
+];
+
+// One JSGF rule with every custom phrase; wildcards become the same <item> the built-in grammars use
+export const customGrammar = ({ synonyms, macros }: CustomCommands): string | null => {
+    const phrases = [...synonyms, ...macros].map(({ phrase }) =>
+        normalizePhrase(phrase).split(' ').map(word => (word === '*' ? '[<item>]' : word)).join(' '));
+    return phrases.length > 0 ? `#JSGF V1.0; grammar custom; public <custom> = ${phrases.join(' | ')};` : null;
+};
+
+// The locale pack with the custom commands added. Custom patterns come first, so a custom
+// phrasing wins a tie with a built-in one.
+export const withCustomCommands = (pack: LocalePack, custom: CustomCommands | undefined): LocalePack => {
+    if (!custom || (custom.synonyms.length === 0 && custom.macros.length === 0)) {
+        return pack;
+    }
+    const grammar = customGrammar(custom);
+    return {
+        ...pack,
+        patterns: [...customPatterns(custom), ...pack.patterns],
+        grammars: grammar ? [...pack.grammars, grammar] : pack.grammars
+    };
+};
+
+export const findMacro = (custom: CustomCommands | undefined, phrase: string): CustomMacro | undefined =>
+    custom?.macros.find(macro => normalizePhrase(macro.phrase) === normalizePhrase(phrase));
+
+// What the commands of a macro are parsed with: custom synonyms work, macros don't, so a macro
+// can never end up running itself
+export const macroCommandLanguage = (pack: LocalePack, custom: CustomCommands | undefined): LocalePack =>
+    withCustomCommands(pack, custom && { synonyms: custom.synonyms, macros: [] });
+
+// Problems every custom phrase is checked for; `others` are the custom commands it sits beside
+const validatePhrase = (phrase: string, others: CustomCommands, pack: LocalePack): string | null => {
+    const normalized = normalizePhrase(phrase);
+    if (!normalized || normalized.split(' ').every(word => word === '*')) {
+        return pack.messages.phraseMissing;
+    }
+    if (RESERVED_CHARACTERS.test(normalized)) {
+        return pack.messages.phraseHasReservedCharacters;
+    }
+    if (normalized.split(' ').some(word => word.includes('*') && word !== '*')) {
+        return pack.messages.wildcardNotAlone;
+    }
+    if (splitCommands(normalized.replace(/\*/g, 'x'), withCustomCommands(pack, others)).length > 1) {
+        return pack.messages.phraseSplits;
+    }
+    if ([...others.synonyms, ...others.macros].some(other => normalizePhrase(other.phrase) === normalized)) {
+        return pack.messages.phraseTaken(normalized);
+    }
+    return null;
+};
+
+// Returns what is wrong with a new synonym, or null if it can be added
+export const validateSynonym = (synonym: CustomSynonym, others: CustomCommands, pack: LocalePack): string | null => {
+    const phraseError = validatePhrase(synonym.phrase, others, pack);
+    if (phraseError) {
+        return phraseError;
+    }
+    const slots = SYNONYM_INTENTS[synonym.intent].length;
+    const fixed = synonym.content?.trim() ? 1 : 0;
+    if (fixed > slots) {
+        return pack.messages.takesNoTask;
+    }
+    if (wildcardCount(synonym.phrase) !== slots - fixed) {
+        return slots - fixed === 0 ? pack.messages.takesNoWildcard : pack.messages.wildcardsNeeded(slots - fixed);
+    }
+    return null;
+};
+
+// Returns what is wrong with a new macro, or null if it can be added. Its commands may use
+// custom synonyms but not other macros.
+export const validateMacro = (macro: CustomMacro, others: CustomCommands, pack: LocalePack): string | null => {
+    const phraseError = validatePhrase(macro.phrase, others, pack);
+    if (phraseError) {
+        return phraseError;
+    }
+    if (wildcardCount(macro.phrase) > 0) {
+        return pack.messages.macroHasWildcard;
+    }
+    const commands = macro.commands.map(command => command.trim()).filter(Boolean);
+    if (commands.length === 0) {
+        return pack.messages.macroEmpty;
+    }
+    if (commands.length > MAX_MACRO_COMMANDS) {
+        return pack.messages.macroTooLong(MAX_MACRO_COMMANDS);
+    }
+    const language = macroCommandLanguage(pack, others);
+    const invalid = commands.find(command => parseIntent(command, language).type === 'unknown');
+    return invalid ? pack.messages.notACommand(invalid) : null;
+};
@@ -0,0 +1,257 @@
+import { parseIntent, rankIntents, normalizeTranscript } from './intentParser';
+import { locales } from '../locales';
+
+describe('parseIntent', () => {
+    describe('add', () => {
+        it.each([
+            ['add task buy groceries', 'buy groceries'],
+            ['create task call mom', 'call mom'],
+            ['new task water the plants', 'water the plants'],
+            ['add buy milk', 'buy milk']
+        ])('parses "%s"', (transcript, content) => {
+            const intent = parseIntent(transcript);
+            expect(intent.type).toBe('add');
+            expect(intent.slots.content).toBe(content);
+        });
+
+        it('prefers "add task" over the looser "add" phrasing', () => {
+            expect(parseIntent('add task call mom').slots.content).toBe('call mom');
+        });
+
+        it('takes the content of an add without "task" as a list', () => {
+            expect(parseIntent('add milk and eggs').slots.list).toBe(true);
+            expect(parseIntent('add task salt and pepper').slots.list).toBeUndefined();
+            expect(parseIntent('füge Milch und Eier hinzu', locales.de).slots.list).toBe(true);
+        });
+    });
+
+    describe('mark', () => {
+        it.each([
+            ['mark buy groceries as done', 'buy groceries'],
+            ['complete the report', 'the report'],
+            ['finish homework', 'homework'],
+            ['check off laundry', 'laundry']
+        ])('parses "%s"', (transcript, content) => {
+            const intent = parseIntent(transcript);
+            expect(intent.type).toBe('mark');
+            expect(intent.slots.content).toBe(content);
+        });
+
+        it('is not mistaken for an add when the task name contains "add"', () => {
+            expect(parseIntent('mark add milk to list as done').type).toBe('mark');
+        });
+    });
+
+    describe('delete', () => {
+        it.each([
+            ['delete task buy groceries', 'buy groceries'],
+            ['remove task call mom', 'call mom'],
+            ['delete milk', 'milk'],
+            ['remove the old note', 'the old note']
+        ])('parses "%s"', (transcript, content) => {
+            const intent = parseIntent(transcript);
+            expect(intent.type).toBe('delete');
+            expect(intent.slots.content).toBe(content);
+        });
+    });
+
+    describe('clear', () => {
+        it.each([
+            'clear all tasks',
+            'clear tasks',
+            'delete all tasks',
+            'remove all tasks'
+        ])('parses "%s" as clear rather than a single delete', (transcript) => {
+            const intent = parseIntent(transcript);
+            expect(intent.type).toBe('clear');
+            expect(intent.slots.content).toBeUndefined();
+        });
+    });
+
+    it('returns unknown for unrecognized input', () => {
+        const intent = parseIntent('what is the weather');
+        expect(intent.type).toBe('unknown');
+        expect(intent.confidence).toBe(0);
+        expect(intent.slots.content).toBe('what is the weather');
+    });
+
+    it('ignores case, filler words and trailing punctuation', () => {
+        const intent = parseIntent('Please Add Task Buy Bread.');
+        expect(intent.type).toBe('add');
+        expect(intent.slots.content).toBe('buy bread');
+        expect(intent.confidence).toBe(1);
+    });
+
+    it('keeps the original transcript on the intent', () => {
+        expect(parseIntent('Add task X').transcript).toBe('Add task X');
+    });
+
+    it('lowers confidence when extra words surround the command', () => {
+        const exact = parseIntent('add task buy milk');
+        const noisy = parseIntent('um so yeah add task buy milk');
+        expect(noisy.type).toBe('add');
+        expect(noisy.confidence).toBeLessThan(exact.confidence);
+    });
+});
+
+describe('rankIntents', () => {
+    it('lists competing readings best first', () => {
+        const ranked = rankIntents('delete all tasks');
+        expect(ranked.map(intent => intent.type)).toEqual(['clear', 'delete']);
+        expect(ranked[0].confidence).toBeGreaterThan(ranked[1].confidence);
+    });
+
+    it('returns nothing for empty input', () => {
+        expect(rankIntents('   ')).toEqual([]);
+    });
+});
+
+describe('normalizeTranscript', () => {
+    it('collapses whitespace and strips polite filler', () => {
+        expect(normalizeTranscript('  could you   clear all tasks please ')).toBe('clear all tasks');
+    });
+});
+
+describe('history and confirmation intents', () => {
+    it.each([
+        ['undo', 'undo'],
+        ['undo that', 'undo'],
+        ['take that back', 'undo'],
+        ['redo', 'redo'],
+        ['redo last change', 'redo'],
+        ['yes', 'confirm'],
+        ['yes clear all tasks', 'confirm'],
+        ['do it', 'confirm'],
+        ['no', 'cancel'],
+        ['never mind', 'cancel'],
+        ['cancel', 'cancel']
+    ])('parses "%s" as %s', (transcript, type) => {
+        expect(parseIntent(transcript).type).toBe(type);
+    });
+
+    it('does not treat task names containing "undo" as an undo', () => {
+        expect(parseIntent('add task undo the knot').type).toBe('add');
+    });
+});
+
+describe('query commands', () => {
+    it.each([
+        ['show all tasks', 'all'],
+        ['show me the active tasks', 'active'],
+        ["What's left?", 'active'],
+        ['what is still left to do', 'active'],
+        ['show completed tasks', 'completed'],
+        ["what's due today", 'today'],
+        ["show today's tasks", 'today']
+    ])('parses "%s" as a %s view', (transcript, view) => {
+        const intent = parseIntent(transcript);
+        expect(intent.type).toBe('show');
+        expect(intent.slots.view).toBe(view);
+    });
+
+    it('captures the tag of a tag view', () => {
+        const intent = parseIntent('show tasks tagged #groceries');
+        expect(intent.type).toBe('show');
+        expect(intent.slots).toEqual({ view: 'tag', content: 'groceries' });
+    });
+
+    it.each([
+        ['read my tasks', 'read'],
+        ['read out the list', 'read'],
+        ["what's on my list", 'read'],
+        ['how many are left?', 'count'],
+        ['how many tasks do I have left', 'count']
+    ])('parses "%s" as %s', (transcript, type) => {
+        expect(parseIntent(transcript).type).toBe(type);
+    });
+
+    it.each([
+        ['export my tasks', 'json'],
+        ['download the list as a backup', 'json'],
+        ['export my tasks as markdown', 'markdown'],
+        ['export tasks to my calendar', 'ics']
+    ])('parses "%s" as an export to %s', (transcript, format) => {
+        const intent = parseIntent(transcript);
+        expect(intent.type).toBe('export');
+        expect(intent.slots.format).toBe(format);
+    });
+
+    it('does not mistake "show completed" for marking a task', () => {
+        expect(parseIntent('show completed').type).toBe('show');
+    });
+});
+
+describe('task edit commands', () => {
+    it.each([
+        ['rename buy milk to buy oat milk', 'rename', { content: 'buy milk', value: 'buy oat milk' }],
+        ['change the name of task 2 to call dad', 'rename', { content: 'task 2', value: 'call dad' }],
+        ['append two liters to buy milk', 'append', { content: 'buy milk', value: 'two liters' }],
+        ['change dentist to Friday', 'change', { content: 'dentist', value: 'friday' }],
+        ['reschedule the report for tomorrow at 3pm', 'change', { content: 'the report', value: 'tomorrow at 3pm' }],
+        ['mark groceries as not done', 'unmark', { content: 'groceries' }],
+        ['uncheck laundry', 'unmark', { content: 'laundry' }],
+        ['move call mom to the top', 'move', { content: 'call mom', position: 'top' }],
+        ['move laundry to the end of the list', 'move', { content: 'laundry', position: 'bottom' }],
+        ['move task 3 up', 'move', { content: 'task 3', position: 'up' }],
+        ['move call mom to position two', 'move', { content: 'call mom', value: 'two' }]
+    ])('parses "%s" as %s', (transcript, type, slots) => {
+        const intent = parseIntent(transcript);
+        expect(intent.type).toBe(type);
+        expect(intent.slots).toEqual(slots);
+    });
+
+    it('does not take "as not done" for marking a task done', () => {
+        expect(rankIntents('mark groceries as not done').map(intent => intent.type)).not.toContain('mark');
+    });
+});
+
+describe('German commands', () => {
+    it.each([
+        ['Füge Aufgabe Milch kaufen hinzu', 'add', 'milch kaufen'],
+        ['neue Aufgabe Mama anrufen', 'add', 'mama anrufen'],
+        ['Markiere Milch kaufen als erledigt', 'mark', 'milch kaufen'],
+        ['Wäsche ist erledigt', 'mark', 'wäsche'],
+        ['Lösche Aufgabe Milch kaufen', 'delete', 'milch kaufen'],
+        ['bitte entferne Wäsche', 'delete', 'wäsche'],
+        ['Lösche alle Aufgaben', 'clear', undefined],
+        ['Rückgängig', 'undo', undefined],
+        ['ja', 'confirm', undefined],
+        ['nein', 'cancel', undefined],
+        ['Zeige die erledigten Aufgaben', 'show', undefined],
+        ['Lies mir meine Aufgaben vor', 'read', undefined],
+        ['Wie viele sind noch offen?', 'count', undefined],
+        ['Benenne Milch kaufen in Hafermilch kaufen um', 'rename', 'milch kaufen'],
+        ['Markiere Einkaufen als nicht erledigt', 'unmark', 'einkaufen'],
+        ['Verschiebe Mama anrufen ganz nach oben', 'move', 'mama anrufen'],
+        ['Verschiebe Zahnarzt auf Freitag', 'change', 'zahnarzt']
+    ])('parses "%s" as %s', (transcript, type, content) => {
+        const intent = parseIntent(transcript, locales.de);
+        expect(intent.type).toBe(type);
+        expect(intent.slots.content).toBe(content);
+    });
+});
+
+describe('Spanish commands', () => {
+    it.each([
+        ['Añade tarea comprar leche', 'add', 'comprar leche'],
+        ['nueva tarea llamar a mamá', 'add', 'llamar a mamá'],
+        ['Marca comprar leche como hecha', 'mark', 'comprar leche'],
+        ['Borra tarea comprar leche', 'delete', 'comprar leche'],
+        ['por favor elimina la colada', 'delete', 'la colada'],
+        ['Borra todas las tareas', 'clear', undefined],
+        ['Deshacer', 'undo', undefined],
+        ['¡Sí!', 'confirm', undefined],
+        ['no', 'cancel', undefined],
+        ['Muéstrame las tareas pendientes', 'show', undefined],
+        ['Lee mis tareas', 'read', undefined],
+        ['¿Cuántas quedan?', 'count', undefined],
+        ['Renombra comprar leche por comprar leche de avena', 'rename', 'comprar leche'],
+        ['Marca la compra como pendiente', 'unmark', 'la compra'],
+        ['Mueve llamar a mamá al principio', 'move', 'llamar a mamá'],
+        ['Cambia dentista al viernes', 'change', 'dentista']
+    ])('parses "%s" as %s', (transcript, type, content) => {
+        const intent = parseIntent(transcript, locales.es);
+        expect(intent.type).toBe(type);
+        expect(intent.slots.content).toBe(content);
+    });
+});
@@ -0,0 +1,142 @@
+// Turns a spoken transcript into a typed intent.
+// Every pattern is tried and scored, so the order of the pattern table no longer decides
+// which command wins ("delete all tasks" is a clear, not a delete of a task called "all tasks").
+// The phrasings themselves live in the locale packs under src/locales.
+
+import { defaultLocale } from '../locales';
+import type { CommandLanguage } from '../locales';
+import type { TaskView } from './taskQueries';
+import type { MovePosition } from './taskEditing';
+import type { TaskFileFormat } from './taskFiles';
+
+export type IntentType =
+    | 'add' | 'mark' | 'delete' | 'clear'
+    | 'unmark' | 'rename' | 'append' | 'move' | 'change'
+    | 'undo' | 'redo' | 'confirm' | 'cancel'
+    | 'show' | 'read' | 'count' | 'export'
+    | 'macro'
+    | 'unknown';
+
+export interface IntentSlots {
+    // Task text for add, the spoken task name for commands on a task, the tag for a tag view,
+    // or the phrase of a macro
+    content?: string;
+    // New text for rename/append, spoken details for change, or the spoken number for a move
+    value?: string;
+    // Which tasks a show query asks for
+    view?: TaskView;
+    // Where a move puts the task, when not given as a number
+    position?: MovePosition;
+    // File format an export asks for
+    format?: TaskFileFormat;
+    // The content is a spoken list, so a plain "and" separates its items too
+    list?: boolean;
+}
+
+export type SlotName = 'content' | 'value';
+
+export interface Intent {
+    type: IntentType;
+    slots: IntentSlots;
+    // 0..1, how sure we are that this is what was meant
+    confidence: number;
+    transcript: string;
+}
+
+export interface CommandPattern {
+    intent: Exclude<IntentType, 'unknown'>;
+    pattern: RegExp;
+    // Preferred phrasings get 1, looser ones less so they lose against a more specific match
+    weight: number;
+    // Name of the slot the first capture group fills, if any
+    slot?: SlotName;
+    // Slots the capture groups fill in order, for patterns with more than one ("rename (x) to (y)")
+    slots?: SlotName[];
+    // Fixed view a show pattern selects
+    view?: TaskView;
+    // Fixed position a move pattern selects
+    position?: MovePosition;
+    // File format an export pattern selects
+    format?: TaskFileFormat;
+    // Fixed content slot, for custom commands that always mean the same task or macro
+    content?: string;
+    // An add without the word "task" ("add milk and eggs") takes its content as a list
+    list?: boolean;
+}
+
+export const normalizeTranscript = (transcript: string, language: CommandLanguage = defaultLocale): string =>
+    transcript
+        .toLowerCase()
+        .replace(/^[¿¡]+/, '')
+        .replace(/[.,!?]+$/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(language.fillerPattern, '')
+        .trim();
+
+const scorePattern = (input: string, cmd: CommandPattern, transcript: string): Intent | null => {
+    const match = input.match(cmd.pattern);
+    if (!match) {
+        return null;
+    }
+
+    // Text outside the match (e.g. "hmm add task x") lowers confidence a little
+    const coverage = match[0].length / input.length;
+    const slots: IntentSlots = {};
+    (cmd.slots || (cmd.slot ? [cmd.slot] : [])).forEach((name, index) => {
+        if (match[index + 1]) {
+            slots[name] = match[index + 1].trim();
+        }
+    });
+    if (cmd.view) {
+        slots.view = cmd.view;
+    }
+    if (cmd.position) {
+        slots.position = cmd.position;
+    }
+    if (cmd.format) {
+        slots.format = cmd.format;
+    }
+    if (cmd.content) {
+        slots.content = cmd.content;
+    }
+    if (cmd.list) {
+        slots.list = true;
+    }
+
+    return {
+        type: cmd.intent,
+        slots,
+        confidence: cmd.weight * (0.5 + 0.5 * coverage),
+        transcript
+    };
+};
+
+// All readings of the transcript, best first. Only the best reading per intent type is kept.
+export const rankIntents = (transcript: string, language: CommandLanguage = defaultLocale): Intent[] => {
+    const input = normalizeTranscript(transcript, language);
+    if (!input) {
+        return [];
+    }
+
+    const bestByType = new Map<IntentType, Intent>();
+    for (const cmd of language.patterns) {
+        const intent = scorePattern(input, cmd, transcript);
+        const current = bestByType.get(cmd.intent);
+        if (intent && (!current || intent.confidence > current.confidence)) {
+            bestByType.set(cmd.intent, intent);
+        }
+    }
+
+    return Array.from(bestByType.values()).sort((a, b) => b.confidence - a.confidence);
+};
+
+export const parseIntent = (transcript: string, language: CommandLanguage = defaultLocale): Intent => {
+    const [best] = rankIntents(transcript, language);
+    return best || {
+        type: 'unknown',
+        slots: { content: normalizeTranscript(transcript, language) },
+        confidence: 0,
+        transcript
+    };
+};
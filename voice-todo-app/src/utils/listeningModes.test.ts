@@ -0,0 +1,53 @@
+import { afterWakeWord, isListeningMode, stripWakeWord } from './listeningModes';
+import { locales } from '../locales';
+
+describe('stripWakeWord', () => {
+    const wakeWords = locales.en.wakeWords;
+
+    it('returns the command after the wake word', () => {
+        expect(stripWakeWord('Hey list, add task buy milk', wakeWords)).toBe('add task buy milk');
+        expect(stripWakeWord(' hey list add task buy milk', wakeWords)).toBe('add task buy milk');
+    });
+
+    it('returns an empty string for the wake word on its own', () => {
+        expect(stripWakeWord('Hey list', wakeWords)).toBe('');
+        expect(stripWakeWord('hey list.', wakeWords)).toBe('');
+    });
+
+    it('returns null without the wake word', () => {
+        expect(stripWakeWord('add task buy milk', wakeWords)).toBeNull();
+        // The wake word has to be a whole phrase at the start
+        expect(stripWakeWord('hey listen to this', wakeWords)).toBeNull();
+        expect(stripWakeWord('add task hey list', wakeWords)).toBeNull();
+    });
+
+    it('understands the other languages', () => {
+        expect(stripWakeWord('Hallo Liste, lösche Aufgabe Milch', locales.de.wakeWords)).toBe('lösche Aufgabe Milch');
+        expect(stripWakeWord('¿Oye lista, cuántas quedan?', locales.es.wakeWords)).toBe('cuántas quedan?');
+    });
+});
+
+describe('afterWakeWord', () => {
+    it('keeps only the alternatives that start with the wake word', () => {
+        expect(afterWakeWord([
+            { transcript: 'hey list add task milk', confidence: 0.8 },
+            { transcript: 'hay lost add task milk', confidence: 0.5 },
+            { transcript: 'hay list add task milk', confidence: 0.4 }
+        ], locales.en.wakeWords)).toEqual([
+            { transcript: 'add task milk', confidence: 0.8 },
+            { transcript: 'add task milk', confidence: 0.4 }
+        ]);
+    });
+
+    it('returns null when no alternative has the wake word', () => {
+        expect(afterWakeWord([{ transcript: 'add task milk', confidence: 0.9 }], locales.en.wakeWords)).toBeNull();
+    });
+});
+
+describe('isListeningMode', () => {
+    it('accepts only known modes', () => {
+        expect(isListeningMode('wakeword')).toBe(true);
+        expect(isListeningMode('always')).toBe(false);
+        expect(isListeningMode(null)).toBe(false);
+    });
+});
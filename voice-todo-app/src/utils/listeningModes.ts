@@ -0,0 +1,40 @@
+// How the app decides that a spoken command is complete and should run
+
+import { SpeechRecognitionAlternative } from '../types/speech-recognition';
+
+// manual: wait for the "process" button, as before
+// auto: run when a result turns final or after a pause
+// wakeword: like auto, but only for speech that starts with the wake word
+// pushtotalk: listen while a key or the mic button is held, run on release
+export type ListeningMode = 'manual' | 'auto' | 'wakeword' | 'pushtotalk';
+
+export const LISTENING_MODES: ListeningMode[] = ['auto', 'wakeword', 'pushtotalk', 'manual'];
+
+export const isListeningMode = (value: unknown): value is ListeningMode =>
+    LISTENING_MODES.includes(value as ListeningMode);
+
+// An interim result that hasn't changed for this long is taken as the finished command
+export const SILENCE_TIMEOUT_MS = 1500;
+
+// After the wake word on its own, the next utterance within this time counts as the command
+export const WAKE_WINDOW_MS = 6000;
+
+// The text after the wake word, '' when the wake word was said on its own, or null when it wasn't said
+export const stripWakeWord = (transcript: string, wakeWords: string[]): string | null => {
+    const spoken = transcript.replace(/^[\s¿¡]+/, '');
+    const lower = spoken.toLowerCase();
+    const wakeWord = wakeWords.find(word => lower.startsWith(word) && /^(?:$|[\s,.!?])/.test(lower.slice(word.length)));
+    return wakeWord === undefined ? null : spoken.slice(wakeWord.length).replace(/^[\s,.!?]+/, '').trim();
+};
+
+// The alternatives that start with the wake word, with the wake word removed.
+// Returns null when none of them does.
+export const afterWakeWord = (
+    alternatives: SpeechRecognitionAlternative[],
+    wakeWords: string[]
+): SpeechRecognitionAlternative[] | null => {
+    const woken = alternatives
+        .map(alternative => ({ ...alternative, transcript: stripWakeWord(alternative.transcript, wakeWords) }))
+        .filter((alternative): alternative is SpeechRecognitionAlternative => alternative.transcript !== null);
+    return woken.length > 0 ? woken : null;
+};
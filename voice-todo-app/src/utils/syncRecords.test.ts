@@ -0,0 +1,50 @@
+import { applyRecords, mergeRecords, recordLocalChanges } from './syncRecords';
+import { Task, emptyTaskDetails } from '../types/task';
+
+const task = (id: string, content: string, extra: Partial<Task> = {}): Task => ({
+    id,
+    content,
+    completed: false,
+    ...emptyTaskDetails(),
+    ...extra
+});
+
+describe('recordLocalChanges', () => {
+    it('stamps only the fields that changed and records deletions', () => {
+        const first = recordLocalChanges({}, [task('a', 'buy milk'), task('b', 'call mom')], 100);
+        expect(first.changed).toEqual(['a', 'b']);
+
+        const second = recordLocalChanges(first.records, [task('a', 'buy milk', { completed: true })], 200);
+        expect(second.changed).toEqual(['a', 'b']);
+        expect(second.records.a.changedAt).toMatchObject({ content: 100, completed: 200 });
+        expect(second.records.b.values.deleted).toBe(true);
+        expect(second.records.b.changedAt.deleted).toBe(200);
+    });
+
+    it('never stamps a change earlier than the last one, even with a clock behind', () => {
+        const { records } = recordLocalChanges({}, [task('a', 'buy milk')], 500);
+        const next = recordLocalChanges(records, [task('a', 'buy bread')], 100);
+        expect(next.records.a.changedAt.content).toBe(501);
+    });
+});
+
+describe('mergeRecords', () => {
+    it('gives the same result in either order when times are equal', () => {
+        const { records: one } = recordLocalChanges({}, [task('a', 'buy milk')], 100);
+        const { records: two } = recordLocalChanges({}, [task('a', 'buy bread')], 100);
+        expect(mergeRecords(one.a, two.a)).toEqual(mergeRecords(two.a, one.a));
+    });
+});
+
+describe('applyRecords', () => {
+    it('keeps the list and its tasks when nothing changes', () => {
+        const tasks = [task('a', 'buy milk'), task('b', 'call mom')];
+        const { records } = recordLocalChanges({}, tasks, 100);
+        expect(applyRecords(tasks, Object.values(records))).toBe(tasks);
+
+        const { records: changed } = recordLocalChanges(records, [task('a', 'buy milk'), task('b', 'call dad')], 200);
+        const next = applyRecords(tasks, Object.values(changed));
+        expect(next[0]).toBe(tasks[0]);
+        expect(next[1].content).toBe('call dad');
+    });
+});
@@ -0,0 +1,141 @@
+// The per-field change records the sync client and server exchange. Every field of a task
+// carries the time it was last changed, so edits to different fields on different devices
+// both survive, and for the same field the later edit wins.
+
+import { Task } from '../types/task';
+
+export type SyncedField = 'content' | 'completed' | 'due' | 'priority' | 'tags' | 'list' | 'deleted';
+
+export const SYNCED_FIELDS: SyncedField[] = ['content', 'completed', 'due', 'priority', 'tags', 'list', 'deleted'];
+
+export type SyncedValues = Omit<Task, 'id'> & {
+    // Deleted tasks are kept as tombstones so the deletion reaches other devices
+    deleted: boolean;
+};
+
+export interface SyncRecord {
+    id: string;
+    values: SyncedValues;
+    // When each field last changed, in ms since the epoch
+    changedAt: Record<SyncedField, number>;
+}
+
+const taskValues = (task: Task): SyncedValues => ({
+    content: task.content,
+    completed: task.completed,
+    due: task.due,
+    priority: task.priority,
+    tags: task.tags,
+    list: task.list,
+    deleted: false
+});
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const stampAll = (time: number): Record<SyncedField, number> =>
+    SYNCED_FIELDS.reduce((stamps, field) => ({ ...stamps, [field]: time }), {} as Record<SyncedField, number>);
+
+// Compares the task list with the last known records and stamps every field that changed.
+// Returns the updated records (unchanged ones are the same objects) and the ids that changed.
+export const recordLocalChanges = (
+    records: Record<string, SyncRecord>,
+    tasks: Task[],
+    now: number
+): { records: Record<string, SyncRecord>, changed: string[] } => {
+    const next = { ...records };
+    const changed: string[] = [];
+
+    const update = (id: string, values: SyncedValues): void => {
+        const record = records[id];
+        if (!record) {
+            next[id] = { id, values, changedAt: stampAll(now) };
+            changed.push(id);
+            return;
+        }
+        const fields = SYNCED_FIELDS.filter(field => !sameValue(record.values[field], values[field]));
+        if (fields.length > 0) {
+            const changedAt = { ...record.changedAt };
+            // Never stamp a field earlier than its last known change, even if this clock is behind
+            fields.forEach(field => {
+                changedAt[field] = Math.max(now, record.changedAt[field] + 1);
+            });
+            next[id] = { id, values, changedAt };
+            changed.push(id);
+        }
+    };
+
+    const present = new Set<string>();
+    tasks.forEach(task => {
+        present.add(task.id);
+        update(task.id, taskValues(task));
+    });
+    Object.keys(records).forEach(id => {
+        if (!present.has(id) && !records[id].values.deleted) {
+            update(id, { ...records[id].values, deleted: true });
+        }
+    });
+
+    return { records: next, changed };
+};
+
+// Field by field, the later change wins. Equal times are settled by comparing the values,
+// so every device ends up with the same result whichever record it saw first.
+export const mergeRecords = (a: SyncRecord | undefined, b: SyncRecord): SyncRecord => {
+    if (!a) {
+        return b;
+    }
+    const values = { ...a.values } as Record<SyncedField, unknown>;
+    const changedAt = { ...a.changedAt };
+    SYNCED_FIELDS.forEach(field => {
+        const later = b.changedAt[field] > a.changedAt[field] ||
+            (b.changedAt[field] === a.changedAt[field] && JSON.stringify(b.values[field]) > JSON.stringify(a.values[field]));
+        if (later) {
+            values[field] = b.values[field];
+            changedAt[field] = b.changedAt[field];
+        }
+    });
+    return { id: a.id, values: values as SyncedValues, changedAt };
+};
+
+export const sameRecord = (a: SyncRecord | undefined, b: SyncRecord | undefined): boolean =>
+    !!a && !!b && sameValue(a.values, b.values) && sameValue(a.changedAt, b.changedAt);
+
+// Applies records to the task list: changed tasks are updated in place, deleted ones removed and
+// new ones added at the end. Returns the same array when nothing changes.
+export const applyRecords = (tasks: Task[], records: SyncRecord[]): Task[] => {
+    if (records.length === 0) {
+        return tasks;
+    }
+    const byId = new Map(records.map(record => [record.id, record]));
+    let changed = false;
+
+    const kept: Task[] = [];
+    tasks.forEach(task => {
+        const record = byId.get(task.id);
+        byId.delete(task.id);
+        if (!record) {
+            kept.push(task);
+        } else if (!record.values.deleted) {
+            const { deleted, ...values } = record.values;
+            const updated = { ...task, ...values };
+            if (sameValue(taskValues(updated), taskValues(task))) {
+                kept.push(task);
+            } else {
+                kept.push(updated);
+                changed = true;
+            }
+        } else {
+            changed = true;
+        }
+    });
+
+    byId.forEach(record => {
+        if (!record.values.deleted) {
+            const { deleted, ...values } = record.values;
+            kept.push({ id: record.id, ...values });
+            changed = true;
+        }
+    });
+
+    return changed ? kept : tasks;
+};
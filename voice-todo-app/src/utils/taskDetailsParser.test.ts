@@ -0,0 +1,57 @@
+import { parseTaskText } from './taskDetailsParser';
+import { locales } from '../locales';
+
+// Monday 19 October 2026, 10:00 local time
+const now = new Date(2026, 9, 19, 10, 0);
+
+describe('parseTaskText', () => {
+    it('extracts due date, time, priority and list from a full sentence', () => {
+        expect(parseTaskText('call the dentist tomorrow at 3pm high priority to the personal list', locales.en, now)).toEqual({
+            content: 'call the dentist',
+            due: '2026-10-20T15:00',
+            priority: 'high',
+            tags: [],
+            list: 'personal'
+        });
+    });
+
+    it('resolves weekdays to the next occurrence', () => {
+        expect(parseTaskText('buy milk on friday', locales.en, now).due).toBe('2026-10-23');
+        expect(parseTaskText('team meeting monday', locales.en, now).due).toBe('2026-10-26');
+    });
+
+    it('collects tags', () => {
+        const parsed = parseTaskText('buy milk tag groceries #errands', locales.en, now);
+        expect(parsed.content).toBe('buy milk');
+        expect(parsed.tags).toEqual(['groceries', 'errands']);
+    });
+
+    it('leaves numbers that are not times in the content', () => {
+        expect(parseTaskText('buy 2 apples', locales.en, now)).toMatchObject({ content: 'buy 2 apples', due: null });
+    });
+
+    it('puts a time that has already passed today on tomorrow', () => {
+        expect(parseTaskText('review report at 9:30', locales.en, now).due).toBe('2026-10-20T09:30');
+        expect(parseTaskText('review report at 11am', locales.en, now).due).toBe('2026-10-19T11:00');
+    });
+
+    it('understands German details', () => {
+        expect(parseTaskText('zahnarzt anrufen morgen um 15 uhr mit hoher priorität auf die liste privat', locales.de, now)).toEqual({
+            content: 'zahnarzt anrufen',
+            due: '2026-10-20T15:00',
+            priority: 'high',
+            tags: [],
+            list: 'privat'
+        });
+    });
+
+    it('understands Spanish details', () => {
+        expect(parseTaskText('llamar al dentista pasado mañana a las 3 pm prioridad alta en la lista personal', locales.es, now)).toEqual({
+            content: 'llamar al dentista',
+            due: '2026-10-21T15:00',
+            priority: 'high',
+            tags: [],
+            list: 'personal'
+        });
+    });
+});
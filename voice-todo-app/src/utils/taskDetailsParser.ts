@@ -0,0 +1,143 @@
+// Pulls due date, priority, tags and list out of spoken task text, e.g.
+// "call the dentist tomorrow at 3pm high priority to the personal list"
+// -> content "call the dentist", due tomorrow 15:00, priority high, list "personal".
+
+import { TaskDetails, emptyTaskDetails } from '../types/task';
+import { defaultLocale } from '../locales';
+import type { CommandLanguage } from '../locales';
+
+export interface ParsedTaskText extends TaskDetails {
+    content: string;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Alternation of phrases, longest first so "day after tomorrow" wins over "tomorrow"
+const phraseAlternation = (phrases: string[]): string =>
+    [...phrases].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+export const toLocalDate = (date: Date): string =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const addDays = (date: Date, days: number): Date => {
+    const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    result.setDate(result.getDate() + days);
+    return result;
+};
+
+// Removes the first match of a pattern from the text and returns the captured value
+const extract = (text: string, pattern: RegExp): { text: string, match: RegExpMatchArray | null } => {
+    const match = text.match(pattern);
+    if (!match || match.index === undefined) {
+        return { text, match: null };
+    }
+    return {
+        text: text.slice(0, match.index) + ' ' + text.slice(match.index + match[0].length),
+        match
+    };
+};
+
+// Hour and minutes from a time match, assuming afternoon for small hours said without am/pm
+const toTime = (hourText: string, minuteText?: string, meridiem?: string): string | null => {
+    let hour = Number(hourText);
+    const minutes = minuteText ? Number(minuteText) : 0;
+    const marker = (meridiem || '').replace(/\./g, '');
+    if (marker === 'pm' && hour < 12) {
+        hour += 12;
+    } else if (marker === 'am' && hour === 12) {
+        hour = 0;
+    } else if (!marker && hour >= 1 && hour <= 7) {
+        hour += 12;
+    }
+    return hour <= 23 && minutes <= 59 ? `${pad(hour)}:${pad(minutes)}` : null;
+};
+
+export const parseTaskText = (
+    spoken: string,
+    language: CommandLanguage = defaultLocale,
+    now: Date = new Date()
+): ParsedTaskText => {
+    const vocabulary = language.taskDetails;
+    const details = emptyTaskDetails();
+    let text = ` ${spoken.toLowerCase()} `;
+    let result;
+
+    result = extract(text, vocabulary.listPattern);
+    if (result.match) {
+        text = result.text;
+        details.list = result.match.slice(1).find(Boolean) || null;
+    }
+
+    for (const { pattern, priority } of vocabulary.priorities) {
+        result = extract(text, pattern);
+        if (result.match) {
+            text = result.text;
+            details.priority = priority;
+            break;
+        }
+    }
+
+    text = text.replace(vocabulary.tagPattern, (_, tag: string) => {
+        if (!details.tags.includes(tag)) {
+            details.tags.push(tag);
+        }
+        return ' ';
+    });
+
+    let time: string | null = null;
+    const namedTimes = Object.keys(vocabulary.namedTimes);
+    if (namedTimes.length) {
+        result = extract(text, new RegExp(`(?:^|\\s)(${phraseAlternation(namedTimes)})(?=\\s|$)`));
+        if (result.match) {
+            text = result.text;
+            time = vocabulary.namedTimes[result.match[1]];
+        }
+    }
+    for (const pattern of time ? [] : vocabulary.timePatterns) {
+        result = extract(text, pattern);
+        if (result.match) {
+            const parsed = toTime(result.match[1], result.match[2], result.match[3]);
+            if (parsed) {
+                text = result.text;
+                time = parsed;
+                break;
+            }
+        }
+    }
+
+    let day: Date | null = null;
+    result = extract(text, new RegExp(
+        `(?:^|\\s)${vocabulary.datePrefix}(${phraseAlternation(Object.keys(vocabulary.relativeDays))})(?=\\s|$)`
+    ));
+    if (result.match) {
+        text = result.text;
+        day = addDays(now, vocabulary.relativeDays[result.match[1]]);
+    } else {
+        result = extract(text, new RegExp(
+            `(?:^|\\s)${vocabulary.datePrefix}(${phraseAlternation(vocabulary.weekdays)})(?=\\s|$)`
+        ));
+        if (result.match) {
+            text = result.text;
+            // The next such weekday; saying today's weekday means a week from now
+            const ahead = (vocabulary.weekdays.indexOf(result.match[1]) - now.getDay() + 7) % 7 || 7;
+            day = addDays(now, ahead);
+        }
+    }
+
+    if (time && !day) {
+        // A time on its own means today, or tomorrow once that time has passed
+        const [hour, minutes] = time.split(':').map(Number);
+        const passed = now.getHours() * 60 + now.getMinutes() > hour * 60 + minutes;
+        day = addDays(now, passed ? 1 : 0);
+    }
+    if (day) {
+        details.due = time ? `${toLocalDate(day)}T${time}` : toLocalDate(day);
+    }
+
+    return {
+        ...details,
+        content: text.replace(/\s+/g, ' ').replace(/[\s,]+$/, '').trim()
+    };
+};
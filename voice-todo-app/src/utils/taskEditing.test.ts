@@ -0,0 +1,92 @@
+import { applyTaskChange, changeTask, moveIndex, moveTask } from './taskEditing';
+import { Task, emptyTaskDetails } from '../types/task';
+
+const task = (id: string, content: string, extra: Partial<Task> = {}): Task => ({
+    id,
+    content,
+    completed: false,
+    ...emptyTaskDetails(),
+    ...extra
+});
+
+const ids = (tasks: Task[]): string[] => tasks.map(({ id }) => id);
+
+describe('moveIndex', () => {
+    it('resolves fixed and spoken positions, clamped to the list', () => {
+        expect(moveIndex('top', 3, 5)).toBe(0);
+        expect(moveIndex('bottom', 1, 5)).toBe(4);
+        expect(moveIndex('up', 3, 5)).toBe(2);
+        expect(moveIndex('down', 4, 5)).toBe(4);
+        expect(moveIndex(2, 4, 5)).toBe(1);
+        expect(moveIndex(9, 0, 5)).toBe(4);
+    });
+});
+
+describe('moveTask', () => {
+    const tasks = [task('1', 'a'), task('2', 'b'), task('3', 'c'), task('4', 'd')];
+
+    it('moves a task up or down the list', () => {
+        expect(ids(moveTask(tasks, '3', tasks, 0))).toEqual(['3', '1', '2', '4']);
+        expect(ids(moveTask(tasks, '1', tasks, 2))).toEqual(['2', '3', '1', '4']);
+    });
+
+    it('keeps hidden tasks where they are', () => {
+        // Only 1, 3 and 4 are shown, e.g. because 2 is completed and filtered out
+        const shown = [tasks[0], tasks[2], tasks[3]];
+        expect(ids(moveTask(tasks, '4', shown, 1))).toEqual(['1', '2', '4', '3']);
+        expect(ids(moveTask(tasks, '1', shown, 1))).toEqual(['2', '3', '1', '4']);
+    });
+
+    it('returns the same list when nothing moves', () => {
+        expect(moveTask(tasks, '2', tasks, 1)).toBe(tasks);
+        expect(moveTask(tasks, '9', tasks, 0)).toBe(tasks);
+    });
+});
+
+describe('changeTask', () => {
+    const now = new Date(2026, 9, 19, 10, 0);
+    const dentist = task('1', 'dentist', { priority: 'low', tags: ['health'] });
+
+    it('applies spoken details and keeps the name', () => {
+        expect(changeTask(dentist, 'friday high priority', undefined, now)).toEqual({
+            ...dentist,
+            due: '2026-10-23',
+            priority: 'high'
+        });
+    });
+
+    it('renames the task with the text that is not a detail', () => {
+        const changed = changeTask(dentist, 'call the dentist #urgent', undefined, now);
+        expect(changed.content).toBe('call the dentist');
+        expect(changed.priority).toBe('low');
+        expect(changed.tags).toEqual(['health', 'urgent']);
+    });
+});
+
+describe('applyTaskChange', () => {
+    const a = task('a', 'buy milk');
+    const b = task('b', 'call mom');
+    const c = task('c', 'water plants');
+    const remote = task('r', 'added in another tab');
+
+    it('undoes an add, delete or edit and keeps tasks added since', () => {
+        expect(ids(applyTaskChange([a, b, remote], [a, b], [a]))).toEqual(['a', 'r']);
+        expect(ids(applyTaskChange([a, remote], [a], [a, b]))).toEqual(['a', 'b', 'r']);
+        const edited = { ...a, content: 'buy oat milk' };
+        expect(applyTaskChange([edited, remote], [edited], [a])).toEqual([a, remote]);
+    });
+
+    it('puts a deleted task back after the task it followed', () => {
+        expect(ids(applyTaskChange([a, remote, c], [a, c], [a, b, c]))).toEqual(['a', 'b', 'r', 'c']);
+        expect(ids(applyTaskChange([remote], [], [a, b]))).toEqual(['a', 'b', 'r']);
+    });
+
+    it('keeps remote edits to tasks the change did not touch', () => {
+        const remoteEdit = { ...b, completed: true };
+        expect(applyTaskChange([remoteEdit], [a, b], [b])).toEqual([remoteEdit]);
+    });
+
+    it('undoes a move without moving other tasks', () => {
+        expect(ids(applyTaskChange([b, remote, a, c], [b, a, c], [a, b, c]))).toEqual(['a', 'r', 'b', 'c']);
+    });
+});
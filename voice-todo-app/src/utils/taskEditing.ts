@@ -0,0 +1,106 @@
+// Changes to existing tasks, shared by the voice edit commands and the inline edit and
+// drag-to-reorder in the task list
+
+import { Task } from '../types/task';
+import { parseTaskText } from './taskDetailsParser';
+import { defaultLocale } from '../locales';
+import type { CommandLanguage } from '../locales';
+
+// Where "move … to the top" / "move … up" puts a task in the list
+export type MovePosition = 'top' | 'bottom' | 'up' | 'down';
+
+// 0-based index a task at `from` moves to in a list of `count` tasks.
+// A number is a spoken 1-based position ("to position 3").
+export const moveIndex = (position: MovePosition | number, from: number, count: number): number => {
+    let index: number;
+    switch (position) {
+        case 'top':
+            index = 0;
+            break;
+        case 'bottom':
+            index = count - 1;
+            break;
+        case 'up':
+            index = from - 1;
+            break;
+        case 'down':
+            index = from + 1;
+            break;
+        default:
+            index = position - 1;
+            break;
+    }
+    return Math.min(Math.max(index, 0), count - 1);
+};
+
+// Moves a task to an index of the shown list, which may be filtered. Hidden tasks keep their place.
+// `shown` has to be in list order. Returns the same array if nothing moves.
+export const moveTask = (tasks: Task[], taskId: string, shown: Task[], toIndex: number): Task[] => {
+    const from = shown.findIndex(task => task.id === taskId);
+    const anchor = shown[toIndex];
+    if (from === -1 || !anchor || toIndex === from) {
+        return tasks;
+    }
+
+    const moved = shown[from];
+    const rest = tasks.filter(task => task.id !== taskId);
+    const anchorIndex = rest.findIndex(task => task.id === anchor.id);
+    // Moving down lands after the task that was at that index, moving up before it
+    rest.splice(toIndex > from ? anchorIndex + 1 : anchorIndex, 0, moved);
+    return rest;
+};
+
+// "change dentist to Friday high priority": applies the spoken details, and takes any text
+// left over as the new name ("change milk to oat milk"). Tags are added to the existing ones.
+export const changeTask = (
+    task: Task,
+    spoken: string,
+    language: CommandLanguage = defaultLocale,
+    now: Date = new Date()
+): Task => {
+    const { content, due, priority, tags, list } = parseTaskText(spoken, language, now);
+    return {
+        ...task,
+        content: content || task.content,
+        due: due ?? task.due,
+        priority: priority ?? task.priority,
+        list: list ?? task.list,
+        tags: Array.from(new Set([...task.tags, ...tags]))
+    };
+};
+
+const byId = (tasks: Task[]): Map<string, Task> => new Map(tasks.map(task => [task.id, task]));
+
+// Applies what changed between two versions of the list (`from` -> `to`) to `current`, task by
+// task. Tasks the change didn't touch, e.g. ones another tab or device added since, stay as they
+// are in `current`; this is what lets undo and redo work on a list that also changes remotely.
+export const applyTaskChange = (current: Task[], from: Task[], to: Task[]): Task[] => {
+    const fromTasks = byId(from);
+    const toTasks = byId(to);
+
+    // Removed and edited tasks
+    let result = current
+        .filter(task => !fromTasks.has(task.id) || toTasks.has(task.id))
+        .map(task => (fromTasks.has(task.id) && fromTasks.get(task.id) !== toTasks.get(task.id) ? toTasks.get(task.id) as Task : task));
+
+    // Added tasks go after the task they followed in `to`, or first if none of those is left
+    to.forEach((task, index) => {
+        if (fromTasks.has(task.id) || result.some(item => item.id === task.id)) {
+            return;
+        }
+        const previous = to.slice(0, index).reverse().find(item => result.some(kept => kept.id === item.id));
+        const at = previous ? result.findIndex(item => item.id === previous.id) + 1 : 0;
+        result = [...result.slice(0, at), task, ...result.slice(at)];
+    });
+
+    // A move: the tasks of the change take their order from `to`, in the places they hold now
+    const order = (tasks: Task[]): string[] => tasks.filter(task => fromTasks.has(task.id) && toTasks.has(task.id)).map(({ id }) => id);
+    if (order(from).join('\n') !== order(to).join('\n')) {
+        const kept = byId(result);
+        const inOrder = to.filter(task => kept.has(task.id)).map(task => kept.get(task.id) as Task);
+        let next = 0;
+        result = result.map(task => (toTasks.has(task.id) ? inOrder[next++] : task));
+    }
+
+    return result;
+};
@@ -0,0 +1,147 @@
+import { detectTaskFileFormat, exportTasks, importTasks, mergeImportedTasks, taskFileName } from './taskFiles';
+import { Task, emptyTaskDetails } from '../types/task';
+
+const task = (id: string, content: string, extra: Partial<Task> = {}): Task => ({
+    id,
+    content,
+    completed: false,
+    ...emptyTaskDetails(),
+    ...extra
+});
+
+const now = new Date(2026, 9, 19, 10, 0);
+
+const tasks = [
+    task('1', 'buy milk'),
+    task('2', 'call the dentist', { due: '2026-10-20T15:00', priority: 'high', tags: ['health'], list: 'personal' }),
+    task('3', 'file taxes; finally, really', { completed: true, due: '2026-10-23', priority: 'low', list: 'work' })
+];
+
+const withoutIds = (list: Task[]) => list.map(({ id, ...rest }) => rest);
+
+describe('exportTasks and importTasks', () => {
+    it.each(['json', 'markdown', 'ics'] as const)('round-trips tasks through %s', format => {
+        expect(importTasks(exportTasks(tasks, format, now), format)).toEqual(withoutIds(tasks));
+    });
+
+    it('writes a Markdown checklist grouped by list', () => {
+        expect(exportTasks(tasks, 'markdown', now)).toBe([
+            '# Tasks',
+            '',
+            '- [ ] buy milk',
+            '',
+            '## personal',
+            '',
+            '- [ ] call the dentist 📅 2026-10-20 15:00 ⏫ #health',
+            '',
+            '## work',
+            '',
+            '- [x] file taxes; finally, really 📅 2026-10-23 🔽',
+            ''
+        ].join('\n'));
+    });
+
+    it('writes VTODOs with escaped text and CRLF line endings', () => {
+        const ics = exportTasks(tasks, 'ics', now);
+        expect(ics).toContain('BEGIN:VTODO\r\nUID:2@voice-todo-app\r\n');
+        expect(ics).toContain('SUMMARY:file taxes\\; finally\\, really\r\nSTATUS:COMPLETED\r\nDUE;VALUE=DATE:20261023\r\n');
+        expect(ics).toContain('DUE:20261020T150000\r\nPRIORITY:1\r\nCATEGORIES:health\r\n');
+    });
+
+    it('folds long iCalendar lines', () => {
+        const ics = exportTasks([task('1', 'ü'.repeat(60))], 'ics', now);
+        const lines = ics.split('\r\n');
+        expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+        expect(importTasks(ics, 'ics')[0].content).toBe('ü'.repeat(60));
+    });
+
+    it('reads checklists written by other tools', () => {
+        expect(importTasks('Groceries:\n* [X] Eggs\n  - [ ] Bread #Bakery\n- not a task', 'markdown')).toEqual([
+            { content: 'Eggs', completed: true, due: null, priority: null, tags: [], list: null },
+            { content: 'Bread', completed: false, due: null, priority: null, tags: ['bakery'], list: null }
+        ]);
+    });
+
+    it('reads VTODOs from other calendars and skips events', () => {
+        const ics = [
+            'BEGIN:VCALENDAR',
+            'BEGIN:VEVENT',
+            'SUMMARY:Meeting',
+            'END:VEVENT',
+            'BEGIN:VTODO',
+            'SUMMARY:Water the',
+            '  plants',
+            'DUE;TZID=Europe/Berlin:20261021T083000',
+            'PRIORITY:3',
+            'CATEGORIES:Home,Back yard',
+            'COMPLETED:20261020T090000Z',
+            'END:VTODO',
+            'END:VCALENDAR'
+        ].join('\n');
+        expect(importTasks(ics, 'ics')).toEqual([{
+            content: 'Water the plants',
+            completed: true,
+            due: '2026-10-21T08:30',
+            priority: 'high',
+            tags: ['home', 'back-yard'],
+            list: null
+        }]);
+    });
+
+    it('reads bare task arrays and drops invalid entries from JSON', () => {
+        expect(importTasks('[{"id": 1, "content": "buy milk", "completed": true}, {"content": ""}, 5]', 'json')).toEqual([
+            { content: 'buy milk', completed: true, due: null, priority: null, tags: [], list: null }
+        ]);
+    });
+
+    it('fills in the fields a JSON task leaves out', () => {
+        const expected = [{ content: 'x', completed: false, due: null, priority: null, tags: [], list: null }];
+        expect(importTasks('[{"content":"x"}]', 'json')).toEqual(expected);
+        expect(importTasks('{"version": 3, "tasks": [{"content": "x"}]}', 'json')).toEqual(expected);
+        expect(importTasks('{"version": 3, "tasks": [{"content": "x", "tags": "home", "due": 5}]}', 'json')).toEqual(expected);
+    });
+
+    it('rejects files that are not in the format', () => {
+        expect(() => importTasks('not json', 'json')).toThrow('not valid JSON');
+        expect(() => importTasks('- [ ] milk', 'ics')).toThrow('not an iCalendar file');
+    });
+});
+
+describe('detectTaskFileFormat', () => {
+    it('goes by the extension, then by the content', () => {
+        expect(detectTaskFileFormat('backup.JSON', '')).toBe('json');
+        expect(detectTaskFileFormat('tasks.md', '')).toBe('markdown');
+        expect(detectTaskFileFormat('calendar.ics', '')).toBe('ics');
+        expect(detectTaskFileFormat('notes.txt', 'BEGIN:VCALENDAR\n')).toBe('ics');
+        expect(detectTaskFileFormat('export', ' [{"content": "x"}]')).toBe('json');
+        expect(detectTaskFileFormat('todo.txt', '- [ ] milk')).toBe('markdown');
+        expect(detectTaskFileFormat('photo.png', '')).toBeNull();
+    });
+});
+
+describe('mergeImportedTasks', () => {
+    it('skips tasks already on the list and gives new ones unique ids', () => {
+        const result = mergeImportedTasks(tasks, [
+            { ...withoutIds(tasks)[0], content: 'Buy  Milk' },
+            { ...withoutIds(tasks)[0], content: 'buy milk', list: 'work' },
+            { ...withoutIds(tasks)[0], content: 'walk the dog' },
+            { ...withoutIds(tasks)[0], content: 'walk the dog' }
+        ]);
+
+        expect(result.added).toBe(2);
+        expect(result.duplicates).toBe(2);
+        const added = result.tasks.slice(3);
+        expect(added.map(({ content, list }) => [content, list])).toEqual([['buy milk', 'work'], ['walk the dog', null]]);
+        expect(new Set(result.tasks.map(({ id }) => id)).size).toBe(5);
+    });
+
+    it('returns the same list when nothing is new', () => {
+        expect(mergeImportedTasks(tasks, withoutIds(tasks)).tasks).toBe(tasks);
+    });
+});
+
+describe('taskFileName', () => {
+    it('names the file after the date', () => {
+        expect(taskFileName('markdown', now)).toBe('tasks-2026-10-19.md');
+    });
+});
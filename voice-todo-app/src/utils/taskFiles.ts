@@ -0,0 +1,365 @@
+// Converts the task list to and from files other tools understand: JSON (lossless, the same
+// shape as the saved task list), a Markdown checklist and iCalendar VTODOs
+
+import { PRIORITIES, Priority, Task, createTaskId } from '../types/task';
+import { StoredTaskList, TASK_SCHEMA_VERSION, migrateTaskRecords } from '../services/taskStorage';
+
+export type TaskFileFormat = 'json' | 'markdown' | 'ics';
+
+export const TASK_FILE_FORMATS: Record<TaskFileFormat, { extensions: string[], mimeType: string }> = {
+    json: { extensions: ['json'], mimeType: 'application/json' },
+    markdown: { extensions: ['md', 'markdown', 'txt'], mimeType: 'text/markdown' },
+    ics: { extensions: ['ics', 'ical'], mimeType: 'text/calendar' }
+};
+
+// A task read from a file, before it gets an id in this list
+export type ImportedTask = Omit<Task, 'id'>;
+
+export interface ImportResult {
+    tasks: Task[];
+    added: number;
+    // Imported tasks that were already in the list, or twice in the file
+    duplicates: number;
+}
+
+const DUE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2})?$/;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Checks one task from a JSON file; anything unusable is dropped rather than failing the import
+const toImportedTask = (raw: unknown): ImportedTask | null => {
+    if (typeof raw !== 'object' || raw === null) {
+        return null;
+    }
+    const task: Record<string, unknown> = { ...raw };
+    if (typeof task.content !== 'string' || !task.content.trim()) {
+        return null;
+    }
+    return {
+        content: task.content.trim(),
+        completed: task.completed === true,
+        due: typeof task.due === 'string' && DUE_PATTERN.test(task.due) ? task.due : null,
+        priority: PRIORITIES.find(priority => priority === task.priority) ?? null,
+        tags: Array.isArray(task.tags) ? task.tags.filter((tag: unknown): tag is string => typeof tag === 'string') : [],
+        list: typeof task.list === 'string' && task.list ? task.list : null
+    };
+};
+
+const toJson = (tasks: Task[], now: Date): string => {
+    const data: StoredTaskList = { version: TASK_SCHEMA_VERSION, updatedAt: now.getTime(), tasks };
+    return JSON.stringify(data, null, 2);
+};
+
+const fromJson = (text: string): ImportedTask[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON');
+    }
+    // Tasks written by hand may leave out fields, which get their defaults instead of being dropped
+    return migrateTaskRecords(data)
+        .map(toImportedTask)
+        .filter((task): task is ImportedTask => task !== null);
+};
+
+// Markdown: "- [x] call the dentist 📅 2026-10-20 15:00 ⏫ #health", with a "## list" heading per list.
+// Dates and priorities use the emoji of the Obsidian Tasks plugin.
+const PRIORITY_EMOJI: Record<Priority, string> = { high: '⏫', medium: '🔼', low: '🔽' };
+
+const toMarkdownItem = (task: Task): string => [
+    `- [${task.completed ? 'x' : ' '}] ${task.content}`,
+    task.due ? `📅 ${task.due.replace('T', ' ')}` : '',
+    task.priority ? PRIORITY_EMOJI[task.priority] : '',
+    ...task.tags.map(tag => `#${tag}`)
+].filter(Boolean).join(' ');
+
+const toMarkdown = (tasks: Task[]): string => {
+    const lines = ['# Tasks', ''];
+    const lists = Array.from(new Set(tasks.map(task => task.list)));
+    // Tasks without a list come first, under the title
+    lists.sort((a, b) => (a === null ? -1 : b === null ? 1 : a.localeCompare(b)));
+    lists.forEach(list => {
+        if (list !== null) {
+            lines.push(`## ${list}`, '');
+        }
+        tasks.filter(task => task.list === list).forEach(task => lines.push(toMarkdownItem(task)));
+        lines.push('');
+    });
+    return lines.join('\n');
+};
+
+const fromMarkdown = (text: string): ImportedTask[] => {
+    const tasks: ImportedTask[] = [];
+    let list: string | null = null;
+
+    text.split(/\r?\n/).forEach(line => {
+        const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+        if (heading) {
+            // The title is not a list; every other heading names the list of the items below it
+            list = heading[1].length === 1 ? null : heading[2].toLowerCase();
+            return;
+        }
+
+        const item = line.match(/^\s*[-*+]\s+\[([ xX])\]\s+(.*)$/);
+        if (!item) {
+            return;
+        }
+        let content = item[2];
+        let due: string | null = null;
+        let priority: Priority | null = null;
+        const tags: string[] = [];
+
+        content = content.replace(/\s*📅\s*(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}))?/, (_, date: string, time?: string) => {
+            due = time ? `${date}T${time}` : date;
+            return '';
+        });
+        PRIORITIES.forEach(level => {
+            if (content.includes(PRIORITY_EMOJI[level])) {
+                priority = priority || level;
+                content = content.split(PRIORITY_EMOJI[level]).join('');
+            }
+        });
+        content = content.replace(/(?:^|\s)#([^\s#]+)/g, (_, tag: string) => {
+            if (!tags.includes(tag.toLowerCase())) {
+                tags.push(tag.toLowerCase());
+            }
+            return '';
+        });
+
+        content = content.replace(/\s+/g, ' ').trim();
+        if (content) {
+            tasks.push({ content, completed: item[1] !== ' ', due, priority, tags, list });
+        }
+    });
+
+    return tasks;
+};
+
+// iCalendar (RFC 5545). Lines end in CRLF and are folded at 75 bytes; text values are escaped.
+const ICS_PRIORITY: Record<Priority, number> = { high: 1, medium: 5, low: 9 };
+const ICS_LIST_PROPERTY = 'X-VOICE-TODO-LIST';
+
+const escapeIcsText = (text: string): string =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeIcsText = (text: string): string =>
+    text.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+const utf8Length = (char: string): number => {
+    const code = char.codePointAt(0) || 0;
+    return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+const foldIcsLine = (line: string): string => {
+    const parts: string[] = [];
+    let current = '';
+    let length = 0;
+    Array.from(line).forEach(char => {
+        // Continuation lines start with a space, which counts towards their 75 bytes
+        if (length + utf8Length(char) > 75) {
+            parts.push(current);
+            current = ' ';
+            length = 1;
+        }
+        current += char;
+        length += utf8Length(char);
+    });
+    parts.push(current);
+    return parts.join('\r\n');
+};
+
+const toIcsUtc = (date: Date): string =>
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Date-only due dates become DATE values, timed ones floating local times like the app stores them
+const toIcsDue = (due: string): string => {
+    const [date, time] = due.split('T');
+    return time
+        ? `DUE:${date.replace(/-/g, '')}T${time.replace(':', '')}00`
+        : `DUE;VALUE=DATE:${date.replace(/-/g, '')}`;
+};
+
+const toIcs = (tasks: Task[], now: Date): string => {
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//voice-todo-app//Tasks//EN'];
+    tasks.forEach(task => {
+        lines.push(
+            'BEGIN:VTODO',
+            `UID:${task.id}@voice-todo-app`,
+            `DTSTAMP:${toIcsUtc(now)}`,
+            `SUMMARY:${escapeIcsText(task.content)}`,
+            `STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`
+        );
+        if (task.due) {
+            lines.push(toIcsDue(task.due));
+        }
+        if (task.priority) {
+            lines.push(`PRIORITY:${ICS_PRIORITY[task.priority]}`);
+        }
+        if (task.tags.length > 0) {
+            lines.push(`CATEGORIES:${task.tags.map(escapeIcsText).join(',')}`);
+        }
+        if (task.list) {
+            lines.push(`${ICS_LIST_PROPERTY}:${escapeIcsText(task.list)}`);
+        }
+        lines.push('END:VTODO');
+    });
+    lines.push('END:VCALENDAR');
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+// "20261020" or "20261020T150000", with a trailing Z for UTC, to the app's local "2026-10-20T15:00"
+const fromIcsDate = (value: string): string | null => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+    if (!match) {
+        return null;
+    }
+    const [, year, month, day, hours, minutes, utc] = match;
+    if (!hours) {
+        return `${year}-${month}-${day}`;
+    }
+    if (!utc) {
+        return `${year}-${month}-${day}T${hours}:${minutes}`;
+    }
+    const local = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes)));
+    return `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}T${pad(local.getHours())}:${pad(local.getMinutes())}`;
+};
+
+const fromIcsPriority = (value: string): Priority | null => {
+    const level = Number(value);
+    if (!level) {
+        return null;
+    }
+    return level <= 4 ? 'high' : level === 5 ? 'medium' : 'low';
+};
+
+// Splits a list value at commas that aren't escaped
+const splitIcsList = (value: string): string[] =>
+    (value.match(/(?:\\.|[^,])+/g) || []).map(unescapeIcsText);
+
+const fromIcs = (text: string): ImportedTask[] => {
+    if (!/^\s*BEGIN:VCALENDAR/i.test(text)) {
+        throw new Error('The file is not an iCalendar file');
+    }
+
+    const tasks: ImportedTask[] = [];
+    let task: ImportedTask | null = null;
+    // Unfold continuation lines first
+    text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).forEach(line => {
+        const colon = line.indexOf(':');
+        if (colon === -1) {
+            return;
+        }
+        const name = line.slice(0, colon).split(';')[0].toUpperCase();
+        const value = line.slice(colon + 1);
+
+        if (name === 'BEGIN' && value.toUpperCase() === 'VTODO') {
+            task = { content: '', completed: false, due: null, priority: null, tags: [], list: null };
+            return;
+        }
+        if (!task) {
+            return;
+        }
+        switch (name) {
+            case 'END':
+                if (value.toUpperCase() === 'VTODO' && task.content) {
+                    tasks.push(task);
+                }
+                task = null;
+                break;
+            case 'SUMMARY':
+                task.content = unescapeIcsText(value).replace(/\s+/g, ' ').trim();
+                break;
+            case 'STATUS':
+                task.completed = value.toUpperCase() === 'COMPLETED';
+                break;
+            case 'COMPLETED':
+                task.completed = true;
+                break;
+            case 'DUE':
+                task.due = fromIcsDate(value.trim());
+                break;
+            case 'PRIORITY':
+                task.priority = fromIcsPriority(value);
+                break;
+            case 'CATEGORIES':
+                task.tags.push(...splitIcsList(value).map(tag => tag.trim().toLowerCase().replace(/\s+/g, '-')).filter(Boolean));
+                break;
+            case ICS_LIST_PROPERTY:
+                task.list = unescapeIcsText(value).trim().toLowerCase() || null;
+                break;
+        }
+    });
+    return tasks;
+};
+
+export const exportTasks = (tasks: Task[], format: TaskFileFormat, now: Date = new Date()): string => {
+    switch (format) {
+        case 'markdown':
+            return toMarkdown(tasks);
+        case 'ics':
+            return toIcs(tasks, now);
+        default:
+            return toJson(tasks, now);
+    }
+};
+
+// Throws when the file can't be read in that format
+export const importTasks = (text: string, format: TaskFileFormat): ImportedTask[] => {
+    switch (format) {
+        case 'markdown':
+            return fromMarkdown(text);
+        case 'ics':
+            return fromIcs(text);
+        default:
+            return fromJson(text);
+    }
+};
+
+// By file extension, or by looking at the content when the extension doesn't say
+export const detectTaskFileFormat = (fileName: string, text: string): TaskFileFormat | null => {
+    const extension = fileName.toLowerCase().split('.').pop() || '';
+    const formats = Object.keys(TASK_FILE_FORMATS) as TaskFileFormat[];
+    const byExtension = formats.find(format => TASK_FILE_FORMATS[format].extensions.includes(extension));
+    if (byExtension && extension !== 'txt') {
+        return byExtension;
+    }
+
+    const start = text.trimStart();
+    if (/^BEGIN:VCALENDAR/i.test(start)) {
+        return 'ics';
+    }
+    if (start.startsWith('{') || start.startsWith('[')) {
+        return 'json';
+    }
+    return /^\s*[-*+]\s+\[[ xX]\]/m.test(text) ? 'markdown' : null;
+};
+
+// The same text (ignoring case and spacing) on the same list counts as the same task
+const duplicateKey = (task: ImportedTask): string =>
+    `${task.list || ''}\n${task.content.toLowerCase().replace(/\s+/g, ' ').trim()}`;
+
+// Adds the imported tasks that aren't in the list yet, with new ids
+export const mergeImportedTasks = (existing: Task[], imported: ImportedTask[]): ImportResult => {
+    const seen = new Set(existing.map(duplicateKey));
+    const added: Task[] = [];
+
+    imported.forEach(task => {
+        const key = duplicateKey(task);
+        if (!seen.has(key)) {
+            seen.add(key);
+            added.push({ ...task, tags: [...task.tags], id: createTaskId() });
+        }
+    });
+
+    return {
+        tasks: added.length > 0 ? [...existing, ...added] : existing,
+        added: added.length,
+        duplicates: imported.length - added.length
+    };
+};
+
+// e.g. "tasks-2026-10-19.md"
+export const taskFileName = (format: TaskFileFormat, now: Date = new Date()): string =>
+    `tasks-${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}.${TASK_FILE_FORMATS[format].extensions[0]}`;
@@ -0,0 +1,105 @@
+import {
+    TaskFilter,
+    collectLists,
+    collectTags,
+    emptyTaskFilter,
+    filterTasks,
+    isDueToday,
+    isOverdue,
+    sortTasks,
+    taskViewFilter
+} from './taskQueries';
+import { Task, emptyTaskDetails } from '../types/task';
+
+const task = (id: string, extra: Partial<Task> = {}): Task => ({
+    id,
+    content: id,
+    completed: false,
+    ...emptyTaskDetails(),
+    ...extra
+});
+
+const ids = (tasks: Task[]): string[] => tasks.map(({ id }) => id);
+
+// Local noon on 2026-10-20
+const now = new Date(2026, 9, 20, 12, 0);
+
+const tasks = [
+    task('milk', { due: '2026-10-19', priority: 'low', tags: ['shopping'], list: 'home' }),
+    task('report', { due: '2026-10-20T09:00', priority: 'high', tags: ['work'], list: 'work' }),
+    task('call', { due: '2026-10-20T15:00', completed: true, list: 'home' }),
+    task('plants', { due: '2026-10-21', priority: 'medium', tags: ['home', 'shopping'] }),
+    task('book')
+];
+
+const filter = (changes: Partial<TaskFilter>): TaskFilter => ({ ...emptyTaskFilter(), ...changes });
+
+describe('isOverdue', () => {
+    it('counts date-only tasks from the next day and timed ones from their time', () => {
+        expect(isOverdue(tasks[0], now)).toBe(true);
+        expect(isOverdue(tasks[1], now)).toBe(true);
+        expect(isOverdue(tasks[3], now)).toBe(false);
+        expect(isOverdue(task('today', { due: '2026-10-20' }), now)).toBe(false);
+    });
+
+    it('never counts completed tasks or tasks without a due date', () => {
+        expect(isOverdue({ ...tasks[0], completed: true }, now)).toBe(false);
+        expect(isOverdue(tasks[4], now)).toBe(false);
+    });
+});
+
+describe('isDueToday', () => {
+    it('matches date-only and timed due dates of today', () => {
+        expect(ids(tasks.filter(item => isDueToday(item, now)))).toEqual(['report', 'call']);
+    });
+});
+
+describe('filterTasks', () => {
+    it.each<[string, Partial<TaskFilter>, string[]]>([
+        ['everything', {}, ['milk', 'report', 'call', 'plants', 'book']],
+        ['active tasks', { status: 'active' }, ['milk', 'report', 'plants', 'book']],
+        ['completed tasks', { status: 'completed' }, ['call']],
+        ['a list', { list: 'home' }, ['milk', 'call']],
+        ['a tag', { tag: 'shopping' }, ['milk', 'plants']],
+        ['a priority', { priority: 'high' }, ['report']],
+        ['overdue tasks', { overdueOnly: true }, ['milk', 'report']],
+        ['tasks due today', { dueToday: true }, ['report', 'call']],
+        ['several criteria at once', { list: 'home', status: 'active' }, ['milk']]
+    ])('shows %s', (_, changes, expected) => {
+        expect(ids(filterTasks(tasks, filter(changes), now))).toEqual(expected);
+    });
+});
+
+describe('taskViewFilter', () => {
+    it('turns a spoken view into a fresh filter', () => {
+        expect(taskViewFilter('completed')).toEqual(filter({ status: 'completed' }));
+        expect(taskViewFilter('today')).toEqual(filter({ dueToday: true }));
+        expect(taskViewFilter('tag', 'work')).toEqual(filter({ tag: 'work' }));
+        expect(taskViewFilter('all')).toEqual(emptyTaskFilter());
+    });
+});
+
+describe('sortTasks', () => {
+    it.each<[Parameters<typeof sortTasks>[1], string[]]>([
+        ['created', ['milk', 'report', 'call', 'plants', 'book']],
+        ['due', ['milk', 'report', 'call', 'plants', 'book']],
+        ['priority', ['report', 'plants', 'milk', 'call', 'book']],
+        ['content', ['book', 'call', 'milk', 'plants', 'report']]
+    ])('sorts by %s, with missing values last', (sort, expected) => {
+        expect(ids(sortTasks(tasks, sort))).toEqual(expected);
+    });
+
+    it('keeps creation order for ties and leaves the input alone', () => {
+        const same = [task('b', { priority: 'low' }), task('a', { priority: 'low' })];
+        expect(ids(sortTasks(same, 'priority'))).toEqual(['b', 'a']);
+        expect(ids(sortTasks([...tasks].reverse(), 'due'))).toEqual(['milk', 'report', 'call', 'plants', 'book']);
+        expect(ids(tasks)).toEqual(['milk', 'report', 'call', 'plants', 'book']);
+    });
+});
+
+describe('collectLists and collectTags', () => {
+    it('list every list and tag once, sorted', () => {
+        expect(collectLists(tasks)).toEqual(['home', 'work']);
+        expect(collectTags(tasks)).toEqual(['home', 'shopping', 'work']);
+    });
+});
@@ -0,0 +1,127 @@
+// Sorting, filtering and display helpers for the task list
+
+import { Priority, Task } from '../types/task';
+import { toLocalDate } from './taskDetailsParser';
+
+export type TaskSort = 'created' | 'due' | 'priority' | 'content';
+
+export const TASK_SORTS: TaskSort[] = ['created', 'due', 'priority', 'content'];
+
+export type TaskStatus = 'all' | 'active' | 'completed';
+
+export const TASK_STATUSES: TaskStatus[] = ['all', 'active', 'completed'];
+
+// Views a voice query can switch to ("show completed", "what's due today", "show tasks tagged work")
+export type TaskView = 'all' | 'active' | 'completed' | 'today' | 'tag';
+
+export interface TaskFilter {
+    status: TaskStatus;
+    list: string | null;
+    tag: string | null;
+    priority: Priority | null;
+    overdueOnly: boolean;
+    dueToday: boolean;
+}
+
+export const emptyTaskFilter = (): TaskFilter => ({
+    status: 'all',
+    list: null,
+    tag: null,
+    priority: null,
+    overdueOnly: false,
+    dueToday: false
+});
+
+// A spoken view replaces the whole filter, so "show completed" never ends up combined with an old tag filter
+export const taskViewFilter = (view: TaskView, tag?: string): TaskFilter => {
+    const filter = emptyTaskFilter();
+    switch (view) {
+        case 'active':
+        case 'completed':
+            filter.status = view;
+            break;
+        case 'today':
+            filter.dueToday = true;
+            break;
+        case 'tag':
+            filter.tag = tag || null;
+            break;
+    }
+    return filter;
+};
+
+const PRIORITY_RANK: Record<Priority, number> = { high: 0, medium: 1, low: 2 };
+
+// Date-only due dates are overdue from the next day on, timed ones from that minute on
+export const isOverdue = (task: Task, now: Date = new Date()): boolean => {
+    if (!task.due || task.completed) {
+        return false;
+    }
+    if (task.due.includes('T')) {
+        return new Date(task.due).getTime() < now.getTime();
+    }
+    return task.due < toLocalDate(now);
+};
+
+export const isDueToday = (task: Task, now: Date = new Date()): boolean =>
+    !!task.due && task.due.slice(0, 10) === toLocalDate(now);
+
+export const filterTasks = (tasks: Task[], filter: TaskFilter, now: Date = new Date()): Task[] =>
+    tasks.filter(task =>
+        (filter.status === 'all' || task.completed === (filter.status === 'completed')) &&
+        (!filter.list || task.list === filter.list) &&
+        (!filter.tag || task.tags.includes(filter.tag)) &&
+        (!filter.priority || task.priority === filter.priority) &&
+        (!filter.overdueOnly || isOverdue(task, now)) &&
+        (!filter.dueToday || isDueToday(task, now))
+    );
+
+// Plain string order (ISO dates sort correctly), with missing values last
+const compareOptional = (a: string | null, b: string | null): number => {
+    if (a === b) {
+        return 0;
+    }
+    if (a === null || b === null) {
+        return a === null ? 1 : -1;
+    }
+    return a < b ? -1 : 1;
+};
+
+// Tasks without the sorted-by field go last; ties keep creation order
+export const sortTasks = (tasks: Task[], sort: TaskSort): Task[] => {
+    if (sort === 'created') {
+        return tasks;
+    }
+    const indexed = tasks.map((task, index) => ({ task, index }));
+    indexed.sort((a, b) => {
+        let order = 0;
+        if (sort === 'due') {
+            order = compareOptional(a.task.due, b.task.due);
+        } else if (sort === 'priority') {
+            order = (a.task.priority ? PRIORITY_RANK[a.task.priority] : 3) - (b.task.priority ? PRIORITY_RANK[b.task.priority] : 3);
+        } else {
+            order = a.task.content.localeCompare(b.task.content);
+        }
+        return order || a.index - b.index;
+    });
+    return indexed.map(({ task }) => task);
+};
+
+// Every list and tag in use, for the filter pickers
+export const collectLists = (tasks: Task[]): string[] =>
+    Array.from(new Set(tasks.map(task => task.list).filter((list): list is string => !!list))).sort();
+
+export const collectTags = (tasks: Task[]): string[] =>
+    Array.from(new Set(tasks.flatMap(task => task.tags))).sort();
+
+export const formatDue = (due: string, lang: string): string => {
+    const hasTime = due.includes('T');
+    // Date-only values would be parsed as UTC midnight, so build them as local dates
+    const date = hasTime ? new Date(due) : new Date(`${due}T00:00`);
+    return new Intl.DateTimeFormat(lang, {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        ...(hasTime ? { hour: 'numeric', minute: '2-digit' } : {})
+    }).format(date);
+};
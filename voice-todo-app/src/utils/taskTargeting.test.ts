@@ -0,0 +1,91 @@
+import { TargetResult, parseChoice, parsePosition, resolveTaskTarget } from './taskTargeting';
+import { Task, emptyTaskDetails } from '../types/task';
+import { locales } from '../locales';
+
+const task = (id: string, content: string): Task => ({ id, content, completed: false, ...emptyTaskDetails() });
+
+const tasks = [
+    task('1', 'buy milk'),
+    task('2', 'milk the report deadline'),
+    task('3', 'call mom'),
+    task('4', 'mail the letter'),
+    task('5', 'water the plants'),
+    task('6', 'water the garden')
+];
+
+// What a result points at, by task id, so the table stays readable
+const summary = (result: TargetResult): string | string[] | null => {
+    switch (result.kind) {
+        case 'match':
+            return result.task.id;
+        case 'ambiguous':
+            return result.candidates.map(({ id }) => id);
+        default:
+            return null;
+    }
+};
+
+describe('resolveTaskTarget', () => {
+    it.each([
+        // Exact and partial names
+        ['buy milk', '1'],
+        ['call mom', '3'],
+        ['the report', '2'],
+        // Typos and plurals within an edit or two
+        ['moms', '3'],
+        ['buy mill', '1'],
+        ['report deadlines', '2'],
+        // Sound-alike words
+        ['male the letter', '4'],
+        // Positions
+        ['task 2', '2'],
+        ['the third one', '3'],
+        ['number to', '2'],
+        ['the last one', '6'],
+        // Several tasks fit equally well
+        ['water', ['5', '6']],
+        ['milk', ['1', '2']],
+        // Nothing fits; stopwords and very short words don't count
+        ['to', null],
+        ['the', null],
+        ['a', null],
+        ['fix the car', null],
+        ['task 9', null]
+    ])('resolves "%s"', (spoken, expected) => {
+        expect(summary(resolveTaskTarget(spoken, tasks))).toEqual(expected);
+    });
+
+    it('uses the stopwords of the language', () => {
+        const german = [task('1', 'die Milch kaufen'), task('2', 'den Bericht schreiben')];
+        expect(summary(resolveTaskTarget('die', german, locales.de))).toBeNull();
+        expect(summary(resolveTaskTarget('milch', german, locales.de))).toBe('1');
+    });
+});
+
+describe('parsePosition', () => {
+    it.each([
+        ['3', 3],
+        ['task 3', 3],
+        ['3rd', 3],
+        ['the second one', 2],
+        ['number two', 2],
+        ['task to', 2],
+        ['to', null],
+        ['milk', null]
+    ])('reads "%s"', (spoken, position) => {
+        expect(parsePosition(spoken)).toBe(position);
+    });
+
+    it('takes a misheard number where one is expected', () => {
+        expect(parsePosition('to', locales.en, true)).toBe(2);
+    });
+});
+
+describe('parseChoice', () => {
+    it('turns an answer to "which one?" into an index', () => {
+        expect(parseChoice('the second one', 3)).toBe(1);
+        expect(parseChoice('to.', 3)).toBe(1);
+        expect(parseChoice('four', 3)).toBeNull();
+        expect(parseChoice('buy milk', 3)).toBeNull();
+    });
+});
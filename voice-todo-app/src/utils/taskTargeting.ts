@@ -0,0 +1,108 @@
+// Works out which task a spoken reference means: by position ("task 3") or by a fuzzy,
+// ranked match against task names. Close calls are returned as ambiguous so the UI can ask.
+
+import { Task } from '../types/task';
+import { taskNameSimilarity } from './textSimilarity';
+import { defaultLocale } from '../locales';
+import type { CommandLanguage } from '../locales';
+
+export interface ScoredTask {
+    task: Task;
+    score: number;
+}
+
+export type TargetResult =
+    | { kind: 'match', task: Task }
+    | { kind: 'ambiguous', candidates: Task[] }
+    | { kind: 'none' };
+
+// Below this a task isn't considered a match at all
+export const MIN_TARGET_SCORE = 0.5;
+// The best task has to beat the runner-up by this much to be acted on without asking
+export const CLEAR_WINNER_MARGIN = 0.15;
+// How many tasks to offer when asking "which one?"
+const MAX_CHOICES = 4;
+
+const parseNumberWord = (word: string, language: CommandLanguage, expectNumber: boolean): number | null => {
+    if (/^\d+$/.test(word)) {
+        return Number(word);
+    }
+    const ordinal = word.match(/^(\d+)(?:st|nd|rd|th|\.|º|ª)$/);
+    if (ordinal) {
+        return Number(ordinal[1]);
+    }
+    return language.numberWords[word] ?? (expectNumber ? language.numberMishearings[word] : undefined) ?? null;
+};
+
+// "task 3", "number two", "the third one", "3" -> 1-based position. A word that is only a
+// mishearing of a number ("to") counts when more than the number was said, or when a number is expected.
+export const parsePosition = (
+    spoken: string,
+    language: CommandLanguage = defaultLocale,
+    expectNumber = false
+): number | null => {
+    const text = spoken.toLowerCase().trim();
+    const match = text.match(language.positionPattern);
+    return match ? parseNumberWord(match[1], language, expectNumber || match[1] !== text) : null;
+};
+
+// Like parsePosition, but also understands "the last one" in a list of `count` tasks
+const spokenPosition = (spoken: string, count: number, language: CommandLanguage): number | null =>
+    language.lastPattern.test(spoken.toLowerCase().trim()) ? count : parsePosition(spoken, language);
+
+export const scoreTask = (spoken: string, task: Task, language: CommandLanguage = defaultLocale): number =>
+    taskNameSimilarity(spoken, task.content, language.stopWords);
+
+export const rankTasks = (spoken: string, tasks: Task[], language: CommandLanguage = defaultLocale): ScoredTask[] =>
+    tasks
+        .map(task => ({ task, score: scoreTask(spoken, task, language) }))
+        .filter(({ score }) => score >= MIN_TARGET_SCORE)
+        .sort((a, b) => b.score - a.score);
+
+export const resolveTaskTarget = (
+    spoken: string,
+    tasks: Task[],
+    language: CommandLanguage = defaultLocale
+): TargetResult => {
+    const position = spokenPosition(spoken, tasks.length, language);
+    if (position !== null && position >= 1 && position <= tasks.length) {
+        return { kind: 'match', task: tasks[position - 1] };
+    }
+
+    const ranked = rankTasks(spoken, tasks, language);
+    if (ranked.length === 0) {
+        return { kind: 'none' };
+    }
+
+    const [best, runnerUp] = ranked;
+    if (!runnerUp || best.score - runnerUp.score >= CLEAR_WINNER_MARGIN) {
+        return { kind: 'match', task: best.task };
+    }
+
+    return {
+        kind: 'ambiguous',
+        candidates: ranked
+            .filter(({ score }) => best.score - score < CLEAR_WINNER_MARGIN)
+            .slice(0, MAX_CHOICES)
+            .map(({ task }) => task)
+    };
+};
+
+// How well a spoken reference fits any task, for ranking recognition alternatives
+export const targetScore = (spoken: string, tasks: Task[], language: CommandLanguage = defaultLocale): number => {
+    const position = spokenPosition(spoken, tasks.length, language);
+    if (position !== null && position >= 1 && position <= tasks.length) {
+        return 1;
+    }
+    return tasks.reduce((best, task) => Math.max(best, scoreTask(spoken, task, language)), 0);
+};
+
+// Answer to "which one?" -> 0-based index into the offered choices, or null if it isn't an answer
+export const parseChoice = (
+    answer: string,
+    choiceCount: number,
+    language: CommandLanguage = defaultLocale
+): number | null => {
+    const position = parsePosition(answer.replace(/[.,!?]+$/g, ''), language, true);
+    return position !== null && position >= 1 && position <= choiceCount ? position - 1 : null;
+};
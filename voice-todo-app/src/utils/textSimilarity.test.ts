@@ -0,0 +1,80 @@
+import { contentTokens, levenshteinDistance, similarity, soundex, taskNameSimilarity, tokenSimilarity } from './textSimilarity';
+
+describe('levenshteinDistance', () => {
+    it.each([
+        ['milk', 'milk', 0],
+        ['', 'milk', 4],
+        ['milk', '', 4],
+        ['milk', 'silk', 1],
+        ['mom', 'moms', 1],
+        ['kitten', 'sitting', 3],
+        ['flaw', 'lawn', 2]
+    ])('is the edit distance between "%s" and "%s"', (a, b, distance) => {
+        expect(levenshteinDistance(a, b)).toBe(distance);
+        expect(levenshteinDistance(b, a)).toBe(distance);
+    });
+});
+
+describe('similarity', () => {
+    it('ignores case and surrounding spaces', () => {
+        expect(similarity(' Buy Milk ', 'buy milk')).toBe(1);
+    });
+
+    it('scales the edit distance by the longer text', () => {
+        expect(similarity('milk', 'silk')).toBeCloseTo(0.75);
+        expect(similarity('abc', 'xyz')).toBe(0);
+        expect(similarity('', '')).toBe(1);
+    });
+});
+
+describe('soundex', () => {
+    it.each([
+        ['Robert', 'R163'],
+        ['Rupert', 'R163'],
+        ['Ashcraft', 'A261'],
+        ['Tymczak', 'T522'],
+        ['Pfister', 'P236'],
+        ['mail', 'M400'],
+        ['male', 'M400']
+    ])('codes "%s" as %s', (word, code) => {
+        expect(soundex(word)).toBe(code);
+    });
+
+    it('ignores anything but letters', () => {
+        expect(soundex("O'Hara")).toBe(soundex('ohara'));
+        expect(soundex('42')).toBe('');
+    });
+});
+
+describe('contentTokens', () => {
+    it('keeps the words that can tell tasks apart', () => {
+        expect(contentTokens('Call the mom, a  bit later!', ['the'])).toEqual(['call', 'mom', 'bit', 'later']);
+        expect(contentTokens('Tee für Ömer', ['für'])).toEqual(['tee', 'ömer']);
+    });
+});
+
+describe('tokenSimilarity', () => {
+    it.each([
+        ['milk', 'milk', 1],
+        ['moms', 'mom', 0.75],
+        ['deadlines', 'deadline', 1 - 1 / 9],
+        ['mail', 'male', 0.85],
+        ['to', 'the', 0],
+        ['cat', 'car', 0],
+        ['milk', 'mom', 0]
+    ])('scores "%s" against "%s"', (said, word, score) => {
+        expect(tokenSimilarity(said, word)).toBeCloseTo(score);
+    });
+});
+
+describe('taskNameSimilarity', () => {
+    it('counts the spoken words found in the name', () => {
+        expect(taskNameSimilarity('milk', 'buy milk')).toBeCloseTo(0.9);
+        expect(taskNameSimilarity('buy milk', 'buy milk')).toBe(1);
+        expect(taskNameSimilarity('the milk', 'buy milk', ['the'])).toBeCloseTo(0.9);
+    });
+
+    it('does not match on stopwords alone', () => {
+        expect(taskNameSimilarity('to', 'milk the report deadline', ['to', 'the'])).toBeLessThan(0.5);
+    });
+});
@@ -0,0 +1,112 @@
+// String similarity helpers used to compare spoken text against task names
+
+export const levenshteinDistance = (a: string, b: string): number => {
+    if (a === b) {
+        return 0;
+    }
+    if (!a.length || !b.length) {
+        return Math.max(a.length, b.length);
+    }
+
+    // Single-row dynamic programming table
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// 1 for identical strings, 0 for nothing in common
+export const similarity = (a: string, b: string): number => {
+    const left = a.toLowerCase().trim();
+    const right = b.toLowerCase().trim();
+    const longest = Math.max(left.length, right.length);
+    if (!longest) {
+        return 1;
+    }
+    return 1 - levenshteinDistance(left, right) / longest;
+};
+
+const SOUNDEX_CODES: Record<string, string> = {
+    b: '1', f: '1', p: '1', v: '1',
+    c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+    d: '3', t: '3',
+    l: '4',
+    m: '5', n: '5',
+    r: '6'
+};
+
+// Classic Soundex, so words that sound alike ("mail"/"male", "Smith"/"Smyth") get the same code
+export const soundex = (word: string): string => {
+    const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+    if (!letters) {
+        return '';
+    }
+
+    let code = letters[0].toUpperCase();
+    let previous = SOUNDEX_CODES[letters[0]] || '';
+    for (let i = 1; i < letters.length && code.length < 4; i++) {
+        const digit = SOUNDEX_CODES[letters[i]] || '';
+        if (digit && digit !== previous) {
+            code += digit;
+        }
+        // 'h' and 'w' don't separate letters with the same code, vowels do
+        if (letters[i] !== 'h' && letters[i] !== 'w') {
+            previous = digit;
+        }
+    }
+    return code.padEnd(4, '0');
+};
+
+// Words shorter than this say too little about which task is meant
+const MIN_TOKEN_LENGTH = 2;
+
+// The words of a text that can tell tasks apart
+export const contentTokens = (text: string, stopWords: string[] = []): string[] =>
+    text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}']+/u)
+        .filter(word => word.length >= MIN_TOKEN_LENGTH && !stopWords.includes(word));
+
+// How well one spoken word matches one word of a task name: same spelling, a typo or two
+// away (one edit per four letters, so short words have to match exactly), or the same sound.
+// Soundex codes of one- and two-letter words are too coarse to count ("to" would sound like "the").
+export const tokenSimilarity = (said: string, word: string): number => {
+    if (said === word) {
+        return 1;
+    }
+    const longest = Math.max(said.length, word.length);
+    const distance = levenshteinDistance(said, word);
+    if (distance <= Math.floor(longest / 4)) {
+        return 1 - distance / longest;
+    }
+    // Sound-alike words are good evidence, but a little weaker than matching spelling
+    return Math.min(said.length, word.length) >= 3 && soundex(said) === soundex(word) ? 0.85 : 0;
+};
+
+// How well the spoken text matches a task name. Saying part of a task name ("milk" for
+// "buy milk") is common, so every spoken word that matches a whole word of the name counts.
+export const taskNameSimilarity = (spoken: string, taskName: string, stopWords: string[] = []): number => {
+    const said = spoken.toLowerCase().trim();
+    const name = taskName.toLowerCase().trim();
+    if (!said || !name) {
+        return 0;
+    }
+
+    const direct = similarity(said, name);
+    const saidTokens = contentTokens(said, stopWords);
+    const nameTokens = contentTokens(name, stopWords);
+    if (saidTokens.length === 0 || nameTokens.length === 0) {
+        return direct;
+    }
+    const matched = saidTokens
+        .map(token => Math.max(...nameTokens.map(word => tokenSimilarity(token, word))))
+        .reduce((sum, score) => sum + score, 0);
+
+    return Math.max(direct, (matched / saidTokens.length) * 0.9);
+};